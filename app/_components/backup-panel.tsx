@@ -0,0 +1,215 @@
+'use client'
+
+import { type ChangeEvent, useState } from 'react'
+import {
+  applyBackupImport,
+  type ConflictStrategy,
+  countPlannedChanges,
+  createBackup,
+  type ImportPlan,
+  parseBackup,
+  planBackupImport,
+  type ReaderBackup,
+} from '@/lib/utils/backup'
+import { downloadTextFile } from '@/lib/utils/bookmark-export'
+import { toDateKey } from '@/lib/utils/reading-analytics'
+
+interface BackupPanelProps {
+  onImported?: () => void // 取り込み後に設定などを読み込み直す
+}
+
+const STRATEGY_OPTIONS: { value: ConflictStrategy; label: string }[] = [
+  { value: 'newer', label: '新しい方を残す' },
+  { value: 'backup', label: 'バックアップで上書き' },
+  { value: 'local', label: 'この端末のデータを残す' },
+]
+
+const SUMMARY_LABELS: Record<keyof ImportPlan['summary'], string> = {
+  readingState: '読書位置',
+  readingAnalytics: '読書記録',
+  settings: '設定',
+  bookmarks: 'ブックマーク',
+  highlights: 'ハイライト',
+  conversations: '会話履歴',
+}
+
+export default function BackupPanel({ onImported }: BackupPanelProps) {
+  const [backup, setBackup] = useState<ReaderBackup | null>(null)
+  const [issues, setIssues] = useState<string[]>([])
+  const [strategy, setStrategy] = useState<ConflictStrategy>('newer')
+  const [plan, setPlan] = useState<ImportPlan | null>(null)
+  const [status, setStatus] = useState<string | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+
+  const handleExport = async () => {
+    setIsBusy(true)
+    try {
+      const data = await createBackup()
+      downloadTextFile(
+        JSON.stringify(data, null, 2),
+        `chavel-backup-${toDateKey(Date.now())}.json`,
+        'application/json',
+      )
+      setStatus('バックアップを書き出しました')
+    } catch (error) {
+      console.error('Failed to export backup:', error)
+      setStatus('バックアップの書き出しに失敗しました')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const updatePlan = async (nextBackup: ReaderBackup, nextStrategy: ConflictStrategy) => {
+    setIsBusy(true)
+    try {
+      setPlan(await planBackupImport(nextBackup, nextStrategy))
+    } catch (error) {
+      console.error('Failed to plan backup import:', error)
+      setStatus('端末のデータを読み込めませんでした')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // 同じファイルを選び直しても change が発生するようにする
+    event.target.value = ''
+    if (!file) return
+
+    const result = parseBackup(await file.text())
+    setBackup(result.backup)
+    setIssues(result.issues)
+    setPlan(null)
+    setStatus(null)
+    if (result.backup) {
+      await updatePlan(result.backup, strategy)
+    }
+  }
+
+  const handleStrategyChange = (nextStrategy: ConflictStrategy) => {
+    setStrategy(nextStrategy)
+    if (backup) {
+      void updatePlan(backup, nextStrategy)
+    }
+  }
+
+  const handleApply = async () => {
+    if (!plan) return
+    setIsBusy(true)
+    try {
+      await applyBackupImport(plan)
+      setStatus(`${countPlannedChanges(plan)}件のデータを取り込みました`)
+      setBackup(null)
+      setPlan(null)
+      setIssues([])
+      onImported?.()
+    } catch (error) {
+      console.error('Failed to import backup:', error)
+      setStatus('バックアップの取り込みに失敗しました')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={isBusy}
+          className="px-4 py-2 bg-gray-800 text-white rounded-lg hover:bg-gray-900 transition-colors disabled:opacity-50"
+        >
+          書き出す
+        </button>
+        <label className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors cursor-pointer">
+          ファイルから読み込む
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+        </label>
+      </div>
+
+      {status && <p className="text-sm text-gray-700">{status}</p>}
+
+      {issues.length > 0 && (
+        <div className="p-3 rounded-lg bg-yellow-50">
+          <p className="text-sm font-medium text-yellow-800">
+            {backup ? '次の項目は取り込まれません' : '読み込めませんでした'}
+          </p>
+          <ul className="mt-1 text-xs text-yellow-700 space-y-0.5">
+            {issues.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {backup && (
+        <div className="space-y-4">
+          {backup.exportedAt && (
+            <p className="text-xs text-gray-500">
+              {new Date(backup.exportedAt).toLocaleString('ja-JP')} に書き出したバックアップ
+            </p>
+          )}
+
+          <label className="block">
+            <span className="block text-sm font-medium text-gray-700 mb-2">
+              この端末にも同じデータがある場合
+            </span>
+            <select
+              value={strategy}
+              onChange={(event) => handleStrategyChange(event.target.value as ConflictStrategy)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              {STRATEGY_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {plan && (
+            <>
+              {/* 取り込む前の確認（まだ端末のデータは変更していない） */}
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500">
+                    <th className="py-1 font-normal">項目</th>
+                    <th className="py-1 font-normal">追加</th>
+                    <th className="py-1 font-normal">更新</th>
+                    <th className="py-1 font-normal">端末を維持</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {(Object.keys(SUMMARY_LABELS) as (keyof ImportPlan['summary'])[]).map((key) => (
+                    <tr key={key} className="text-gray-800">
+                      <td className="py-1">{SUMMARY_LABELS[key]}</td>
+                      <td className="py-1">{plan.summary[key].added}</td>
+                      <td className="py-1">{plan.summary[key].updated}</td>
+                      <td className="py-1">{plan.summary[key].skipped}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <button
+                type="button"
+                onClick={handleApply}
+                disabled={isBusy || countPlannedChanges(plan) === 0}
+                className="px-4 py-2 bg-primary text-white rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50"
+              >
+                {countPlannedChanges(plan) === 0 ? '取り込むデータはありません' : '取り込む'}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,6 +2,7 @@
 
 import Image from 'next/image'
 import { useState } from 'react'
+import type { ReadingStatus } from '@/lib/utils/library'
 
 interface BookCardProps {
   book: {
@@ -10,16 +11,31 @@ interface BookCardProps {
     author: string
     cover: string
   }
+  status?: ReadingStatus
+  progress?: number // 読んだ割合（0〜1）
+  unavailableReason?: string | null // 読めない書籍なら「近日公開」とその理由を表示
   onClick: () => void
 }
 
-export default function BookCard({ book, onClick }: BookCardProps) {
+// 進捗リングの半径（viewBox 36x36 の中心に描く）
+const RING_RADIUS = 15
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS
+
+export default function BookCard({
+  book,
+  status = 'unread',
+  progress = 0,
+  unavailableReason = null,
+  onClick
+}: BookCardProps) {
   const [imgSrc, setImgSrc] = useState(book.cover)
+  const isUnavailable = unavailableReason !== null
 
   return (
     <div
-      className="cursor-pointer transform transition-all hover:scale-105"
-      onClick={onClick}
+      className={isUnavailable ? 'cursor-not-allowed' : 'cursor-pointer transform transition-all hover:scale-105'}
+      onClick={isUnavailable ? undefined : onClick}
+      aria-disabled={isUnavailable}
     >
       <div className="bg-white overflow-hidden">
         <div className="aspect-[185/262] bg-gray-200 relative">
@@ -27,8 +43,38 @@ export default function BookCard({ book, onClick }: BookCardProps) {
             src={imgSrc}
             alt={book.title}
             fill
-            className="object-cover"
+            className={`object-cover ${isUnavailable ? 'grayscale opacity-60' : ''}`}
           />
+          {isUnavailable && (
+            <div className="absolute inset-x-0 bottom-0 p-2 bg-black/60 text-white text-center">
+              <div className="text-xs font-semibold">近日公開</div>
+              <div className="mt-0.5 text-[10px] leading-tight">{unavailableReason}</div>
+            </div>
+          )}
+          {!isUnavailable && status !== 'unread' && (
+            <div
+              className="absolute top-2 right-2 w-10 h-10 rounded-full bg-white/90 shadow"
+              title={status === 'finished' ? '読了' : `${Math.round(progress * 100)}%読了`}
+            >
+              <svg viewBox="0 0 36 36" className="w-full h-full -rotate-90" aria-hidden="true">
+                <circle cx="18" cy="18" r={RING_RADIUS} fill="none" strokeWidth="3" className="stroke-gray-200" />
+                <circle
+                  cx="18"
+                  cy="18"
+                  r={RING_RADIUS}
+                  fill="none"
+                  strokeWidth="3"
+                  strokeLinecap="round"
+                  strokeDasharray={RING_CIRCUMFERENCE}
+                  strokeDashoffset={RING_CIRCUMFERENCE * (1 - progress)}
+                  className="stroke-primary"
+                />
+              </svg>
+              <span className="absolute inset-0 flex items-center justify-center text-[10px] font-semibold text-gray-900">
+                {status === 'finished' ? '読了' : `${Math.round(progress * 100)}%`}
+              </span>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -1,33 +1,120 @@
 'use client'
 
-import { mockBooks } from '@/lib/mock-data/books'
+import { useEffect, useMemo, useState } from 'react'
+import { getBookCatalog, getUnavailableReason, isBookAvailable } from '@/lib/mock-data/book-registry'
+import { buildLibrary, type LibraryBook, type LibraryFilter, type LibrarySort, queryLibrary } from '@/lib/utils/library'
+import { getReadingStateStore } from '@/lib/utils/reading-state'
 import BookCard from './book-card'
+import ReadingStatsSheet from './reading-stats-sheet'
 
 interface BookListProps {
   onBookSelect: (bookId: string) => void
 }
 
+const FILTER_OPTIONS: { value: LibraryFilter; label: string }[] = [
+  { value: 'all', label: 'すべて' },
+  { value: 'unread', label: '未読' },
+  { value: 'reading', label: '読書中' },
+  { value: 'finished', label: '読了' }
+]
+
+const SORT_OPTIONS: { value: LibrarySort; label: string }[] = [
+  { value: 'recent', label: '最近読んだ順' },
+  { value: 'title', label: 'タイトル順' },
+  { value: 'progress', label: '進み具合順' }
+]
+
 export default function BookList({ onBookSelect }: BookListProps) {
+  const [isStatsOpen, setIsStatsOpen] = useState(false)
+  // 書籍ごとの読書状況（読書状態は localStorage にあるためマウント後に読み込む）
+  const [library, setLibrary] = useState<LibraryBook[]>(() =>
+    buildLibrary(getBookCatalog(), { version: 2, lastOpenedBookId: null, books: {} })
+  )
+  const [search, setSearch] = useState('')
+  const [filter, setFilter] = useState<LibraryFilter>('all')
+  const [sort, setSort] = useState<LibrarySort>('recent')
+
+  useEffect(() => {
+    setLibrary(buildLibrary(getBookCatalog(), getReadingStateStore()))
+  }, [])
+
+  const visibleBooks = useMemo(
+    () => queryLibrary(library, { search, filter, sort }),
+    [library, search, filter, sort]
+  )
+
   // 3列ごとにグルーピング
   const booksPerRow = 3
   const rows = []
-  for (let i = 0; i < mockBooks.length; i += booksPerRow) {
-    rows.push(mockBooks.slice(i, i + booksPerRow))
+  for (let i = 0; i < visibleBooks.length; i += booksPerRow) {
+    rows.push(visibleBooks.slice(i, i + booksPerRow))
   }
 
   return (
-    <main className="min-h-screen bg-primary-50 flex justify-center">
+    <main className="min-h-screen bg-primary-50 flex justify-center relative">
+      <button
+        type="button"
+        onClick={() => setIsStatsOpen(true)}
+        className="absolute top-6 right-[7.5%] px-4 py-2 rounded-full bg-white text-sm text-gray-700 shadow-sm hover:text-gray-900"
+      >
+        読書記録
+      </button>
+      <ReadingStatsSheet isOpen={isStatsOpen} onClose={() => setIsStatsOpen(false)} />
       <div className="w-[85%] pb-0 mt-[15vh]">
         <div className="bg-white rounded-t-lg min-h-full pt-[12%] pb-8">
+          {/* 検索・絞り込み・並べ替え */}
+          <div className="px-[6.6%] flex flex-wrap items-center gap-3">
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="タイトル・著者で検索"
+              aria-label="タイトル・著者で検索"
+              className="flex-1 min-w-[12rem] px-4 py-2 rounded-full border border-gray-200 text-sm focus:outline-none focus:border-primary"
+            />
+            <div className="flex gap-1">
+              {FILTER_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setFilter(option.value)}
+                  aria-pressed={filter === option.value}
+                  className={`px-3 py-1.5 rounded-full text-xs ${
+                    filter === option.value ? 'bg-primary text-black font-semibold' : 'bg-gray-100 text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as LibrarySort)}
+              aria-label="並べ替え"
+              className="px-3 py-1.5 rounded-full border border-gray-200 text-xs text-gray-700"
+            >
+              {SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          {visibleBooks.length === 0 && (
+            <p className="px-[6.6%] pt-[33px] text-sm text-gray-500">該当する書籍がありません</p>
+          )}
           <div>
             {rows.map((rowBooks, rowIndex) => (
               <div key={rowIndex}>
                 <div className={`grid grid-cols-3 gap-[9%] px-[6.6%] ${rowIndex === 0 ? 'pt-[33px]' : 'pt-[99px]'}`}>
-                  {rowBooks.map((book) => (
+                  {rowBooks.map(({ book, status, progress }) => (
                     <BookCard
                       key={book.id}
                       book={book}
-                      onClick={() => !book.disabled && onBookSelect(book.id)}
+                      status={status}
+                      progress={progress}
+                      unavailableReason={getUnavailableReason(book)}
+                      onClick={() => isBookAvailable(book) && onBookSelect(book.id)}
                     />
                   ))}
                   {/* 行の残りのセルを埋める */}
@@ -1,15 +1,68 @@
 'use client'
 
-import { useEffect, useRef, useState, useCallback } from 'react'
-import { PaginatedBookReader, type PaginatedBookReaderRef } from '@/components/paginated-book-reader'
+import { forwardRef, useEffect, useImperativeHandle, useMemo, useRef, useState, useCallback } from 'react'
+import {
+  PaginatedBookReader,
+  type ContentTextSelection,
+  type PaginatedBookReaderRef,
+  type PaginationLoadingState
+} from '@/components/paginated-book-reader'
 import DraggableSeekbar from '@/components/draggable-seekbar'
-import { mockBooks } from '@/lib/mock-data/books'
-import wagahaiData from '@/lib/mock-data/wagahai.json'
-import { getContentPositionFromPage } from '@/lib/utils/content-position-finder'
+import BookmarkSheet from './bookmark-sheet'
+import GlossarySheet from './glossary-sheet'
+import HighlightEditor from './highlight-editor'
+import SearchSheet from './search-sheet'
+import SelectionMenu from './selection-menu'
+import TableOfContentsSheet from './table-of-contents-sheet'
+import TypographySettingsSheet from './typography-settings-sheet'
+import { useBookContent } from '@/hooks/use-book-content'
+import { useBookmarks } from '@/hooks/use-bookmarks'
+import { useReadingAnalytics } from '@/hooks/use-reading-analytics'
+import type { Page } from '@/hooks/use-vertical-text-pagination'
+import { useViewportSize } from '@/hooks/use-viewport-size'
+import { READER_FONTS } from '@/lib/fonts'
+import { getBookEntry } from '@/lib/mock-data/book-registry'
+import {
+  downloadTextFile,
+  exportBookmarksAsJson,
+  exportBookmarksAsMarkdown
+} from '@/lib/utils/bookmark-export'
+import { createChatQuote } from '@/lib/utils/chat-quote'
+import {
+  DEFAULT_CHARACTERS_PER_MINUTE,
+  estimateTimeLeftMs,
+  formatDuration,
+  getCharactersPerMinute
+} from '@/lib/utils/reading-analytics'
+import { findPageByChapterId, getContentPositionFromPage } from '@/lib/utils/content-position-finder'
 import { ContentPositionCalculator } from '@/lib/utils/content-position-calculator'
+import { findPageBySegmentPosition, getPageStartPosition } from '@/lib/utils/page-segments'
+import {
+  type TypographySettings,
+  DEFAULT_VIEW_SETTINGS,
+  createDefaultPosition
+} from '@/lib/utils/reading-state'
+import type { SearchHit } from '@/lib/utils/search-index'
+import { buildTableOfContents, getChapterMarks, type SeekbarScale } from '@/lib/utils/table-of-contents'
+import type { ChatQuote } from '@/services/chat-service'
+import type { Bookmark, Highlight, HighlightColor } from '@/types/bookmark'
 import type { BookContent } from '@/types/pagination'
 
 type ChatState = 'collapsed' | 'expanded'
+// ヘッダーから開くシート
+type ReaderSheet = 'typography' | 'search' | 'bookmarks' | 'glossary' | 'contents'
+
+const HEADER_HEIGHT = 60
+const VERTICAL_MARGIN = 250 // 上125px + 下125px
+// 横長の画面でこの幅以上あれば見開きで表示
+const SPREAD_MIN_WIDTH = 900
+// しおりの一覧に表示する本文の文字数
+const BOOKMARK_EXCERPT_LENGTH = 40
+
+export interface BookReaderRef {
+  // 引用した箇所へ移動して強調表示（ページが未計算なら false）
+  goToQuote: (quote: ChatQuote) => boolean
+}
 
 interface BookReaderProps {
   bookId: string
@@ -25,11 +78,13 @@ interface BookReaderProps {
     currentBlockId?: number
     currentCharacterOffset?: number
     currentPosition?: number
+    readingProgress?: number
   }) => void
   onShowControlsChange?: (showControls: boolean) => void
+  onAskAboutPassage?: (quote: ChatQuote) => void
 }
 
-export default function BookReader({
+export default forwardRef<BookReaderRef, BookReaderProps>(function BookReader({
   bookId,
   onBack,
   chatState,
@@ -37,67 +92,103 @@ export default function BookReader({
   readingState,
   onPageInfoChange,
   onShowControlsChange,
-}: BookReaderProps) {
+  onAskAboutPassage,
+}, ref) {
   const [showControls, setShowControls] = useState(false)
-  const [containerSize, setContainerSize] = useState({ width: 800, height: 600 })
-  const [fontSize] = useState(24)
-  const [lineHeight] = useState(2)
+  const [openSheet, setOpenSheet] = useState<ReaderSheet | null>(null)
+  // マーカーモードではドラッグで本文を選択し、ハイライトの追加やチャットでの質問ができる
+  const [isMarkerMode, setIsMarkerMode] = useState(false)
+  // 選択した本文（メニューでハイライトか質問かを選ぶ）
+  const [selectionMenu, setSelectionMenu] = useState<ContentTextSelection | null>(null)
+  const [pendingSelection, setPendingSelection] = useState<ContentTextSelection | null>(null)
+  const [editingHighlight, setEditingHighlight] = useState<Highlight | null>(null)
+  const [currentPage, setCurrentPage] = useState<Page | null>(null)
   const [pageInfo, setPageInfo] = useState({
     currentPageIndex: 0,
     totalPages: 0,
-    currentChapterTitle: undefined as string | undefined
+    currentChapterTitle: undefined as string | undefined,
+    currentPosition: 0,
+    readingProgress: 0,
+    chapterCharactersLeft: 0,
+    bookCharactersLeft: 0
   })
-  const [isLoading, setIsLoading] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isPaginating, setIsPaginating] = useState(false)
   const [loadingProgress, setLoadingProgress] = useState({ current: 0, total: 0 })
   const [fadeOut, setFadeOut] = useState(false)
   const [showNavigationButtons, setShowNavigationButtons] = useState(true)
   const paginatedBookReaderRef = useRef<PaginatedBookReaderRef>(null)
   const positionCalculatorRef = useRef<ContentPositionCalculator | null>(null)
-  const book = mockBooks.find((b) => b.id === bookId)
-
-  // 書籍データを取得
-  const bookData = bookId === '1' ? wagahaiData : {
-    metadata: {
-      id: parseInt(bookId, 10),
-      title: book?.title || 'サンプル書籍',
-      author: book?.author || 'サンプル著者'
-    },
-    content: {
-      chapters: [{
-        id: 1,
-        title: '第一章',
-        blocks: [{
-          id: 1,
-          type: 'paragraph',
-          text: 'これはサンプルテキストです。'
-        }]
-      }]
-    }
+  const paginatedPagesRef = useRef<Page[]>([])
+  // 目次とシークバーの目盛りに使う計算済みのページ
+  const [paginatedPages, setPaginatedPages] = useState<Page[]>([])
+  const [seekbarScale, setSeekbarScale] = useState<SeekbarScale | null>(null)
+  const book = getBookEntry(bookId)
+
+  // 書籍データを書籍レジストリから取得
+  const { isLoaded: isBookLoaded, bookData, glossary } = useBookContent(bookId)
+  const tableOfContents = useMemo(
+    () => bookData ? buildTableOfContents(bookData.content.chapters, paginatedPages, pageInfo.currentPosition) : [],
+    [bookData, paginatedPages, pageInfo.currentPosition]
+  )
+  const chapterMarks = useMemo(() => getChapterMarks(paginatedPages), [paginatedPages])
+  const { analytics, trackView } = useReadingAnalytics(bookId)
+  // 残りを読み終えるまでの目安には、この本を読む速さ（記録がなければ全体の記録か平均的な速さ）を使う
+  const charactersPerMinute =
+    getCharactersPerMinute(analytics, bookId) ?? getCharactersPerMinute(analytics) ?? DEFAULT_CHARACTERS_PER_MINUTE
+  const {
+    bookmarks,
+    highlights,
+    addBookmark,
+    removeBookmark,
+    addHighlight,
+    updateHighlight,
+    removeHighlight
+  } = useBookmarks(bookId)
+
+  // 書式は読書状態の表示設定に保存（未保存の項目は既定値）
+  const { currentViewSettings } = readingState
+  const typography: TypographySettings = {
+    fontSize: currentViewSettings.fontSize ?? DEFAULT_VIEW_SETTINGS.fontSize,
+    lineHeight: currentViewSettings.lineHeight ?? DEFAULT_VIEW_SETTINGS.lineHeight,
+    letterSpacing: currentViewSettings.letterSpacing ?? DEFAULT_VIEW_SETTINGS.letterSpacing,
+    fontFamily: currentViewSettings.fontFamily ?? DEFAULT_VIEW_SETTINGS.fontFamily,
+    margin: currentViewSettings.margin ?? DEFAULT_VIEW_SETTINGS.margin
   }
+  const { fontSize, lineHeight, letterSpacing, margin } = typography
 
-
-  // 固定サイズに設定（リサイズイベントを削除）
-  useEffect(() => {
-    const HEADER_HEIGHT = 60
-    const VERTICAL_MARGIN = 250 // 上125px + 下125px
-    const HORIZONTAL_MARGIN = 80 // 左40px + 右40px
-
-    const calculatedHeight = window.innerHeight - HEADER_HEIGHT - VERTICAL_MARGIN
-    const calculatedWidth = window.innerWidth - HORIZONTAL_MARGIN
-
-    setContainerSize({
-      width: Math.max(calculatedWidth, 400), // 最小幅確保
-      height: Math.max(calculatedHeight, 300) // 最小高さ確保
-    })
-  }, [])
+  // 画面サイズから本文エリアの大きさを計算（リサイズ・回転のたびにページを再計算）
+  const viewport = useViewportSize()
+  const containerSize = {
+    width: Math.max((viewport?.width ?? 0) - margin * 2, 400), // 左右の余白を除き、最小幅確保
+    height: Math.max((viewport?.height ?? 0) - HEADER_HEIGHT - VERTICAL_MARGIN, 300) // 最小高さ確保
+  }
+  // 横長の画面では見開きで表示
+  const isSpread = !!viewport && viewport.width > viewport.height && containerSize.width >= SPREAD_MIN_WIDTH
 
   // 位置計算器の初期化
   useEffect(() => {
     if (bookData?.content) {
-      positionCalculatorRef.current = new ContentPositionCalculator(bookData.content as BookContent)
+      positionCalculatorRef.current = new ContentPositionCalculator(
+        bookData.content as BookContent,
+        paginatedPagesRef.current
+      )
     }
   }, [bookData])
 
+  // ページが計算されるたびに、ページ単位の累積文字位置を実際のページから計算し直す
+  const handlePagesChange = useCallback((pages: Page[]) => {
+    paginatedPagesRef.current = pages
+    positionCalculatorRef.current?.updatePages(pages)
+    setPaginatedPages(pages)
+    // シークバーの位置も、チャットや読書の進み具合と同じ累積文字位置から求める
+    const positionData = positionCalculatorRef.current?.getPositionData()
+    setSeekbarScale(positionData ? {
+      blockPositions: positionData.blockPositions,
+      pageStartPositions: positionData.pagePositions.map(page => page.pageStartPosition)
+    } : null)
+  }, [])
+
   // UI設定をlocalStorageから読み込み
   useEffect(() => {
     try {
@@ -111,40 +202,41 @@ export default function BookReader({
     }
   }, [])
 
-  // ローディング状態を監視
-  useEffect(() => {
-    const checkLoadingState = () => {
-      if (paginatedBookReaderRef.current) {
-        const loadingState = paginatedBookReaderRef.current.getLoadingState()
-
-        // 読み込み完了時にフェードアウトを開始
-        if (isLoading && !loadingState.isCalculating) {
-          setFadeOut(true)
-          setTimeout(() => {
-            setIsLoading(false)
-            setFadeOut(false)
-            // 読み込み完了時にコントロールを非表示にしてチャットエリアを表示
-            setShowControls(false)
-            onShowControlsChange?.(false)
-          }, 500) // フェードアウトのアニメーション時間
-        } else {
-          setIsLoading(loadingState.isCalculating)
-        }
-
-        setLoadingProgress(loadingState.progress)
-      }
+  // ページネーションの状態を反映（最初のページが届いたらローディング表示を閉じる）
+  // 書式の変更による再計算ではローディング表示を出さない
+  const hasFinishedInitialLoadRef = useRef(false)
+  const handleLoadingStateChange = useCallback((state: PaginationLoadingState) => {
+    setIsPaginating(state.isCalculating)
+    setLoadingProgress(state.progress)
+
+    if (!state.isReady && state.isCalculating && !hasFinishedInitialLoadRef.current) {
+      setIsLoading(true)
+      setFadeOut(false)
+    } else if (state.isReady && isLoading) {
+      setFadeOut(true)
     }
+  }, [isLoading])
 
-    // 初期チェック
-    checkLoadingState()
+  // フェードアウトのアニメーション後にローディング表示を閉じる
+  useEffect(() => {
+    if (!fadeOut) return
 
-    // 定期的にチェック
-    const interval = setInterval(checkLoadingState, 100)
+    const timer = setTimeout(() => {
+      hasFinishedInitialLoadRef.current = true
+      setIsLoading(false)
+      setFadeOut(false)
+      // 読み込み完了時にコントロールを非表示にしてチャットエリアを表示
+      setShowControls(false)
+      onShowControlsChange?.(false)
+    }, 500) // フェードアウトのアニメーション時間
 
-    return () => clearInterval(interval)
-  }, [isLoading])
+    return () => clearTimeout(timer)
+  }, [fadeOut])
 
   const handleContentClick = () => {
+    // マーカーモード中のドラッグではコントロールを切り替えない
+    if (isMarkerMode) return
+
     const newShowControls = !showControls
     setShowControls(newShowControls)
     onShowControlsChange?.(newShowControls)
@@ -162,49 +254,183 @@ export default function BookReader({
 
   const handlePageChange = useCallback((pageIndex: number, total: number, chapterTitle?: string, pageData?: any) => {
 
-    // 現在のページまでの累積文字数を計算（過去のページを含む）
+    // 最後のブロックIDとオフセット情報を取得
     let currentPosition = 0
-    if (paginatedBookReaderRef.current) {
-      currentPosition = paginatedBookReaderRef.current.getCumulativeCharacterCount(pageIndex)
+    let currentChapterTitle = chapterTitle
+    let readingProgress = 0
+    let chapterCharactersLeft = 0
+    let bookCharactersLeft = 0
+    let endChapterId = pageData?.metadata?.chapterId || 1
+    let endBlockId = pageData?.metadata?.endBlockId || pageData?.metadata?.blockIds?.[pageData?.metadata?.blockIds?.length - 1] || 1
+    let endBlockCharacterOffset = pageData?.metadata?.endBlockCharacterOffset || 99999
+
+    // APIに送る累積文字数・チャットの公開範囲・章タイトル・読書の進み具合を、
+    // 実際のページから求めた同じ位置（サーバーと同じ変換）から導き、互いに食い違わないようにする
+    const calculator = positionCalculatorRef.current
+    const pagePosition = calculator?.getPagePositionData(pageIndex)
+    if (calculator && pagePosition) {
+      currentPosition = pagePosition.pageEndPosition
+      currentChapterTitle = pagePosition.chapterTitle ?? chapterTitle
+      readingProgress = calculator.getReadingProgress(pageIndex)
+
+      // 見開きでは左のページも含めて、表示中のページの滞在時間を記録
+      const viewEndPosition = isSpread
+        ? calculator.getPagePositionData(pageIndex + 1)?.pageEndPosition ?? currentPosition
+        : currentPosition
+      trackView(pagePosition.pageStartPosition, viewEndPosition)
+
+      const chapterRange = calculator.getChapterRange(pagePosition.chapterId)
+      chapterCharactersLeft = chapterRange ? Math.max(0, chapterRange.end - currentPosition) : 0
+      bookCharactersLeft = Math.max(0, calculator.getTotalCharacters() - currentPosition)
+      const gatePosition = calculator.getContentPositionAt(currentPosition)
+      if (gatePosition) {
+        endChapterId = gatePosition.chapterId
+        endBlockId = gatePosition.blockId
+        endBlockCharacterOffset = gatePosition.characterOffset
+      }
     }
 
-    // 最後のブロックIDとオフセット情報を取得
-    const endBlockId = pageData?.metadata?.endBlockId || pageData?.metadata?.blockIds?.[pageData?.metadata?.blockIds?.length - 1] || 1
-    const endBlockCharacterOffset = pageData?.metadata?.endBlockCharacterOffset || 99999
-
     // ページ情報を一括更新
     const newPageInfo = {
       currentPageIndex: pageIndex,
       totalPages: total,
-      currentChapterTitle: chapterTitle,
-      currentChapterId: pageData?.metadata?.chapterId || 1,
+      currentChapterTitle,
+      currentChapterId: endChapterId,
       currentBlockId: endBlockId,
       currentCharacterOffset: endBlockCharacterOffset, // 最後のブロックの終了オフセット
-      currentPosition: currentPosition // 現在ページまでの累積文字数
+      currentPosition: currentPosition, // 現在ページまでの累積文字数
+      readingProgress, // 現在ページまでに読んだ割合（0〜1）
+      chapterCharactersLeft, // 章の残りの文字数
+      bookCharactersLeft // 本の残りの文字数
     }
     setPageInfo(newPageInfo)
     onPageInfoChange?.(newPageInfo)
+    setCurrentPage(pageData ?? null)
 
 
     // 読書位置の保存（デバウンス）
     if (pageData?.metadata && readingState) {
       const position = getContentPositionFromPage(pageData, 0)
       if (position) {
-        // 前回の保存位置と異なる場合のみ保存
+        // 前回の保存位置と異なる場合と、最後のページに着いた場合（本棚で読了と表示するため）のみ保存
         const currentPos = readingState.currentPosition
         if (!currentPos ||
             currentPos.chapterId !== position.chapterId ||
-            currentPos.blockId !== position.blockId) {
+            currentPos.blockId !== position.blockId ||
+            (readingProgress >= 1 && readingState.currentProgress !== readingProgress)) {
           readingState.updatePosition(position, {
-            fontSize,
-            lineHeight,
             containerWidth: containerSize.width,
             containerHeight: containerSize.height
-          })
+          }, pagePosition ? readingProgress : undefined)
         }
       }
     }
-  }, [readingState, fontSize, lineHeight, containerSize.width, containerSize.height, onPageInfoChange])
+  }, [readingState, containerSize.width, containerSize.height, onPageInfoChange, isSpread, trackView])
+
+  // 書式の変更を表示設定として保存（ページは再計算後も表示中の位置に留まる）
+  const handleTypographyChange = useCallback((settings: Partial<TypographySettings>) => {
+    readingState.updatePosition(readingState.currentPosition || createDefaultPosition(), settings)
+  }, [readingState])
+
+  // 検索結果のページへ移動し、一致箇所を強調表示
+  const handleSearchHitSelect = useCallback((hit: SearchHit) => {
+    const moved = paginatedBookReaderRef.current?.goToPosition(
+      { chapterId: hit.chapterId, blockId: hit.blockId, characterOffset: hit.start },
+      { highlightLength: hit.end - hit.start }
+    )
+    if (moved) {
+      setOpenSheet(null)
+    }
+  }, [])
+
+  // 表示中のページ（見開きでは右のページ）に挟んだしおり
+  const currentPageBookmark = currentPage
+    ? bookmarks.find(bookmark => findPageBySegmentPosition([currentPage], bookmark.position) === 0)
+    : undefined
+
+  // 表示中のページの先頭にしおりを挟む（挟んであれば外す）
+  const handleBookmarkToggle = useCallback(() => {
+    if (currentPageBookmark) {
+      removeBookmark(currentPageBookmark.id)
+      return
+    }
+    const position = currentPage && getPageStartPosition(currentPage)
+    if (!currentPage || !position) return
+
+    addBookmark({
+      position,
+      chapterTitle: currentPage.chapterTitle,
+      excerpt: currentPage.content.replace(/\s+/g, '').slice(0, BOOKMARK_EXCERPT_LENGTH)
+    })
+  }, [currentPage, currentPageBookmark, addBookmark, removeBookmark])
+
+  const handleHighlightSave = useCallback((changes: { color: HighlightColor; note: string }) => {
+    if (editingHighlight) {
+      updateHighlight(editingHighlight.id, changes)
+    } else if (pendingSelection) {
+      addHighlight({ ...pendingSelection, ...changes })
+    }
+    setPendingSelection(null)
+    setEditingHighlight(null)
+  }, [editingHighlight, pendingSelection, addHighlight, updateHighlight])
+
+  const handleHighlightEditorClose = useCallback(() => {
+    setPendingSelection(null)
+    setEditingHighlight(null)
+  }, [])
+
+  // 選択した箇所を引用してチャットで質問
+  const handleAskAboutSelection = useCallback(() => {
+    const quote = bookData && selectionMenu && createChatQuote(bookData, selectionMenu.range)
+    setSelectionMenu(null)
+    if (!quote) return
+
+    setIsMarkerMode(false)
+    onAskAboutPassage?.(quote)
+  }, [bookData, selectionMenu, onAskAboutPassage])
+
+  useImperativeHandle(ref, () => ({
+    goToQuote: (quote: ChatQuote) => !!paginatedBookReaderRef.current?.goToPosition(
+      { chapterId: quote.chapterId, blockId: quote.blockId, characterOffset: quote.start },
+      { highlightLength: quote.end - quote.start }
+    )
+  }), [])
+
+  // 一覧から選んだしおり・ハイライトの位置へ移動
+  const handleBookmarkSelect = useCallback((bookmark: Bookmark) => {
+    if (paginatedBookReaderRef.current?.goToPosition(bookmark.position)) {
+      setOpenSheet(null)
+    }
+  }, [])
+
+  const handleHighlightSelect = useCallback((highlight: Highlight) => {
+    if (paginatedBookReaderRef.current?.goToPosition(highlight.range.start)) {
+      setOpenSheet(null)
+    }
+  }, [])
+
+  const handleBookmarkExport = useCallback((format: 'json' | 'markdown') => {
+    const source = {
+      book: { id: bookId, title: book?.title ?? bookId, author: book?.author ?? '' },
+      bookmarks,
+      highlights
+    }
+    const fileName = `${source.book.title}-しおり`
+    if (format === 'json') {
+      downloadTextFile(exportBookmarksAsJson(source), `${fileName}.json`, 'application/json')
+    } else {
+      downloadTextFile(exportBookmarksAsMarkdown(source), `${fileName}.md`, 'text/markdown')
+    }
+  }, [bookId, book, bookmarks, highlights])
+
+  // 目次から選んだ章の最初のページへ移動
+  const handleChapterSelect = useCallback((chapterId: number) => {
+    const result = findPageByChapterId(paginatedPagesRef.current, chapterId)
+    if (result && paginatedBookReaderRef.current) {
+      paginatedBookReaderRef.current.goToPage(result.pageIndex)
+      setOpenSheet(null)
+    }
+  }, [])
 
   // シークバーからのページ遷移ハンドラー
   const handlePageSeek = useCallback((pageIndex: number) => {
@@ -223,6 +449,10 @@ export default function BookReader({
   // 縦スクロール防止とバウンス防止
   useEffect(() => {
     const preventScroll = (e: TouchEvent) => {
+      // 検索結果などシート内の一覧はスクロールを許可
+      if ((e.target as Element).closest('[data-scrollable-sheet]')) {
+        return
+      }
       // チャット展開時は、チャットエリア内のスクロールのみ許可
       if (chatState === 'expanded') {
         // e.targetがチャットメッセージエリア内かどうかをチェック
@@ -264,7 +494,7 @@ export default function BookReader({
   return (
     <div className="h-screen flex flex-col bg-white relative" style={{ overscrollBehavior: 'none' }}>
       {/* ローディングオーバーレイ */}
-      {isLoading && (
+      {(!isBookLoaded || (isLoading && !!bookData)) && (
         <div
           className={`absolute inset-0 bg-white/90 backdrop-blur-sm flex items-center justify-center z-50 transition-opacity duration-500 ${
             fadeOut ? 'opacity-0' : 'opacity-100'
@@ -315,8 +545,165 @@ export default function BookReader({
             />
           </svg>
         </button>
+        {currentPage && (
+          <div className="text-xs text-gray-500 text-center">
+            この章 残り約{formatDuration(estimateTimeLeftMs(pageInfo.chapterCharactersLeft, charactersPerMinute))}
+            <span className="mx-2 text-gray-300">|</span>
+            本 残り約{formatDuration(estimateTimeLeftMs(pageInfo.bookCharactersLeft, charactersPerMinute))}
+          </div>
+        )}
+        <div className="flex items-center gap-5">
+          <button
+            type="button"
+            onClick={handleBookmarkToggle}
+            className={currentPageBookmark ? 'text-[var(--primary)]' : 'text-gray-600 hover:text-gray-900'}
+            aria-label={currentPageBookmark ? 'しおりを外す' : 'しおりを挟む'}
+            aria-pressed={!!currentPageBookmark}
+            disabled={!currentPage}
+          >
+            <svg
+              className="w-6 h-6"
+              fill={currentPageBookmark ? 'currentColor' : 'none'}
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+              aria-hidden="true"
+            >
+              <path strokeLinejoin="round" strokeWidth={2} d="M6 3h12v18l-6-4-6 4z" />
+            </svg>
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsMarkerMode(prev => !prev)}
+            className={`rounded px-1 ${isMarkerMode ? 'bg-yellow-200 text-gray-900' : 'text-gray-600 hover:text-gray-900'}`}
+            aria-label="本文を選択"
+            aria-pressed={isMarkerMode}
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 4l5 5-9 9H6v-5z" />
+              <path strokeLinecap="round" strokeWidth={2} d="M4 21h16" />
+            </svg>
+          </button>
+          <button
+            type="button"
+            onClick={() => setOpenSheet('contents')}
+            className="text-gray-600 hover:text-gray-900"
+            aria-label="目次"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+              <path strokeLinecap="round" strokeWidth={2} d="M4 6h10M4 12h16M8 18h12" />
+            </svg>
+          </button>
+          <button
+            type="button"
+            onClick={() => setOpenSheet('bookmarks')}
+            className="text-gray-600 hover:text-gray-900"
+            aria-label="しおり・ハイライト一覧"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+              <path strokeLinecap="round" strokeWidth={2} d="M8 6h12M8 12h12M8 18h12M4 6h.01M4 12h.01M4 18h.01" />
+            </svg>
+          </button>
+          <button
+            type="button"
+            onClick={() => setOpenSheet('glossary')}
+            className="text-gray-600 hover:text-gray-900"
+            aria-label="人物・用語事典"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+              <path strokeLinejoin="round" strokeWidth={2} d="M5 4h11a3 3 0 013 3v13H8a3 3 0 01-3-3z" />
+              <path strokeLinecap="round" strokeWidth={2} d="M5 17a3 3 0 013-3h11M9 8h6" />
+            </svg>
+          </button>
+          <button
+            type="button"
+            onClick={() => setOpenSheet('search')}
+            className="text-gray-600 hover:text-gray-900"
+            aria-label="本文を検索"
+            disabled={!bookData}
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+              <circle cx="11" cy="11" r="7" strokeWidth={2} />
+              <path strokeLinecap="round" strokeWidth={2} d="M20 20l-4-4" />
+            </svg>
+          </button>
+          <button
+            type="button"
+            onClick={() => setOpenSheet('typography')}
+            className="text-gray-600 hover:text-gray-900 text-lg font-semibold"
+            aria-label="表示設定"
+          >
+            Aa
+          </button>
+        </div>
       </header>
 
+      <TypographySettingsSheet
+        isOpen={openSheet === 'typography'}
+        settings={typography}
+        onChange={handleTypographyChange}
+        onClose={() => setOpenSheet(null)}
+      />
+      {bookData && (
+        <SearchSheet
+          isOpen={openSheet === 'search'}
+          bookData={bookData}
+          onSelect={handleSearchHitSelect}
+          onClose={() => setOpenSheet(null)}
+        />
+      )}
+      <TableOfContentsSheet
+        isOpen={openSheet === 'contents'}
+        entries={tableOfContents}
+        currentChapterId={currentPage?.metadata?.chapterId ?? null}
+        onSelectChapter={handleChapterSelect}
+        onClose={() => setOpenSheet(null)}
+      />
+      <GlossarySheet
+        isOpen={openSheet === 'glossary'}
+        entries={glossary}
+        currentPosition={readingState.currentPosition}
+        onClose={() => setOpenSheet(null)}
+      />
+      <BookmarkSheet
+        isOpen={openSheet === 'bookmarks'}
+        bookmarks={bookmarks}
+        highlights={highlights}
+        onSelectBookmark={handleBookmarkSelect}
+        onSelectHighlight={handleHighlightSelect}
+        onEditHighlight={highlight => {
+          setOpenSheet(null)
+          setEditingHighlight(highlight)
+        }}
+        onDeleteBookmark={removeBookmark}
+        onExport={handleBookmarkExport}
+        onClose={() => setOpenSheet(null)}
+      />
+      {selectionMenu && (
+        <SelectionMenu
+          text={selectionMenu.text}
+          onHighlight={() => {
+            setPendingSelection(selectionMenu)
+            setSelectionMenu(null)
+          }}
+          onAsk={handleAskAboutSelection}
+          onClose={() => setSelectionMenu(null)}
+        />
+      )}
+      {(pendingSelection || editingHighlight) && (
+        <HighlightEditor
+          key={editingHighlight?.id ?? 'new'}
+          text={editingHighlight?.text ?? pendingSelection?.text ?? ''}
+          color={editingHighlight?.color}
+          note={editingHighlight?.note}
+          onSave={handleHighlightSave}
+          onDelete={editingHighlight ? () => {
+            removeHighlight(editingHighlight.id)
+            setEditingHighlight(null)
+          } : undefined}
+          onClose={handleHighlightEditorClose}
+        />
+      )}
+
       {/* Page Navigation Buttons */}
       {showNavigationButtons && (
         <>
@@ -357,14 +744,19 @@ export default function BookReader({
         className="absolute"
         style={{
           top: '100px', // ヘッダー60px + 上マージン40px
-          left: '40px', // 左マージン40px
-          right: '40px', // 右マージン40px
+          left: `${margin}px`, // 左右の余白は表示設定から
+          right: `${margin}px`,
           bottom: '150px', // 下マージン150px
           opacity: chatState === 'expanded' ? 0.3 : 1
         }}
         onClick={handleContentClick}
       >
-        {(
+        {isBookLoaded && !bookData && (
+          <div className="h-full flex items-center justify-center text-gray-500">
+            この書籍の本文はまだ用意されていません
+          </div>
+        )}
+        {bookData && viewport && (
           <PaginatedBookReader
             ref={paginatedBookReaderRef}
             bookData={bookData}
@@ -372,10 +764,19 @@ export default function BookReader({
             width={containerSize.width}
             fontSize={fontSize}
             lineHeight={lineHeight}
+            fontFamily={READER_FONTS[typography.fontFamily].fontFamily}
+            letterSpacing={letterSpacing}
+            spread={isSpread}
             showControls={false}
             onPageChange={handlePageChange}
             initialPosition={readingState.hasPositionToRestore && readingState.currentPosition ? readingState.currentPosition : undefined}
             onPositionRestored={handlePositionRestored}
+            onLoadingStateChange={handleLoadingStateChange}
+            onPagesChange={handlePagesChange}
+            highlights={highlights}
+            bookmarks={bookmarks}
+            isSelectionMode={isMarkerMode}
+            onTextSelect={setSelectionMenu}
             className={`transition-all duration-300 ${showControls ? 'opacity-100' : 'opacity-100'}`}
           />
         )}
@@ -402,11 +803,22 @@ export default function BookReader({
                     currentPage={pageInfo.currentPageIndex}
                     totalPages={pageInfo.totalPages || 1}
                     onPageChange={handlePageSeek}
+                    chapterMarks={chapterMarks}
+                    scale={seekbarScale}
                     disabled={pageInfo.totalPages <= 1}
                   />
                   {pageInfo.currentChapterTitle && (
                     <div className="mt-4 text-sm font-medium text-gray-700">
                       {pageInfo.currentChapterTitle}
+                      <span className="ml-2 text-xs text-gray-400">
+                        {Math.round(pageInfo.readingProgress * 100)}%
+                      </span>
+                    </div>
+                  )}
+                  {/* 残りのページは読書中にバックグラウンドで計算 */}
+                  {isPaginating && loadingProgress.total > 0 && (
+                    <div className="mt-1 text-xs text-gray-400">
+                      ページを計算中… {Math.round((loadingProgress.current / loadingProgress.total) * 100)}%
                     </div>
                   )}
                 </div>
@@ -416,4 +828,4 @@ export default function BookReader({
       )}
     </div>
   )
-}
+})
@@ -0,0 +1,163 @@
+'use client'
+
+import { useState } from 'react'
+import { HIGHLIGHT_COLORS } from '@/lib/highlight-colors'
+import type { Bookmark, Highlight } from '@/types/bookmark'
+
+interface BookmarkSheetProps {
+  isOpen: boolean
+  bookmarks: Bookmark[]
+  highlights: Highlight[]
+  onSelectBookmark: (bookmark: Bookmark) => void
+  onSelectHighlight: (highlight: Highlight) => void
+  onEditHighlight: (highlight: Highlight) => void
+  onDeleteBookmark: (bookmarkId: string) => void
+  onExport: (format: 'json' | 'markdown') => void
+  onClose: () => void
+}
+
+type BookmarkTab = 'highlights' | 'bookmarks'
+
+export default function BookmarkSheet({
+  isOpen,
+  bookmarks,
+  highlights,
+  onSelectBookmark,
+  onSelectHighlight,
+  onEditHighlight,
+  onDeleteBookmark,
+  onExport,
+  onClose,
+}: BookmarkSheetProps) {
+  const [tab, setTab] = useState<BookmarkTab>('highlights')
+
+  if (!isOpen) {
+    return null
+  }
+
+  const tabClassName = (isSelected: boolean) =>
+    `flex-1 py-2 text-sm border-b-2 transition-colors ${
+      isSelected
+        ? 'border-[var(--primary)] text-gray-900'
+        : 'border-transparent text-gray-500 hover:text-gray-900'
+    }`
+  const isEmpty = tab === 'highlights' ? highlights.length === 0 : bookmarks.length === 0
+
+  return (
+    <div className="absolute inset-0 z-50">
+      {/* シートの外側を押すと閉じる */}
+      <button
+        type="button"
+        aria-label="しおり一覧を閉じる"
+        onClick={onClose}
+        className="absolute inset-0 w-full h-full cursor-default"
+      />
+      <div className="absolute top-[60px] right-4 w-96 max-h-[70vh] flex flex-col bg-white rounded-xl shadow-lg">
+        <div className="px-4 pt-4 border-b border-gray-100">
+          <div className="flex items-center justify-between">
+            <h2 className="text-base font-semibold text-gray-900">しおり・ハイライト</h2>
+            <button
+              type="button"
+              onClick={onClose}
+              className="text-sm text-gray-500 hover:text-gray-900"
+            >
+              閉じる
+            </button>
+          </div>
+          <div className="flex mt-3">
+            <button
+              type="button"
+              onClick={() => setTab('highlights')}
+              className={tabClassName(tab === 'highlights')}
+            >
+              ハイライト（{highlights.length}）
+            </button>
+            <button
+              type="button"
+              onClick={() => setTab('bookmarks')}
+              className={tabClassName(tab === 'bookmarks')}
+            >
+              しおり（{bookmarks.length}）
+            </button>
+          </div>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto overscroll-contain" data-scrollable-sheet>
+          {isEmpty && (
+            <li className="px-4 py-8 text-center text-sm text-gray-500">
+              {tab === 'highlights'
+                ? 'マーカーで本文を選択するとハイライトを追加できます'
+                : 'しおりはまだありません'}
+            </li>
+          )}
+          {tab === 'highlights' &&
+            highlights.map((highlight) => (
+              <li key={highlight.id} className="flex border-b border-gray-50">
+                <button
+                  type="button"
+                  onClick={() => onSelectHighlight(highlight)}
+                  className="flex-1 min-w-0 text-left px-4 py-3 hover:bg-gray-50"
+                >
+                  <div className="flex items-center gap-2 text-xs text-gray-500 mb-1">
+                    <span
+                      className={`w-2.5 h-2.5 rounded-full ${HIGHLIGHT_COLORS[highlight.color].swatchClassName}`}
+                    />
+                    {highlight.chapterTitle}
+                  </div>
+                  <div className="text-sm text-gray-700 line-clamp-2">{highlight.text}</div>
+                  {highlight.note && (
+                    <div className="mt-1 text-xs text-gray-500 line-clamp-2">{highlight.note}</div>
+                  )}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onEditHighlight(highlight)}
+                  className="px-3 text-xs text-gray-500 hover:text-gray-900"
+                >
+                  編集
+                </button>
+              </li>
+            ))}
+          {tab === 'bookmarks' &&
+            bookmarks.map((bookmark) => (
+              <li key={bookmark.id} className="flex border-b border-gray-50">
+                <button
+                  type="button"
+                  onClick={() => onSelectBookmark(bookmark)}
+                  className="flex-1 min-w-0 text-left px-4 py-3 hover:bg-gray-50"
+                >
+                  <div className="text-xs text-gray-500 mb-1">{bookmark.chapterTitle}</div>
+                  <div className="text-sm text-gray-700 line-clamp-2">{bookmark.excerpt}</div>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onDeleteBookmark(bookmark.id)}
+                  className="px-3 text-xs text-gray-500 hover:text-red-600"
+                >
+                  削除
+                </button>
+              </li>
+            ))}
+        </ul>
+
+        <div className="flex items-center justify-end gap-4 px-4 py-3 border-t border-gray-100 text-sm">
+          <span className="mr-auto text-gray-500">書き出し</span>
+          <button
+            type="button"
+            onClick={() => onExport('markdown')}
+            className="text-gray-600 hover:text-gray-900"
+          >
+            Markdown
+          </button>
+          <button
+            type="button"
+            onClick={() => onExport('json')}
+            className="text-gray-600 hover:text-gray-900"
+          >
+            JSON
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+'use client'
+
+import Image from 'next/image'
+import type { RevealedCharacterProfile } from '@/lib/utils/character-profile'
+
+interface CharacterProfileCardProps {
+  profile: RevealedCharacterProfile
+  iconSrc: string
+  onSelectCharacter: (characterId: number) => void
+}
+
+function ProfileSection({ title, items }: { title: string; items: string[] }) {
+  if (items.length === 0) return null
+
+  return (
+    <section>
+      <h3 className="text-xs font-semibold text-gray-500 mb-1">{title}</h3>
+      <ul className="space-y-1 text-sm text-gray-800">
+        {items.map((item) => (
+          <li key={item}>・{item}</li>
+        ))}
+      </ul>
+    </section>
+  )
+}
+
+export default function CharacterProfileCard({
+  profile,
+  iconSrc,
+  onSelectCharacter,
+}: CharacterProfileCardProps) {
+  const { character } = profile
+  const attributes = [
+    profile.occupation,
+    profile.gender,
+    profile.age ? `${profile.age}歳` : undefined,
+  ].filter(Boolean)
+  // 口調は登場時点で分かるため、口癖と合わせて表示する
+  const dialogue = [
+    ...(profile.tone ? [profile.tone] : []),
+    ...profile.catchphrases.map((phrase) => `「${phrase}」`),
+  ]
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="w-16 h-16 rounded-full overflow-hidden shrink-0">
+          <Image
+            src={iconSrc}
+            alt={character.name}
+            width={64}
+            height={64}
+            className="w-full h-full object-cover"
+          />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">{character.name}</h2>
+          {attributes.length > 0 && (
+            <p className="text-sm text-gray-500">{attributes.join('・')}</p>
+          )}
+        </div>
+      </div>
+
+      {profile.description && <p className="text-sm text-gray-700">{profile.description}</p>}
+
+      <ProfileSection title="性格" items={profile.personality} />
+      <ProfileSection title="これまでの出来事" items={profile.background} />
+      <ProfileSection title="話しぶり" items={dialogue} />
+
+      {profile.relationships.length > 0 && (
+        <section>
+          <h3 className="text-xs font-semibold text-gray-500 mb-1">関係</h3>
+          <ul className="divide-y divide-gray-100">
+            {profile.relationships.map((relationship) => (
+              <li key={relationship.character.id}>
+                <button
+                  type="button"
+                  onClick={() => onSelectCharacter(relationship.character.id)}
+                  className="w-full text-left py-2 hover:bg-gray-50"
+                >
+                  <span className="text-sm text-gray-900">{relationship.character.name}</span>
+                  <span className="ml-2 px-2 py-0.5 rounded-full bg-gray-100 text-xs text-gray-600">
+                    {relationship.type}
+                  </span>
+                  <p className="text-xs text-gray-500 mt-1">{relationship.description}</p>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <p className="text-xs text-gray-400">読んだところまでに分かった情報を表示しています</p>
+    </div>
+  )
+}
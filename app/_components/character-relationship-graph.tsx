@@ -0,0 +1,111 @@
+'use client'
+
+import Image from 'next/image'
+import type { RelationshipEdge } from '@/lib/utils/character-profile'
+import type { Character } from '@/types/character'
+
+interface CharacterRelationshipGraphProps {
+  characters: Character[]
+  edges: RelationshipEdge[]
+  getIconSrc: (characterId: number) => string
+  onSelect: (characterId: number) => void
+}
+
+// 円周上に並べるときの半径（図全体に対する割合 %）
+const LAYOUT_RADIUS = 38
+
+/**
+ * 「珍野苦沙弥（主人）」のような名前から括弧書きを除いた表示名
+ */
+function getShortName(name: string): string {
+  return name.replace(/（.+）$/, '')
+}
+
+/**
+ * キャラクターを円周上に配置した座標（%）
+ */
+function getNodePositions(characters: Character[]): Map<number, { x: number; y: number }> {
+  return new Map(
+    characters.map((character, index) => {
+      // 先頭のキャラクターを真上に置き、時計回りに並べる
+      const angle = (2 * Math.PI * index) / characters.length - Math.PI / 2
+      return [
+        character.id,
+        { x: 50 + LAYOUT_RADIUS * Math.cos(angle), y: 50 + LAYOUT_RADIUS * Math.sin(angle) },
+      ]
+    }),
+  )
+}
+
+export default function CharacterRelationshipGraph({
+  characters,
+  edges,
+  getIconSrc,
+  onSelect,
+}: CharacterRelationshipGraphProps) {
+  const positions = getNodePositions(characters)
+
+  return (
+    <div className="relative w-full aspect-square">
+      <svg viewBox="0 0 100 100" className="absolute inset-0 w-full h-full" aria-hidden="true">
+        {edges.map((edge) => {
+          const source = positions.get(edge.sourceId)
+          const target = positions.get(edge.targetId)
+          if (!source || !target) return null
+          return (
+            <g key={`${edge.sourceId}-${edge.targetId}`}>
+              <line
+                x1={source.x}
+                y1={source.y}
+                x2={target.x}
+                y2={target.y}
+                className="stroke-gray-300"
+                strokeWidth={0.4}
+              />
+              <text
+                x={(source.x + target.x) / 2}
+                y={(source.y + target.y) / 2}
+                textAnchor="middle"
+                dominantBaseline="middle"
+                className="fill-gray-500"
+                fontSize={2.6}
+                paintOrder="stroke"
+                stroke="white"
+                strokeWidth={0.8}
+              >
+                {edge.type}
+              </text>
+            </g>
+          )
+        })}
+      </svg>
+
+      {characters.map((character) => {
+        const position = positions.get(character.id)
+        if (!position) return null
+        return (
+          <button
+            key={character.id}
+            type="button"
+            onClick={() => onSelect(character.id)}
+            className="absolute -translate-x-1/2 -translate-y-1/2 flex flex-col items-center gap-1"
+            style={{ left: `${position.x}%`, top: `${position.y}%` }}
+          >
+            <span className="w-12 h-12 rounded-full overflow-hidden border-2 border-white shadow">
+              <Image
+                src={getIconSrc(character.id)}
+                alt=""
+                width={48}
+                height={48}
+                className="w-full h-full object-cover"
+              />
+            </span>
+            <span className="px-2 rounded-full bg-white/90 text-xs text-gray-800 whitespace-nowrap">
+              {getShortName(character.name)}
+            </span>
+          </button>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,91 @@
+'use client'
+
+import { useState } from 'react'
+import { getCharacterIconPath } from '@/lib/mock-data/book-registry'
+import {
+  getAppearedCharacters,
+  getRelationshipEdges,
+  getRevealedProfile,
+} from '@/lib/utils/character-profile'
+import type { ContentPosition } from '@/lib/utils/reading-state'
+import type { Character } from '@/types/character'
+import CharacterProfileCard from './character-profile-card'
+import CharacterRelationshipGraph from './character-relationship-graph'
+
+interface CharacterSheetProps {
+  bookId: string
+  characters: Character[] // 書籍の全キャラクター
+  position?: ContentPosition // 読者の現在位置（ここまでに明かされた情報だけを表示）
+  initialCharacterId?: number // 指定時はプロフィール、未指定時は人物相関図から表示
+  onClose: () => void
+}
+
+export default function CharacterSheet({
+  bookId,
+  characters,
+  position,
+  initialCharacterId,
+  onClose,
+}: CharacterSheetProps) {
+  const [selectedCharacterId, setSelectedCharacterId] = useState<number | undefined>(
+    initialCharacterId,
+  )
+
+  const appearedCharacters = getAppearedCharacters(characters, position)
+  const selectedCharacter = appearedCharacters.find(
+    (character) => character.id === selectedCharacterId,
+  )
+  const getIconSrc = (characterId: number) =>
+    getCharacterIconPath(bookId, characterId) || '/images/user-unknown.png'
+
+  return (
+    <div className="absolute inset-0 z-50">
+      {/* シートの外側を押すと閉じる */}
+      <button
+        type="button"
+        aria-label="登場人物を閉じる"
+        onClick={onClose}
+        className="absolute inset-0 w-full h-full cursor-default"
+      />
+      <div className="absolute top-16 left-4 right-4 max-h-[75%] flex flex-col bg-white rounded-xl shadow-lg">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+          {selectedCharacter ? (
+            <button
+              type="button"
+              onClick={() => setSelectedCharacterId(undefined)}
+              className="text-sm text-gray-500 hover:text-gray-900"
+            >
+              ← 人物相関図
+            </button>
+          ) : (
+            <h2 className="text-sm font-semibold text-gray-900">人物相関図</h2>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-sm text-gray-500 hover:text-gray-900"
+          >
+            閉じる
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto overscroll-contain" data-scrollable-sheet>
+          {selectedCharacter ? (
+            <CharacterProfileCard
+              profile={getRevealedProfile(selectedCharacter, characters, position)}
+              iconSrc={getIconSrc(selectedCharacter.id)}
+              onSelectCharacter={setSelectedCharacterId}
+            />
+          ) : (
+            <CharacterRelationshipGraph
+              characters={appearedCharacters}
+              edges={getRelationshipEdges(characters, position)}
+              getIconSrc={getIconSrc}
+              onSelect={setSelectedCharacterId}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -2,11 +2,18 @@
 
 import { useState, useEffect, useRef } from 'react'
 import Image from 'next/image'
-import { getCharactersByBookId } from '@/lib/mock-data/characters'
-import type { Character } from '@/types/character'
-import { ChatService } from '@/services/chat-service'
-import type { ChatMessage } from '@/services/chat-service'
-import { mockBooks } from '@/lib/mock-data/books'
+import { useBookContent } from '@/hooks/use-book-content'
+import { getCharacterIconPath } from '@/lib/mock-data/book-registry'
+import { getAppearedCharacters } from '@/lib/utils/character-profile'
+import type { ChatErrorCode } from '@/lib/utils/chat-errors'
+import { MAX_QUESTION_LENGTH } from '@/lib/utils/chat-request-schema'
+import type { ContentPosition } from '@/lib/utils/reading-state'
+import type { ChatMessage, ChatQuote } from '@/services/chat-service'
+import { useChatQuestion } from '@/hooks/use-chat-question'
+import { useChatRecipients } from '@/hooks/use-chat-recipients'
+import { useConversations } from '@/hooks/use-conversations'
+import type { Conversation } from '@/types/conversation'
+import CharacterSheet from './character-sheet'
 
 interface ChatPanelProps {
   bookId: string
@@ -22,79 +29,254 @@ interface ChatPanelProps {
     currentCharacterOffset?: number
     currentPosition?: number  // 累積文字位置を追加
   }
+  quote?: ChatQuote  // 次の質問に添える本文の引用
+  onQuoteClear?: () => void
+  onQuoteSelect?: (quote: ChatQuote) => void  // 応答の引用元をリーダーで表示
 }
 
-// ChatServiceのChatMessage型を使用
-type Message = ChatMessage
+// 引用の表示を省略する文字数
+const QUOTE_PREVIEW_LENGTH = 40
+
+const formatQuotePreview = (text: string) =>
+  text.length > QUOTE_PREVIEW_LENGTH ? `${text.slice(0, QUOTE_PREVIEW_LENGTH)}…` : text
+
+// エラー応答の話者名の横に出す状態
+const ERROR_LABELS: Record<ChatErrorCode, string> = {
+  invalid_request: '送信できません',
+  unknown_book: '未対応の書籍',
+  unknown_character: '未対応のキャラクター',
+  rate_limited: '混雑中',
+  upstream_timeout: '応答なし',
+  upstream_unavailable: '接続できません',
+  upstream_error: 'エラー',
+  spoiler_blocked: 'ネタバレ防止',
+  network_error: 'オフライン',
+}
 
-export default function ChatPanel({ bookId, isExpanded, onToggleExpand, showReaderControls = false, currentPageInfo }: ChatPanelProps) {
-  // 新しいキャラクターデータを取得
-  const allCharacters = getCharactersByBookId(bookId)
+// ユーザーの発言の先頭のメンション（@名前）を強調して表示
+function renderUserMessageContent(message: ChatMessage) {
+  const { content, characterName } = message
+  const expectedMention = characterName ? `@${characterName}` : ''
+  const [mention, rest] =
+    expectedMention && content.startsWith(expectedMention)
+      ? [expectedMention, content.slice(expectedMention.length).trim()]
+      : // グループ会話などで複数のメンションが続く場合はまとめて強調
+        [content.match(/^(@\S+\s*)+/)?.[0].trim() ?? '', content.replace(/^(@\S+\s*)+/, '')]
 
-  // 現在のページに基づいてキャラクターをフィルタリング
-  const availableCharacters = allCharacters.filter(character => {
-    if (!currentPageInfo) return true // ページ情報がない場合は全て表示
+  return (
+    <>
+      <span className="text-white font-semibold">{mention}</span>
+      {rest && (
+        <>
+          {' '}
+          {rest}
+        </>
+      )}
+    </>
+  )
+}
 
-    // キャラクターの出現タイミングと現在のページ位置を比較
-    const appearance = character.appearance
-    const currentChapter = currentPageInfo.currentChapterId || 1
-    const currentBlock = currentPageInfo.currentBlockId || 1
+// 応答の引用元へのリンク（ユーザーの発言・引用のない応答には出さない）
+function QuoteSourceLink({ message, onSelect }: { message: ChatMessage; onSelect?: (quote: ChatQuote) => void }) {
+  const { quote } = message
+  if (message.role === 'user' || !quote) return null
 
-    // 章の比較
-    if (appearance.chapter > currentChapter) {
-      return false // まだ出現章に到達していない
-    }
+  return (
+    <button
+      type="button"
+      onClick={() => onSelect?.(quote)}
+      className="mt-2 text-sm text-gray-600 underline hover:text-gray-900 text-left"
+    >
+      「{formatQuotePreview(quote.text)}」の箇所を読む
+    </button>
+  )
+}
 
-    if (appearance.chapter < currentChapter) {
-      return true // 過去の章で出現済み
-    }
+// 会話スレッドの一覧（発言のあるスレッドだけを並べる）
+function ThreadList({
+  conversations,
+  activeConversationId,
+  onSelect,
+  onNew,
+}: {
+  conversations: Conversation[]
+  activeConversationId?: string
+  onSelect: (conversationId: string) => void
+  onNew: () => void
+}) {
+  return (
+    <div className="mt-2 w-72 max-h-80 overflow-y-auto bg-white rounded-lg shadow-lg" onTouchMove={(e) => e.stopPropagation()}>
+      <button
+        type="button"
+        onClick={onNew}
+        className="w-full text-left px-4 py-3 text-sm text-primary font-semibold border-b border-gray-100 hover:bg-gray-50"
+      >
+        ＋ 新しい会話
+      </button>
+      {conversations
+        .filter((conversation) => conversation.messages.length > 0)
+        .map((conversation) => {
+          const firstUserMessage = conversation.messages.find((message) => message.role === 'user')
+          const title = firstUserMessage
+            ? firstUserMessage.content.replace(/^@\S+\s*/, '')
+            : conversation.messages[0].content
+          return (
+            <button
+              key={conversation.id}
+              type="button"
+              onClick={() => onSelect(conversation.id)}
+              className={`w-full text-left px-4 py-3 border-b border-gray-100 hover:bg-gray-50 ${
+                conversation.id === activeConversationId ? 'bg-primary-50' : ''
+              }`}
+            >
+              <p className="text-sm text-gray-800 truncate">{title}</p>
+              <p className="text-xs text-gray-500">
+                {conversation.context.chapter ? `第${conversation.context.chapter}章・` : ''}
+                {conversation.updatedAt.toLocaleString('ja-JP', {
+                  month: 'numeric',
+                  day: 'numeric',
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}
+              </p>
+            </button>
+          )
+        })}
+    </div>
+  )
+}
 
-    // 同じ章の場合（appearance.chapter === currentChapter）
-    if (appearance.block > currentBlock) {
-      return false // まだ出現ブロックに到達していない
-    }
+// 読者の現在位置（ページ情報がない場合は undefined）
+function toReaderPosition(
+  pageInfo: ChatPanelProps['currentPageInfo']
+): ContentPosition | undefined {
+  if (!pageInfo) return undefined
+  return {
+    chapterId: pageInfo.currentChapterId || 1,
+    blockId: pageInfo.currentBlockId || 1,
+    characterOffset: pageInfo.currentCharacterOffset || 0,
+  }
+}
 
-    if (appearance.block < currentBlock) {
-      return true // 同じ章の過去のブロックで出現済み
-    }
+// 折りたたんだ状態：Chavel のロゴだけを中央に表示
+function CollapsedChatPanel({
+  showReaderControls,
+  onToggleExpand,
+}: {
+  showReaderControls: boolean
+  onToggleExpand: () => void
+}) {
+  return (
+    <div
+      className={`h-full flex items-center justify-center bg-primary-50 rounded-t-3xl transition-transform duration-300 relative ${
+        showReaderControls ? 'translate-y-full' : 'translate-y-0'
+      }`}
+      onClick={onToggleExpand}
+    >
+      {/* 上向き三角形 */}
+      <div className={`absolute -top-5 left-1/2 transform -translate-x-1/2 transition-transform duration-300 origin-bottom ${
+        showReaderControls ? 'scale-0' : 'scale-100'
+      }`}>
+        <svg width="36" height="20" viewBox="0 0 36 20" className="fill-primary-50 transition-all duration-300">
+          <path d="M18 0L0 20H36L18 0Z" />
+        </svg>
+      </div>
 
-    // 同じブロックの場合（appearance.block === currentBlock）
-    const currentOffset = currentPageInfo.currentCharacterOffset || 0
+      <div className="w-[21%]">
+        <Image
+          src="/images/chavel-logo.png"
+          alt="Chavel"
+          width={100}
+          height={67}
+          className="w-full h-auto opacity-90 hover:opacity-100 transition-opacity"
+        />
+      </div>
+    </div>
+  )
+}
 
-    // characterOffsetが未指定の場合はブロック到達時点で出現
-    if (appearance.characterOffset === undefined) {
-      return true
-    }
+// 次の質問に添える引用
+function QuotePreview({ quote, onClear }: { quote: ChatQuote; onClear?: () => void }) {
+  return (
+    <div className="flex items-start gap-2 px-4 pt-2 text-sm text-gray-600">
+      <p className="flex-1 border-l-4 border-gray-300 pl-2">
+        {formatQuotePreview(quote.text)}
+      </p>
+      <button
+        type="button"
+        onClick={onClear}
+        className="text-gray-400 hover:text-gray-700"
+        aria-label="引用を外す"
+      >
+        ×
+      </button>
+    </div>
+  )
+}
 
-    // characterOffsetが指定されている場合、ブロック内のオフセットで比較
-    return currentOffset >= appearance.characterOffset
-  })
+// ChatServiceのChatMessage型を使用
+type Message = ChatMessage
 
-  const characters = availableCharacters
+export default function ChatPanel({ bookId, isExpanded, onToggleExpand, showReaderControls = false, currentPageInfo, quote, onQuoteClear, onQuoteSelect }: ChatPanelProps) {
+  // 書籍レジストリからキャラクターデータを取得
+  const { characters: allCharacters } = useBookContent(bookId)
 
-  const [selectedCharacter, setSelectedCharacter] = useState<string>(
-    characters.length > 0 ? characters[0].id.toString() : ''
-  )
+  // 読者の現在位置（ページ情報がない場合は全て表示）
+  const readerPosition = toReaderPosition(currentPageInfo)
 
-  // 利用可能なキャラクターが変更された時に選択キャラクターを調整
-  useEffect(() => {
-    if (characters.length === 0) {
-      setSelectedCharacter('')
-    } else {
-      // 現在選択中のキャラクターが利用可能でない場合、最初の利用可能キャラクターに変更
-      const currentCharacterAvailable = characters.some(char => char.id.toString() === selectedCharacter)
-      if (!currentCharacterAvailable) {
-        setSelectedCharacter(characters[0].id.toString())
-      }
-    }
-  }, [characters, selectedCharacter])
-  const [messages, setMessages] = useState<Message[]>([])
+  // 現在のページまでに登場したキャラクターだけを表示
+  const availableCharacters = getAppearedCharacters(allCharacters, readerPosition)
+
+  const characters = availableCharacters
+
+  // 宛先のキャラクター（出現前のキャラクターは除く）
+  const {
+    selectedCharacter,
+    isGroupMode,
+    recipients,
+    conversationCharacterId,
+    toggleCharacter: handleCharacterClick,
+    toggleGroupMode: handleGroupModeToggle,
+  } = useChatRecipients(characters)
+
+  // 書籍・キャラクターごとの会話スレッド
+  const {
+    conversations,
+    activeConversation,
+    messages,
+    selectConversation,
+    updateMessages,
+    startNewConversation,
+    deleteConversation,
+  } = useConversations({
+    bookId: bookId || undefined,
+    characterId: conversationCharacterId,
+    chapterId: currentPageInfo?.currentChapterId,
+  })
+  const activeConversationId = activeConversation?.id
+  const [showThreadList, setShowThreadList] = useState(false)
+  // 登場人物シート（characterId 指定時はプロフィール、未指定時は人物相関図を表示）
+  const [characterSheet, setCharacterSheet] = useState<{ characterId?: number } | null>(null)
   const [inputMessage, setInputMessage] = useState('')
-  const [isLoading, setIsLoading] = useState(false)
   const [viewportHeight, setViewportHeight] = useState('100dvh')
   const [isInputFocused, setIsInputFocused] = useState(false)
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
+  // 質問の送信と応答の受信（handleCancel で受信中の応答を中止）
+  const {
+    isLoading,
+    failedQuestion,
+    sendQuestion,
+    retryFailedQuestion,
+    cancel: handleCancel,
+  } = useChatQuestion({
+    bookId,
+    recipients,
+    isGroupMode,
+    position: currentPageInfo?.currentPosition,
+    conversationCharacterId,
+    updateMessages,
+  })
 
   // 最新メッセージにスクロール
   const scrollToBottom = () => {
@@ -190,99 +372,61 @@ export default function ChatPanel({ bookId, isExpanded, onToggleExpand, showRead
     }
   }, [isExpanded])
 
-  const handleSendMessage = async () => {
-    if (!inputMessage.trim()) return
-
-    // 選択されたキャラクター名を取得
-    const selectedChar = characters.find(char => char.id.toString() === selectedCharacter)
-    const characterName = selectedChar ? selectedChar.name : 'キャラクター'
-    const characterId = selectedChar ? selectedChar.id : 1
-
-    const userMessage: Message = {
+  // 宛先へのメンションを付けたユーザーの発言
+  const createUserMessage = (text: string): Message => {
+    const [primaryRecipient] = recipients
+    return {
       id: Date.now().toString(),
       role: 'user',
-      content: `@${characterName} ${inputMessage}`,
+      content: `${recipients.map(char => `@${char.name}`).join(' ')} ${text}`,
       timestamp: new Date(),
-      characterId: selectedCharacter,
-      characterName: characterName,
+      characterId: isGroupMode ? undefined : primaryRecipient.id.toString(),
+      characterName: isGroupMode ? undefined : primaryRecipient.name,
+      quote,
     }
+  }
 
-    setMessages((prev) => [...prev, userMessage])
+  const handleSendMessage = async () => {
+    if (!inputMessage.trim() || !activeConversationId || recipients.length === 0) return
+    const conversationId = activeConversationId
+
+    const userMessage = createUserMessage(inputMessage)
+    const history = messages
+
+    updateMessages(conversationId, (prev) => [...prev, userMessage])
     const currentMessage = inputMessage
     setInputMessage('')
-    setIsLoading(true)
-
-    try {
-      // 現在の位置情報を取得（デフォルトは0）
-      const currentPosition = currentPageInfo?.currentPosition || 0
-
-      // APIサービスを使用してチャット
-      const chatResponses = await ChatService.chatWithCharacter({
-        bookId: bookId,
-        characterId: characterId,
-        characterName: characterName,
-        message: currentMessage,
-        position: currentPosition,
-        messageHistory: messages
-      })
-
-      // メッセージを順次表示
-      for await (const message of ChatService.processMessagesSequentially(chatResponses, 500)) {
-        setMessages((prev) => [...prev, message])
-        // 最後のメッセージでなければスクロールして少し待つ
-        if (chatResponses.indexOf(message) < chatResponses.length - 1) {
-          setTimeout(scrollToBottom, 100)
-        }
-      }
+    onQuoteClear?.()
 
-    } catch (error) {
-      console.error('Chat error:', error)
-
-      // エラー時のフォールバック応答
-      const errorMessage: Message = {
-        id: `${Date.now()}_error`,
-        role: 'assistant',
-        content: 'すみません、今お話しできません。少し時間をおいてからもう一度お試しください。',
-        timestamp: new Date(),
-        characterId: selectedCharacter,
-        characterName: characterName,
-      }
+    await sendQuestion(conversationId, userMessage.id, currentMessage, quote, history)
+  }
+
+  // 失敗した質問を送り直す
+  const handleRetry = () => retryFailedQuestion(messages)
 
-      setMessages((prev) => [...prev, errorMessage])
-    } finally {
-      setIsLoading(false)
+  // 履歴クリア時は受信中の応答も中止し、現在のスレッドを削除
+  const handleClearHistory = () => {
+    handleCancel()
+    if (activeConversationId) {
+      deleteConversation(activeConversationId)
     }
   }
 
-  if (!isExpanded) {
-    // Collapsed state: show only Chavel logo centered
-    return (
-      <div
-        className={`h-full flex items-center justify-center bg-primary-50 rounded-t-3xl transition-transform duration-300 relative ${
-          showReaderControls ? 'translate-y-full' : 'translate-y-0'
-        }`}
-        onClick={onToggleExpand}
-      >
-        {/* 上向き三角形 */}
-        <div className={`absolute -top-5 left-1/2 transform -translate-x-1/2 transition-transform duration-300 origin-bottom ${
-          showReaderControls ? 'scale-0' : 'scale-100'
-        }`}>
-          <svg width="36" height="20" viewBox="0 0 36 20" className="fill-primary-50 transition-all duration-300">
-            <path d="M18 0L0 20H36L18 0Z" />
-          </svg>
-        </div>
+  // スレッド切り替え
+  const handleSelectThread = (conversationId: string) => {
+    handleCancel()
+    selectConversation(conversationId)
+    setShowThreadList(false)
+  }
 
-        <div className="w-[21%]">
-          <Image
-            src="/images/chavel-logo.png"
-            alt="Chavel"
-            width={100}
-            height={67}
-            className="w-full h-auto opacity-90 hover:opacity-100 transition-opacity"
-          />
-        </div>
-      </div>
-    )
+  const handleNewThread = () => {
+    handleCancel()
+    startNewConversation()
+    setShowThreadList(false)
+  }
+
+  if (!isExpanded) {
+    return <CollapsedChatPanel showReaderControls={showReaderControls} onToggleExpand={onToggleExpand} />
   }
 
   return (
@@ -320,6 +464,7 @@ export default function ChatPanel({ bookId, isExpanded, onToggleExpand, showRead
 
       {/* Floating collapse button */}
       <button
+        type="button"
         onClick={onToggleExpand}
         className="absolute top-4 right-4 z-50 bg-white/80 backdrop-blur-sm rounded-full p-2 text-gray-600 hover:text-gray-800 hover:bg-white/90 shadow-sm transition-all duration-200"
       >
@@ -328,6 +473,32 @@ export default function ChatPanel({ bookId, isExpanded, onToggleExpand, showRead
         </svg>
       </button>
 
+      {/* Thread switcher */}
+      <div className="absolute top-4 left-4 z-50">
+        <button
+          type="button"
+          onClick={() => setShowThreadList(!showThreadList)}
+          className="bg-white/80 backdrop-blur-sm rounded-lg px-3 py-2 text-sm text-gray-600 hover:text-gray-800 hover:bg-white/90 shadow-sm transition-all duration-200"
+        >
+          会話 {conversations.filter((conversation) => conversation.messages.length > 0).length}件
+        </button>
+        <button
+          type="button"
+          onClick={() => setCharacterSheet({})}
+          className="ml-2 bg-white/80 backdrop-blur-sm rounded-lg px-3 py-2 text-sm text-gray-600 hover:text-gray-800 hover:bg-white/90 shadow-sm transition-all duration-200"
+        >
+          人物相関図
+        </button>
+        {showThreadList && (
+          <ThreadList
+            conversations={conversations}
+            activeConversationId={activeConversationId}
+            onSelect={handleSelectThread}
+            onNew={handleNewThread}
+          />
+        )}
+      </div>
+
 
       {/* Chat Messages - Full height */}
       <div
@@ -359,9 +530,7 @@ export default function ChatPanel({ bookId, isExpanded, onToggleExpand, showRead
 
           // アイコン画像を取得
           const getCharacterIcon = (characterId: string) => {
-            const book = mockBooks.find(b => b.id === bookId)
-            const iconMapping = book?.characterIconMap?.find(mapping => mapping.id === parseInt(characterId))
-            return iconMapping ? `/images/wagahai/${iconMapping.fileName}` : '/images/user-unknown.png'
+            return getCharacterIconPath(bookId, parseInt(characterId)) || '/images/user-unknown.png'
           }
 
           const iconSrc = isUser ? '/images/user-you.png' : getCharacterIcon(message.characterId || '')
@@ -376,9 +545,15 @@ export default function ChatPanel({ bookId, isExpanded, onToggleExpand, showRead
                 marginBottom: index < messages.length - 1 ? '1rem' : 0
               }}
             >
-              {/* アイコン */}
+              {/* アイコン（キャラクターのアイコンを押すとプロフィールを表示） */}
               <div className="shrink-0 self-end" style={{ marginBottom: 'calc(1rem + 0.25rem)' }}>
-                <div className="w-16 h-16 rounded-full overflow-hidden">
+                <button
+                  type="button"
+                  onClick={() => setCharacterSheet({ characterId: Number(message.characterId) })}
+                  disabled={isUser || !message.characterId}
+                  aria-label={`${displayName}のプロフィール`}
+                  className="block w-16 h-16 rounded-full overflow-hidden disabled:cursor-default"
+                >
                   <Image
                     src={iconSrc}
                     alt={displayName}
@@ -386,7 +561,7 @@ export default function ChatPanel({ bookId, isExpanded, onToggleExpand, showRead
                     height={64}
                     className="w-full h-full object-cover"
                   />
-                </div>
+                </button>
               </div>
 
               {/* メッセージコンテナ */}
@@ -394,6 +569,11 @@ export default function ChatPanel({ bookId, isExpanded, onToggleExpand, showRead
                 {/* 名前 */}
                 <p className={`text-xs text-gray-600 mb-1 ${isUser ? 'text-right' : 'text-left'}`}>
                   {displayName}
+                  {message.errorCode && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full bg-white/80 text-gray-500">
+                      {ERROR_LABELS[message.errorCode]}
+                    </span>
+                  )}
                 </p>
 
                 {/* バルーンコンテナ */}
@@ -436,50 +616,27 @@ export default function ChatPanel({ bookId, isExpanded, onToggleExpand, showRead
                     }}
                   >
                     <p className="whitespace-pre-wrap text-2xl">
-                      {(() => {
-                        if (!isUser || !message.content.startsWith('@')) {
-                          return message.content;
-                        }
-
-                        // キャラクター名とメッセージを分離するための処理
-                        const content = message.content;
-                        const characterName = message.characterName;
-
-                        if (characterName) {
-                          const expectedMention = `@${characterName}`;
-                          if (content.startsWith(expectedMention)) {
-                            const restOfMessage = content.slice(expectedMention.length).trim();
-                            return (
-                              <>
-                                <span className="text-white font-semibold">
-                                  {expectedMention}
-                                </span>
-                                {restOfMessage && (
-                                  <>
-                                    {' '}
-                                    {restOfMessage}
-                                  </>
-                                )}
-                              </>
-                            );
-                          }
-                        }
-
-                        // フォールバック: 従来の方法
-                        return (
-                          <>
-                            <span className="text-white font-semibold">
-                              {content.split(' ')[0]}
-                            </span>
-                            {' '}
-                            {content.split(' ').slice(1).join(' ')}
-                          </>
-                        );
-                      })()}
+                      {isUser && message.content.startsWith('@')
+                        ? renderUserMessageContent(message)
+                        : message.content}
                     </p>
                   </div>
                 </div>
 
+                <QuoteSourceLink message={message} onSelect={onQuoteSelect} />
+
+                {failedQuestion?.errorMessageId === message.id &&
+                  failedQuestion.conversationId === activeConversationId &&
+                  !isLoading && (
+                  <button
+                    type="button"
+                    onClick={handleRetry}
+                    className="mt-2 text-sm text-gray-600 underline hover:text-gray-900 text-left"
+                  >
+                    もう一度送る
+                  </button>
+                )}
+
                 {/* タイムスタンプ */}
                 <p className={`text-xs mt-1 text-gray-500 ${isUser ? 'text-right' : 'text-left'}`}>
                   {message.timestamp.toLocaleTimeString('ja-JP', {
@@ -517,7 +674,8 @@ export default function ChatPanel({ bookId, isExpanded, onToggleExpand, showRead
 
       {/* Clear Chat History Button */}
       <button
-        onClick={() => setMessages([])}
+        type="button"
+        onClick={handleClearHistory}
         className="absolute right-4 z-30 bg-white/80 backdrop-blur-sm rounded-lg px-3 py-2 text-sm text-gray-600 hover:text-gray-800 hover:bg-white/90 shadow-sm transition-all duration-200"
         style={{
           bottom: '16rem' // 入力エリアから少し上に配置
@@ -526,6 +684,16 @@ export default function ChatPanel({ bookId, isExpanded, onToggleExpand, showRead
         履歴をクリア
       </button>
 
+      {characterSheet && (
+        <CharacterSheet
+          bookId={bookId}
+          characters={allCharacters}
+          position={readerPosition}
+          initialCharacterId={characterSheet.characterId}
+          onClose={() => setCharacterSheet(null)}
+        />
+      )}
+
       {/* Input Panel - Combined overlay */}
       <div className="absolute inset-0 pointer-events-none z-40">
         <div className="absolute left-0 right-0 pointer-events-auto transition-all duration-300" style={{ bottom: isInputFocused ? '0px' : '0px' }}>
@@ -542,12 +710,23 @@ export default function ChatPanel({ bookId, isExpanded, onToggleExpand, showRead
               }}
               onTouchMove={(e) => e.stopPropagation()}
             >
+              <button
+                type="button"
+                onClick={handleGroupModeToggle}
+                aria-pressed={isGroupMode}
+                className={`px-3 py-1 rounded-full whitespace-nowrap text-[22px] h-[40px] border transition-colors duration-150 ${
+                  isGroupMode ? 'bg-primary text-white border-primary' : 'bg-white border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                グループ
+              </button>
               {characters.map((character) => (
                 <button
+                  type="button"
                   key={character.id}
-                  onClick={() => setSelectedCharacter(character.id.toString())}
+                  onClick={() => handleCharacterClick(character.id.toString())}
                   className={`px-3 py-1 rounded-full whitespace-nowrap text-[22px] h-[40px] transition-colors duration-150 ${
-                    selectedCharacter === character.id.toString()
+                    recipients.includes(character)
                       ? 'bg-primary text-white'
                       : 'bg-white hover:bg-gray-50'
                   }`}
@@ -564,11 +743,13 @@ export default function ChatPanel({ bookId, isExpanded, onToggleExpand, showRead
               <div className="flex-1 relative">
                 {/* ボーダー付き親要素 */}
                 <div className="rounded-lg bg-white focus-within:ring-2 focus-within:ring-primary transition-all duration-150 min-h-[100px] overflow-hidden" style={{ border: '1.5px solid black' }}>
+                  {/* 引用表示 */}
+                  {quote && <QuotePreview quote={quote} onClear={onQuoteClear} />}
                   {/* メンション表示 */}
-                  {selectedCharacter && (
+                  {recipients.length > 0 && (
                     <div className="px-4 py-2 bg-white pointer-events-none">
                       <span className="text-primary font-semibold text-sm">
-                        @{characters.find(char => char.id.toString() === selectedCharacter)?.name}
+                        {recipients.map(char => `@${char.name}`).join(' ')}
                       </span>
                     </div>
                   )}
@@ -579,6 +760,7 @@ export default function ChatPanel({ bookId, isExpanded, onToggleExpand, showRead
                     onFocus={handleTextareaFocus}
                     onBlur={handleTextareaBlur}
                     placeholder="メッセージを入力..."
+                    maxLength={MAX_QUESTION_LENGTH}
                     className="w-full px-4 py-3 focus:outline-none resize-none bg-transparent"
                     style={{
                       minHeight: selectedCharacter ? '60px' : '100px',
@@ -589,13 +771,25 @@ export default function ChatPanel({ bookId, isExpanded, onToggleExpand, showRead
                   />
                 </div>
               </div>
-              <button
-                onClick={handleSendMessage}
-                disabled={isLoading || !inputMessage.trim()}
-                className="px-6 py-3 bg-primary text-white rounded-lg hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-150 h-[54px] text-[20px] self-end transform translate-y-[-6px]"
-              >
-                送信
-              </button>
+              {isLoading ? (
+                <button
+                  type="button"
+                  onClick={handleCancel}
+                  className="px-6 py-3 bg-white text-gray-700 rounded-lg hover:bg-gray-50 transition-all duration-150 h-[54px] text-[20px] self-end transform translate-y-[-6px]"
+                  style={{ border: '1.5px solid black' }}
+                >
+                  中止
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={handleSendMessage}
+                  disabled={!inputMessage.trim() || recipients.length === 0}
+                  className="px-6 py-3 bg-primary text-white rounded-lg hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-150 h-[54px] text-[20px] self-end transform translate-y-[-6px]"
+                >
+                  送信
+                </button>
+              )}
             </div>
           </div>
         </div>
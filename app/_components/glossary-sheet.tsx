@@ -0,0 +1,124 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { getRevealedEntries } from '@/lib/utils/glossary'
+import type { ContentPosition } from '@/lib/utils/reading-state'
+import type { GlossaryCategory, GlossaryEntry } from '@/types/glossary'
+
+interface GlossarySheetProps {
+  isOpen: boolean
+  entries: GlossaryEntry[]
+  currentPosition: ContentPosition | null // ここまでに明かされた記述だけを表示
+  onClose: () => void
+}
+
+const CATEGORY_TABS: { category: GlossaryCategory; label: string }[] = [
+  { category: 'character', label: '人物' },
+  { category: 'place', label: '場所' },
+  { category: 'term', label: '用語' },
+]
+
+function matchesQuery(entry: GlossaryEntry, query: string): boolean {
+  return [entry.name, entry.reading ?? '', entry.summary].some((text) => text.includes(query))
+}
+
+export default function GlossarySheet({
+  isOpen,
+  entries,
+  currentPosition,
+  onClose,
+}: GlossarySheetProps) {
+  const [category, setCategory] = useState<GlossaryCategory>('character')
+  const [query, setQuery] = useState('')
+
+  const revealedEntries = useMemo(
+    () => (isOpen ? getRevealedEntries(entries, currentPosition) : []),
+    [entries, currentPosition, isOpen],
+  )
+  const trimmedQuery = query.trim()
+  const visibleEntries = revealedEntries.filter((entry) =>
+    trimmedQuery ? matchesQuery(entry, trimmedQuery) : entry.category === category,
+  )
+
+  if (!isOpen) {
+    return null
+  }
+
+  return (
+    <div className="absolute inset-0 z-50">
+      {/* シートの外側を押すと閉じる */}
+      <button
+        type="button"
+        aria-label="事典を閉じる"
+        onClick={onClose}
+        className="absolute inset-0 w-full h-full cursor-default"
+      />
+      <div className="absolute top-[60px] right-4 w-96 max-h-[70vh] flex flex-col bg-white rounded-xl shadow-lg">
+        <div className="p-4 border-b border-gray-100">
+          <div className="flex items-center gap-2">
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="事典を検索"
+              className="flex-1 px-3 py-2 rounded-lg border border-gray-200 text-sm focus:outline-none focus:border-[var(--primary)]"
+            />
+            <button
+              type="button"
+              onClick={onClose}
+              className="text-sm text-gray-500 hover:text-gray-900"
+            >
+              閉じる
+            </button>
+          </div>
+          {!trimmedQuery && (
+            <div className="flex gap-2 mt-3">
+              {CATEGORY_TABS.map((tab) => (
+                <button
+                  key={tab.category}
+                  type="button"
+                  onClick={() => setCategory(tab.category)}
+                  aria-pressed={category === tab.category}
+                  className={`px-3 py-1 rounded-full text-sm ${
+                    category === tab.category
+                      ? 'bg-[var(--primary)] text-white'
+                      : 'bg-gray-100 text-gray-600'
+                  }`}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </div>
+          )}
+          <p className="mt-2 text-xs text-gray-400">
+            読んだところまでに分かった情報を表示しています
+          </p>
+        </div>
+
+        <ul className="overflow-y-auto overscroll-contain" data-scrollable-sheet>
+          {visibleEntries.length === 0 && (
+            <li className="px-4 py-6 text-sm text-gray-500 text-center">
+              {trimmedQuery ? '見つかりませんでした' : 'まだ登場していません'}
+            </li>
+          )}
+          {visibleEntries.map((entry) => (
+            <li key={entry.id} className="px-4 py-3 border-b border-gray-50">
+              <div className="flex items-baseline gap-2">
+                <span className="text-sm font-semibold text-gray-900">{entry.name}</span>
+                {entry.reading && <span className="text-xs text-gray-400">{entry.reading}</span>}
+              </div>
+              {entry.summary && <p className="mt-1 text-sm text-gray-700">{entry.summary}</p>}
+              {entry.facts.length > 0 && (
+                <ul className="mt-1 space-y-0.5 text-xs text-gray-600">
+                  {entry.facts.map((fact) => (
+                    <li key={fact.text}>・{fact.text}</li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  )
+}
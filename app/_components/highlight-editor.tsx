@@ -0,0 +1,110 @@
+'use client'
+
+import { useState } from 'react'
+import { DEFAULT_HIGHLIGHT_COLOR, HIGHLIGHT_COLORS } from '@/lib/highlight-colors'
+import type { HighlightColor } from '@/types/bookmark'
+
+interface HighlightEditorProps {
+  text: string
+  color?: HighlightColor
+  note?: string
+  onSave: (changes: { color: HighlightColor; note: string }) => void
+  onDelete?: () => void // 保存済みのハイライトの編集時のみ
+  onClose: () => void
+}
+
+const COLORS = Object.keys(HIGHLIGHT_COLORS) as HighlightColor[]
+
+export default function HighlightEditor({
+  text,
+  color: initialColor = DEFAULT_HIGHLIGHT_COLOR,
+  note: initialNote = '',
+  onSave,
+  onDelete,
+  onClose,
+}: HighlightEditorProps) {
+  const [color, setColor] = useState(initialColor)
+  const [note, setNote] = useState(initialNote)
+
+  return (
+    <div className="absolute inset-0 z-50">
+      {/* シートの外側を押すと閉じる */}
+      <button
+        type="button"
+        aria-label="ハイライトの編集を閉じる"
+        onClick={onClose}
+        className="absolute inset-0 w-full h-full cursor-default"
+      />
+      <div className="absolute top-[60px] right-4 w-80 bg-white rounded-xl shadow-lg p-5 space-y-4">
+        <h2 className="text-base font-semibold text-gray-900">
+          {onDelete ? 'ハイライトを編集' : 'ハイライトを追加'}
+        </h2>
+
+        <blockquote className="max-h-32 overflow-y-auto text-sm text-gray-700 border-l-4 border-gray-200 pl-3">
+          {text}
+        </blockquote>
+
+        <div>
+          <div className="mb-1 text-sm text-gray-700">色</div>
+          <div className="flex gap-3">
+            {COLORS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setColor(option)}
+                aria-label={HIGHLIGHT_COLORS[option].label}
+                aria-pressed={color === option}
+                className={`w-8 h-8 rounded-full ${HIGHLIGHT_COLORS[option].swatchClassName} ${
+                  color === option ? 'ring-2 ring-offset-2 ring-[var(--primary)]' : ''
+                }`}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="highlight-note" className="block mb-1 text-sm text-gray-700">
+            メモ
+          </label>
+          <textarea
+            id="highlight-note"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={3}
+            className="w-full px-3 py-2 rounded-lg border border-gray-200 text-sm focus:outline-none focus:border-[var(--primary)]"
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          {onDelete ? (
+            <button
+              type="button"
+              onClick={onDelete}
+              className="text-sm text-red-600 hover:text-red-700"
+            >
+              削除
+            </button>
+          ) : (
+            <span />
+          )}
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="text-sm text-gray-500 hover:text-gray-900"
+            >
+              キャンセル
+            </button>
+            <button
+              type="button"
+              onClick={() => onSave({ color, note: note.trim() })}
+              className="px-4 py-1.5 rounded-lg bg-[var(--primary)] text-white text-sm"
+            >
+              保存
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,125 @@
+'use client'
+
+import { useMemo } from 'react'
+import { getBookCatalog } from '@/lib/mock-data/book-registry'
+import {
+  formatDuration,
+  getCharactersPerMinute,
+  getReadingAnalytics,
+  getReadingStreak,
+  getRecentDailyDurations,
+} from '@/lib/utils/reading-analytics'
+
+interface ReadingStatsSheetProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+// 日ごとの読書時間を表示する日数
+const RECENT_DAY_COUNT = 7
+
+export default function ReadingStatsSheet({ isOpen, onClose }: ReadingStatsSheetProps) {
+  // 開くたびに最新の記録を読み込む
+  const analytics = useMemo(() => (isOpen ? getReadingAnalytics() : null), [isOpen])
+
+  if (!isOpen || !analytics) {
+    return null
+  }
+
+  const books = getBookCatalog()
+  const bookStats = Object.values(analytics.books).sort((a, b) => b.lastReadAt - a.lastReadAt)
+  const totalDurationMs = bookStats.reduce((sum, book) => sum + book.totalDurationMs, 0)
+  const charactersPerMinute = getCharactersPerMinute(analytics)
+  const streak = getReadingStreak(analytics)
+  const recentDays = getRecentDailyDurations(analytics, RECENT_DAY_COUNT)
+  const maxDailyDurationMs = Math.max(...recentDays.map((day) => day.durationMs), 1)
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30">
+      {/* シートの外側を押すと閉じる */}
+      <button
+        type="button"
+        aria-label="読書記録を閉じる"
+        onClick={onClose}
+        className="absolute inset-0 w-full h-full cursor-default"
+      />
+      <div className="relative w-[28rem] max-w-[90vw] max-h-[80vh] flex flex-col bg-white rounded-xl shadow-lg">
+        <div className="flex items-center justify-between p-4 border-b border-gray-100">
+          <h2 className="text-base font-semibold text-gray-900">読書記録</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-sm text-gray-500 hover:text-gray-900"
+          >
+            閉じる
+          </button>
+        </div>
+
+        <div className="overflow-y-auto overscroll-contain p-4 space-y-6">
+          <dl className="grid grid-cols-2 gap-3">
+            {[
+              { label: '合計の読書時間', value: formatDuration(totalDurationMs) },
+              {
+                label: '読む速さ',
+                value: charactersPerMinute ? `${Math.round(charactersPerMinute)}字/分` : '—',
+              },
+              { label: '連続読書', value: `${streak.current}日` },
+              { label: '最長の連続読書', value: `${streak.longest}日` },
+            ].map((item) => (
+              <div key={item.label} className="p-3 rounded-lg bg-gray-50">
+                <dt className="text-xs text-gray-500">{item.label}</dt>
+                <dd className="mt-1 text-lg font-semibold text-gray-900">{item.value}</dd>
+              </div>
+            ))}
+          </dl>
+
+          <section>
+            <h3 className="text-sm font-semibold text-gray-700">最近{RECENT_DAY_COUNT}日間</h3>
+            <div className="flex items-end gap-2 h-24 mt-3">
+              {recentDays.map((day) => (
+                <div
+                  key={day.dateKey}
+                  className="flex-1 h-full flex flex-col justify-end items-center"
+                >
+                  <div
+                    className="w-full rounded-t bg-[var(--primary)]"
+                    style={{ height: `${(day.durationMs / maxDailyDurationMs) * 100}%` }}
+                    title={formatDuration(day.durationMs)}
+                  />
+                  <span className="mt-1 text-[10px] text-gray-400">
+                    {Number(day.dateKey.slice(8))}日
+                  </span>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-sm font-semibold text-gray-700">書籍ごと</h3>
+            {bookStats.length === 0 ? (
+              <p className="mt-2 text-sm text-gray-500">まだ記録がありません</p>
+            ) : (
+              <ul className="mt-2 divide-y divide-gray-50">
+                {bookStats.map((stats) => {
+                  const bookCharactersPerMinute = getCharactersPerMinute(analytics, stats.bookId)
+                  return (
+                    <li key={stats.bookId} className="py-2">
+                      <div className="text-sm text-gray-900">
+                        {books.find((book) => book.id === stats.bookId)?.title ?? stats.bookId}
+                      </div>
+                      <div className="mt-0.5 text-xs text-gray-500">
+                        {formatDuration(stats.totalDurationMs)}・{stats.sessionCount}回
+                        {bookCharactersPerMinute !== null &&
+                          `・${Math.round(bookCharactersPerMinute)}字/分`}
+                      </div>
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  )
+}
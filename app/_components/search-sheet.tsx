@@ -0,0 +1,89 @@
+'use client'
+
+import { useDeferredValue, useMemo, useState } from 'react'
+import { getBookSearchIndex, type SearchHit } from '@/lib/utils/search-index'
+import type { BookData } from '@/types/book'
+
+interface SearchSheetProps {
+  isOpen: boolean
+  bookData: BookData
+  onSelect: (hit: SearchHit) => void
+  onClose: () => void
+}
+
+const SEARCH_LIMIT = 100
+
+export default function SearchSheet({ isOpen, bookData, onSelect, onClose }: SearchSheetProps) {
+  const [query, setQuery] = useState('')
+  // 入力中は前回の結果を表示したまま検索する
+  const deferredQuery = useDeferredValue(query)
+
+  const hits = useMemo(
+    () => (isOpen ? getBookSearchIndex(bookData).search(deferredQuery, SEARCH_LIMIT) : []),
+    [bookData, deferredQuery, isOpen],
+  )
+
+  if (!isOpen) {
+    return null
+  }
+
+  return (
+    <div className="absolute inset-0 z-50">
+      {/* シートの外側を押すと閉じる */}
+      <button
+        type="button"
+        aria-label="検索を閉じる"
+        onClick={onClose}
+        className="absolute inset-0 w-full h-full cursor-default"
+      />
+      <div className="absolute top-[60px] right-4 w-96 max-h-[70vh] flex flex-col bg-white rounded-xl shadow-lg">
+        <div className="p-4 border-b border-gray-100">
+          <div className="flex items-center gap-2">
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="本文を検索"
+              className="flex-1 px-3 py-2 rounded-lg border border-gray-200 text-sm focus:outline-none focus:border-[var(--primary)]"
+            />
+            <button
+              type="button"
+              onClick={onClose}
+              className="text-sm text-gray-500 hover:text-gray-900"
+            >
+              閉じる
+            </button>
+          </div>
+          {deferredQuery.trim() && (
+            <div className="mt-2 text-xs text-gray-500">
+              {hits.length >= SEARCH_LIMIT
+                ? `${SEARCH_LIMIT}件以上見つかりました。語句を絞り込んでください`
+                : `${hits.length}件`}
+            </div>
+          )}
+        </div>
+
+        <ul className="overflow-y-auto overscroll-contain" data-scrollable-sheet>
+          {hits.map((hit) => (
+            <li key={`${hit.chapterId}-${hit.blockId}-${hit.start}`}>
+              <button
+                type="button"
+                onClick={() => onSelect(hit)}
+                className="w-full text-left px-4 py-3 border-b border-gray-50 hover:bg-gray-50"
+              >
+                <div className="text-xs text-gray-500 mb-1">{hit.chapterTitle}</div>
+                <div className="text-sm text-gray-700 line-clamp-2">
+                  {hit.context.before}
+                  <mark className="bg-[var(--color-primary-50)] text-gray-900">
+                    {hit.context.match}
+                  </mark>
+                  {hit.context.after}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  )
+}
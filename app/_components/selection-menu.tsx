@@ -0,0 +1,49 @@
+'use client'
+
+interface SelectionMenuProps {
+  text: string
+  onHighlight: () => void
+  onAsk: () => void
+  onClose: () => void
+}
+
+// 選択した本文の先頭だけを表示する文字数
+const PREVIEW_LENGTH = 60
+
+/**
+ * 本文を選択した後に出すメニュー（ハイライト・チャットで質問）
+ */
+export default function SelectionMenu({ text, onHighlight, onAsk, onClose }: SelectionMenuProps) {
+  const preview = text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text
+
+  return (
+    <div className="absolute inset-0 z-50">
+      {/* メニューの外側を押すと閉じる */}
+      <button
+        type="button"
+        aria-label="メニューを閉じる"
+        onClick={onClose}
+        className="absolute inset-0 w-full h-full cursor-default"
+      />
+      <div className="absolute top-[60px] right-4 w-80 bg-white rounded-xl shadow-lg overflow-hidden">
+        <p className="px-4 py-3 text-sm text-gray-700 border-b border-gray-100 line-clamp-3">
+          「{preview}」
+        </p>
+        <button
+          type="button"
+          onClick={onHighlight}
+          className="w-full text-left px-4 py-3 text-sm text-gray-800 hover:bg-gray-50"
+        >
+          ハイライトを追加
+        </button>
+        <button
+          type="button"
+          onClick={onAsk}
+          className="w-full text-left px-4 py-3 text-sm text-gray-800 border-t border-gray-100 hover:bg-gray-50"
+        >
+          この箇所について質問する
+        </button>
+      </div>
+    </div>
+  )
+}
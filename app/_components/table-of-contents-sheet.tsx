@@ -0,0 +1,92 @@
+'use client'
+
+import type { TableOfContentsEntry } from '@/lib/utils/table-of-contents'
+
+interface TableOfContentsSheetProps {
+  isOpen: boolean
+  entries: TableOfContentsEntry[]
+  currentChapterId: number | null
+  onSelectChapter: (chapterId: number) => void
+  onClose: () => void
+}
+
+function formatPageRange(entry: TableOfContentsEntry): string {
+  if (entry.startPageIndex === null) return 'ページを計算中…'
+  if (entry.endPageIndex === null) return `p.${entry.startPageIndex + 1}〜`
+  if (entry.endPageIndex === entry.startPageIndex) return `p.${entry.startPageIndex + 1}`
+  return `p.${entry.startPageIndex + 1}〜${entry.endPageIndex + 1}`
+}
+
+export default function TableOfContentsSheet({
+  isOpen,
+  entries,
+  currentChapterId,
+  onSelectChapter,
+  onClose,
+}: TableOfContentsSheetProps) {
+  if (!isOpen) {
+    return null
+  }
+
+  return (
+    <div className="absolute inset-0 z-50">
+      {/* シートの外側を押すと閉じる */}
+      <button
+        type="button"
+        aria-label="目次を閉じる"
+        onClick={onClose}
+        className="absolute inset-0 w-full h-full cursor-default"
+      />
+      <div className="absolute top-[60px] right-4 w-96 max-h-[70vh] flex flex-col bg-white rounded-xl shadow-lg">
+        <div className="flex items-center justify-between p-4 border-b border-gray-100">
+          <h2 className="text-base font-semibold text-gray-900">目次</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-sm text-gray-500 hover:text-gray-900"
+          >
+            閉じる
+          </button>
+        </div>
+
+        <ul className="overflow-y-auto overscroll-contain" data-scrollable-sheet>
+          {entries.map((entry) => {
+            const isCurrent = entry.chapterId === currentChapterId
+            return (
+              <li key={entry.chapterId} className="border-b border-gray-50">
+                <button
+                  type="button"
+                  onClick={() => onSelectChapter(entry.chapterId)}
+                  disabled={entry.startPageIndex === null}
+                  aria-current={isCurrent ? 'true' : undefined}
+                  className={`w-full text-left px-4 py-3 hover:bg-gray-50 disabled:cursor-wait ${
+                    isCurrent ? 'bg-[var(--color-primary-50)]' : ''
+                  }`}
+                >
+                  <div className="flex items-baseline gap-2">
+                    <span className="flex-1 min-w-0 truncate text-sm font-semibold text-gray-900">
+                      {entry.title}
+                    </span>
+                    {isCurrent && <span className="text-xs text-[var(--primary)]">読書中</span>}
+                    <span className="text-xs text-gray-500">{formatPageRange(entry)}</span>
+                  </div>
+                  <div className="flex items-center gap-2 mt-2">
+                    <div className="flex-1 h-1 rounded-full bg-gray-100">
+                      <div
+                        className="h-full rounded-full bg-[var(--primary)]"
+                        style={{ width: `${entry.progress * 100}%` }}
+                      />
+                    </div>
+                    <span className="w-10 text-right text-xs text-gray-400">
+                      {Math.round(entry.progress * 100)}%
+                    </span>
+                  </div>
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,207 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { READER_FONTS } from '@/lib/fonts'
+import type { ReaderFontFamily, TypographySettings } from '@/lib/utils/reading-state'
+
+interface TypographySettingsSheetProps {
+  isOpen: boolean
+  settings: TypographySettings
+  onChange: (settings: Partial<TypographySettings>) => void
+  onClose: () => void
+}
+
+interface RangeSetting {
+  key: 'fontSize' | 'lineHeight' | 'letterSpacing'
+  label: string
+  min: number
+  max: number
+  step: number
+  format: (value: number) => string
+}
+
+const RANGE_SETTINGS: RangeSetting[] = [
+  {
+    key: 'fontSize',
+    label: '文字サイズ',
+    min: 16,
+    max: 36,
+    step: 2,
+    format: (value) => `${value}px`,
+  },
+  {
+    key: 'lineHeight',
+    label: '行間',
+    min: 1.5,
+    max: 2.5,
+    step: 0.1,
+    format: (value) => value.toFixed(1),
+  },
+  {
+    key: 'letterSpacing',
+    label: '字間',
+    min: 0,
+    max: 0.3,
+    step: 0.05,
+    format: (value) => `${value.toFixed(2)}em`,
+  },
+]
+
+const MARGIN_OPTIONS = [
+  { label: '狭い', value: 24 },
+  { label: '標準', value: 40 },
+  { label: '広い', value: 64 },
+]
+
+const FONT_FAMILIES = Object.keys(READER_FONTS) as ReaderFontFamily[]
+
+// スライダーを動かしている間は反映を待つ時間(ms)。反映のたびにページ分割をやり直すため
+const RANGE_COMMIT_DEBOUNCE_MS = 250
+
+interface RangeSettingInputProps {
+  setting: RangeSetting
+  value: number
+  onCommit: (value: number) => void
+}
+
+/**
+ * 表示設定のスライダー
+ * 表示中の値はすぐに変え、設定への反映は動きが落ち着いてから行う
+ */
+function RangeSettingInput({ setting, value, onCommit }: RangeSettingInputProps) {
+  const { key, label, min, max, step, format } = setting
+  const [draft, setDraft] = useState(value)
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined)
+  const pendingRef = useRef<number | null>(null)
+  const onCommitRef = useRef(onCommit)
+  onCommitRef.current = onCommit
+
+  // 反映済みの値が変わったら表示を合わせる
+  useEffect(() => {
+    setDraft(value)
+  }, [value])
+
+  // 反映前にシートが閉じられても最後の値を反映する
+  useEffect(() => {
+    return () => {
+      clearTimeout(timeoutRef.current)
+      if (pendingRef.current !== null) {
+        onCommitRef.current(pendingRef.current)
+      }
+    }
+  }, [])
+
+  const handleChange = (nextValue: number) => {
+    setDraft(nextValue)
+    pendingRef.current = nextValue
+    clearTimeout(timeoutRef.current)
+    timeoutRef.current = setTimeout(() => {
+      pendingRef.current = null
+      onCommitRef.current(nextValue)
+    }, RANGE_COMMIT_DEBOUNCE_MS)
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1 text-sm">
+        <label htmlFor={`typography-${key}`} className="text-gray-700">
+          {label}
+        </label>
+        <span className="text-gray-500">{format(draft)}</span>
+      </div>
+      <input
+        id={`typography-${key}`}
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={draft}
+        onChange={(e) => handleChange(Number(e.target.value))}
+        className="w-full accent-[var(--primary)]"
+      />
+    </div>
+  )
+}
+
+export default function TypographySettingsSheet({
+  isOpen,
+  settings,
+  onChange,
+  onClose,
+}: TypographySettingsSheetProps) {
+  if (!isOpen) {
+    return null
+  }
+
+  const optionClassName = (isSelected: boolean) =>
+    `flex-1 py-2 rounded-lg border text-sm transition-colors ${
+      isSelected
+        ? 'border-[var(--primary)] bg-[var(--color-primary-50)] text-gray-900'
+        : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+    }`
+
+  return (
+    <div className="absolute inset-0 z-50">
+      {/* シートの外側を押すと閉じる */}
+      <button
+        type="button"
+        aria-label="表示設定を閉じる"
+        onClick={onClose}
+        className="absolute inset-0 w-full h-full cursor-default"
+      />
+      <div className="absolute top-[60px] right-4 w-80 bg-white rounded-xl shadow-lg p-5 space-y-5">
+        <div className="flex items-center justify-between">
+          <h2 className="text-base font-semibold text-gray-900">表示設定</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-sm text-gray-500 hover:text-gray-900"
+          >
+            閉じる
+          </button>
+        </div>
+
+        {RANGE_SETTINGS.map((setting) => (
+          <RangeSettingInput
+            key={setting.key}
+            setting={setting}
+            value={settings[setting.key]}
+            onCommit={(value) => onChange({ [setting.key]: value })}
+          />
+        ))}
+
+        <div>
+          <div className="mb-1 text-sm text-gray-700">書体</div>
+          <div className="flex gap-2">
+            {FONT_FAMILIES.map((fontFamily) => (
+              <button
+                key={fontFamily}
+                type="button"
+                onClick={() => onChange({ fontFamily })}
+                className={`${optionClassName(settings.fontFamily === fontFamily)} ${READER_FONTS[fontFamily].className}`}
+              >
+                {READER_FONTS[fontFamily].label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <div className="mb-1 text-sm text-gray-700">余白</div>
+          <div className="flex gap-2">
+            {MARGIN_OPTIONS.map(({ label, value }) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => onChange({ margin: value })}
+                className={optionClassName(settings.margin === value)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,57 +1,402 @@
-import {NextRequest, NextResponse} from "next/server";
+import { type NextRequest, NextResponse } from 'next/server'
+import {
+  getBookEntry,
+  isBookAvailable,
+  loadBookCharacters,
+  loadBookData,
+} from '@/lib/mock-data/book-registry'
+import { convertBookDataToBookContent } from '@/lib/utils/book-data-converter'
+import { CHAT_ERROR_STATUS, type ChatErrorCode, createChatErrorBody } from '@/lib/utils/chat-errors'
+import { type ChatRequest, parseChatRequest } from '@/lib/utils/chat-request-schema'
+import {
+  CHAT_STREAM_CONTENT_TYPE,
+  type ChatStreamEvent,
+  encodeChatStreamEvent,
+  readLines,
+} from '@/lib/utils/chat-stream'
+import { ChatUpstreamClient, ChatUpstreamError } from '@/lib/utils/chat-upstream'
+import {
+  type SpoilerCheckResult,
+  SpoilerGuard,
+  type SpoilerGuardStream,
+} from '@/lib/utils/spoiler-guard'
 
-interface ChatRequest {
-  book_id: string;
-  character_id: number | null;
-  pos: number;
-  question: string;
-  history: {
-    character_id: number;
-    message: string;
-  }[];
+// 接続先・API キーは環境変数から読み込む（サーキットブレーカーの状態をリクエスト間で共有するため使い回す）
+const chatUpstream = new ChatUpstreamClient()
+
+// 上流に問い合わせられなかった理由ごとのエラーコード
+const UPSTREAM_ERROR_CODES: Record<ChatUpstreamError['code'], ChatErrorCode> = {
+  timeout: 'upstream_timeout',
+  network: 'upstream_unavailable',
+  circuit_open: 'upstream_unavailable',
 }
 
-const CHAT_API_URL = "http://localhost:8000/chat";
+/**
+ * エラー応答（`{ error: { code, message, retryable } }`）を返す
+ */
+function errorResponse(code: ChatErrorCode, message: string, headers?: HeadersInit): NextResponse {
+  return NextResponse.json(createChatErrorBody(code, message), {
+    status: CHAT_ERROR_STATUS[code],
+    headers,
+  })
+}
+
+/**
+ * 問い合わせ先の書籍とキャラクターが存在するか確かめる（問題がなければ null）
+ */
+async function findUnknownTarget(
+  body: ChatRequest,
+): Promise<{ code: ChatErrorCode; message: string } | null> {
+  const book = getBookEntry(body.book_id)
+  if (!book || !isBookAvailable(book)) {
+    return { code: 'unknown_book', message: `Unknown book: ${body.book_id}` }
+  }
+
+  const characters = await loadBookCharacters(body.book_id)
+  const requestedIds = body.character_ids ?? (body.character_id !== null ? [body.character_id] : [])
+  const unknownIds = requestedIds.filter(
+    (id) => !characters.some((character) => character.id === id),
+  )
+  if (unknownIds.length > 0) {
+    return { code: 'unknown_character', message: `Unknown character: ${unknownIds.join(', ')}` }
+  }
+  return null
+}
+
+// 書籍ごとのネタバレ防止ガード（本文の連結を使い回すためキャッシュ）
+const spoilerGuards = new Map<string, Promise<SpoilerGuard | null>>()
+
+function getSpoilerGuard(bookId: string): Promise<SpoilerGuard | null> {
+  const cached = spoilerGuards.get(bookId)
+  if (cached) return cached
+
+  // 本文のない書籍では検査しない
+  const guard = Promise.all([loadBookData(bookId), loadBookCharacters(bookId)]).then(
+    ([bookData, characters]) =>
+      bookData ? new SpoilerGuard(convertBookDataToBookContent(bookData), characters) : null,
+  )
+  spoilerGuards.set(bookId, guard)
+  // 読み込みに失敗した場合はキャッシュせず、次のリクエストで読み込み直す
+  guard.catch(() => spoilerGuards.delete(bookId))
+  return guard
+}
+
+/**
+ * 上流レスポンスの1ペイロードから answer を取り出す
+ * `{ answer: string }` / `{ answer: string[] }` / 文字列 のいずれにも対応
+ */
+function extractAnswers(payload: unknown): string[] {
+  if (typeof payload === 'string') {
+    return payload ? [payload] : []
+  }
+
+  if (payload && typeof payload === 'object' && 'answer' in payload) {
+    const { answer } = payload as { answer: unknown }
+    if (typeof answer === 'string') {
+      return answer ? [answer] : []
+    }
+    if (Array.isArray(answer)) {
+      return answer.filter((item): item is string => typeof item === 'string' && item.length > 0)
+    }
+  }
+
+  return []
+}
+
+/**
+ * SSE / NDJSON の1行から answer を取り出す（SSE の終わりを示す行なら null）
+ */
+function extractLineAnswers(rawLine: string, isEventStream: boolean): string[] | null {
+  let line = rawLine.trim()
+  if (!line) return []
+
+  if (isEventStream) {
+    // コメント行や event: 行は無視し、data: 行のみ扱う
+    if (!line.startsWith('data:')) return []
+    line = line.slice('data:'.length).trim()
+    if (line === '[DONE]') return null
+  }
 
-export async function POST(request: NextRequest) {
   try {
-    const body: ChatRequest = await request.json();
-
-    console.log("Chat API called, forwarding to:", CHAT_API_URL, body);
-
-    // localhost:8000/chat にリクエストを転送
-    const response = await fetch(CHAT_API_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("Chat API error:", response.status, errorText);
-      return NextResponse.json(
-        {error: errorText || "External API error"},
-        {status: response.status}
-      );
+    return extractAnswers(JSON.parse(line))
+  } catch {
+    // JSON でない data はそのままテキストとして扱う
+    return extractAnswers(line)
+  }
+}
+
+/**
+ * 上流の応答を answer 単位で逐次読み出す
+ * SSE / NDJSON はチャンク到着ごとに、通常の JSON は一括で返す
+ */
+async function* readUpstreamAnswers(response: Response): AsyncGenerator<string, void, unknown> {
+  const contentType = response.headers.get('content-type') || ''
+  const isEventStream = contentType.includes('text/event-stream')
+  const isNdjson = contentType.includes('ndjson') || contentType.includes('jsonl')
+
+  if (!response.body || (!isEventStream && !isNdjson)) {
+    yield* extractAnswers(await response.json())
+    return
+  }
+
+  for await (const rawLine of readLines(response.body)) {
+    const answers = extractLineAnswers(rawLine, isEventStream)
+    if (!answers) return
+    yield* answers
+  }
+}
+
+interface UpstreamReply {
+  characterId: number | null
+  response: Response
+}
+
+/**
+ * キャラクターごとに上流へ問い合わせる（クライアントの中断を上流にも伝える）
+ * グループ会話でも1つのリクエストとしてサーキットブレーカーを通す
+ */
+async function requestUpstream(
+  body: ChatRequest,
+  characterIds: (number | null)[],
+  signal: AbortSignal,
+): Promise<UpstreamReply[]> {
+  const responses = await chatUpstream.sendAll(
+    characterIds.map((characterId) => ({
+      ...body,
+      character_id: characterId,
+      character_ids: undefined,
+    })),
+    signal,
+  )
+  return responses.map((response, index) => ({ characterId: characterIds[index], response }))
+}
+
+/**
+ * 複数の上流の応答を、届いた順に話者付きで読み出す
+ */
+async function* mergeUpstreamAnswers(
+  replies: UpstreamReply[],
+): AsyncGenerator<{ characterId: number | null; text: string }, void, unknown> {
+  const iterators = replies.map((reply) => readUpstreamAnswers(reply.response))
+  const readNext = (index: number) => {
+    const next = iterators[index].next().then((result) => ({ index, result }))
+    // 途中で打ち切った後に、読みかけの上流が中断で失敗しても無視する
+    next.catch(() => {})
+    return next
+  }
+  const pending = new Map(iterators.map((_, index) => [index, readNext(index)]))
+
+  while (pending.size > 0) {
+    const { index, result } = await Promise.race(pending.values())
+    if (result.done) {
+      pending.delete(index)
+      continue
     }
+    pending.set(index, readNext(index))
+    yield { characterId: replies[index].characterId, text: result.value }
+  }
+}
+
+/**
+ * 話者ごとの応答を、届いた断片をつなげた全体で検査する（本文のない書籍では検査しない）
+ */
+function createAnswerChecker(spoilerGuard: SpoilerGuard | null, pos: number) {
+  const streams = new Map<number | null, SpoilerGuardStream>()
+
+  return {
+    push(characterId: number | null, chunk: string): SpoilerCheckResult {
+      if (!spoilerGuard) {
+        return { status: 'safe', text: chunk, reasons: [] }
+      }
+      let stream = streams.get(characterId)
+      if (!stream) {
+        stream = spoilerGuard.createStream(pos)
+        streams.set(characterId, stream)
+      }
+      return stream.push(chunk)
+    },
+    // 文の区切りを待って溜めている残りを話者ごとに返す
+    flush(): { characterId: number | null; result: SpoilerCheckResult }[] {
+      return [...streams].map(([characterId, stream]) => ({ characterId, result: stream.flush() }))
+    },
+  }
+}
+
+/**
+ * 検査した応答をクライアントに送るイベントにする（送る本文がなければ null）
+ */
+function toCheckedEvent(
+  characterId: number | null,
+  result: SpoilerCheckResult,
+  isGroup: boolean,
+): ChatStreamEvent | null {
+  if (result.status === 'blocked') {
+    console.warn('Chat answer blocked by spoiler guard:', result.reasons)
+    return {
+      type: 'error',
+      code: 'spoiler_blocked',
+      error: 'Answer refers to content beyond the reader position',
+    }
+  }
+
+  if (result.status === 'rewritten') {
+    console.warn('Chat answer rewritten by spoiler guard:', result.reasons)
+  }
+  if (!result.text) return null
+  return {
+    type: 'answer',
+    text: result.text,
+    ...(isGroup && characterId !== null ? { characterId } : {}),
+  }
+}
+
+/**
+ * 全員分の応答を届いた順に検査し、クライアントに送るイベントを読み出す
+ * ネタバレ防止でブロックした場合はエラーのイベントで終わる
+ */
+async function* readChatEvents(
+  body: ChatRequest,
+  replies: UpstreamReply[],
+  isGroup: boolean,
+): AsyncGenerator<ChatStreamEvent, void, unknown> {
+  // 読者の現在位置より先の内容に触れていないか検査
+  const checker = createAnswerChecker(await getSpoilerGuard(body.book_id), body.pos)
+
+  for await (const { characterId, text } of mergeUpstreamAnswers(replies)) {
+    const event = toCheckedEvent(characterId, checker.push(characterId, text), isGroup)
+    if (event) yield event
+    if (event?.type === 'error') return
+  }
+  for (const { characterId, result } of checker.flush()) {
+    const event = toCheckedEvent(characterId, result, isGroup)
+    if (event) yield event
+    if (event?.type === 'error') return
+  }
+  yield { type: 'done' }
+}
+
+/**
+ * リクエストの本文を読み込んで検証（不正な場合はエラー応答を返す）
+ */
+async function readChatRequest(request: NextRequest): Promise<ChatRequest | NextResponse> {
+  let data: unknown
+  try {
+    data = await request.json()
+  } catch {
+    return errorResponse('invalid_request', 'Invalid JSON body')
+  }
+
+  const { request: body, issues } = parseChatRequest(data)
+  if (!body) {
+    return errorResponse('invalid_request', issues.join('\n'))
+  }
+  const unknownTarget = await findUnknownTarget(body)
+  if (unknownTarget) {
+    return errorResponse(unknownTarget.code, unknownTarget.message)
+  }
+  return body
+}
 
-    const data = await response.json();
-    console.log("Chat API response:", data);
+/**
+ * 上流のエラー応答を、エラーコード付きの応答に変換
+ */
+async function upstreamErrorResponse(response: Response): Promise<NextResponse> {
+  const errorText = await response.text().catch(() => '')
+  console.error('Chat API error:', response.status, errorText)
 
-    return NextResponse.json(data);
+  // 上流の混雑は待てば回復するため、待ち時間の目安をそのまま伝える
+  if (response.status === 429) {
+    const retryAfter = response.headers.get('retry-after')
+    return errorResponse(
+      'rate_limited',
+      errorText || 'Too many requests',
+      retryAfter ? { 'Retry-After': retryAfter } : undefined,
+    )
+  }
+  return errorResponse(
+    'upstream_error',
+    `External API error (${response.status}): ${errorText || 'no details'}`,
+  )
+}
+
+export async function POST(request: NextRequest) {
+  const body = await readChatRequest(request)
+  if (body instanceof NextResponse) {
+    return body
+  }
+
+  // グループ会話ではキャラクターごとに問い合わせ、応答を話者付きで混ぜて返す
+  const isGroup = !!body.character_ids && body.character_ids.length > 0
+  const characterIds = isGroup ? body.character_ids || [] : [body.character_id]
+
+  // ネタバレ防止で打ち切った場合などに、全員分の上流をまとめて中断
+  const upstreamController = new AbortController()
+  const upstreamSignal = AbortSignal.any([request.signal, upstreamController.signal])
+
+  let replies: UpstreamReply[]
+  try {
+    replies = await requestUpstream(body, characterIds, upstreamSignal)
   } catch (error) {
-    console.error("Chat API error:", error);
-
-    // ネットワークエラーなどの場合
-    if (error instanceof Error) {
-      return NextResponse.json(
-        {error: `Failed to connect to chat API: ${error.message}`},
-        {status: 502}
-      );
+    console.error('Chat API error:', error)
+    // 他のキャラクターの問い合わせも中断
+    upstreamController.abort()
+
+    // タイムアウト・ネットワークエラー・遮断中の場合
+    if (error instanceof ChatUpstreamError) {
+      return errorResponse(UPSTREAM_ERROR_CODES[error.code], error.message)
     }
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return errorResponse('upstream_error', `Failed to connect to chat API: ${message}`)
+  }
 
-    return NextResponse.json({error: "Internal server error"}, {status: 500});
+  // 1人でも失敗したら、他の応答は読まずにエラーを返す
+  const failed = replies.find((reply) => !reply.response.ok)
+  if (failed) {
+    const response = await upstreamErrorResponse(failed.response)
+    upstreamController.abort()
+    return response
   }
+
+  const encoder = new TextEncoder()
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          // クライアント切断後は書き込めないので無視
+        }
+      }
+
+      try {
+        for await (const event of readChatEvents(body, replies, isGroup)) {
+          send(encodeChatStreamEvent(event))
+        }
+      } catch (error) {
+        if (!request.signal.aborted) {
+          console.error('Chat API stream error:', error)
+          const message = error instanceof Error ? error.message : 'Stream error'
+          send(encodeChatStreamEvent({ type: 'error', code: 'upstream_error', error: message }))
+        }
+      } finally {
+        // ブロックやエラーで打ち切った場合に、読み終えていない上流の応答も中断する
+        upstreamController.abort()
+        try {
+          controller.close()
+        } catch {
+          // キャンセル済み
+        }
+      }
+    },
+    cancel() {
+      upstreamController.abort()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': CHAT_STREAM_CONTENT_TYPE,
+      'Cache-Control': 'no-cache, no-transform',
+    },
+  })
 }
@@ -1,7 +1,9 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { useRouter } from 'next/navigation'
+import BackupPanel from '../_components/backup-panel'
+import { clearPaginationCache } from '@/lib/utils/pagination-cache'
 
 export default function ConsolePage() {
   const router = useRouter()
@@ -14,8 +16,11 @@ export default function ConsolePage() {
     showNavigationButtons: true
   })
 
+  const [isClearingCache, setIsClearingCache] = useState(false)
+  const [cacheStatus, setCacheStatus] = useState<string | null>(null)
+
   // localStorageから設定を読み込み
-  useEffect(() => {
+  const loadSettings = useCallback(() => {
     try {
       const saved = localStorage.getItem('chavel-swipe-settings')
       if (saved) {
@@ -31,6 +36,10 @@ export default function ConsolePage() {
     }
   }, [])
 
+  useEffect(() => {
+    loadSettings()
+  }, [loadSettings])
+
   // 設定をlocalStorageに保存
   const saveSettings = (newSettings: typeof swipeSettings) => {
     setSwipeSettings(newSettings)
@@ -55,6 +64,14 @@ export default function ConsolePage() {
     saveUiSettings(defaultUiSettings)
   }
 
+  // ページ分割のキャッシュを全書籍分削除
+  const handleClearPaginationCache = async () => {
+    setIsClearingCache(true)
+    await clearPaginationCache()
+    setIsClearingCache(false)
+    setCacheStatus('ページ分割のキャッシュを削除しました。次に本を開いたときに再計算されます')
+  }
+
   return (
     <div className="min-h-screen bg-primary-50 p-8">
       <div className="max-w-4xl mx-auto">
@@ -158,6 +175,32 @@ export default function ConsolePage() {
           </div>
         </div>
 
+        {/* バックアップセクション */}
+        <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4 text-gray-800">バックアップ</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            読書位置・読書記録・設定・ブックマーク・ハイライト・会話履歴をファイルに書き出し、別の端末やブラウザで読み込めます
+          </p>
+          <BackupPanel onImported={loadSettings} />
+        </div>
+
+        {/* ページ分割キャッシュセクション */}
+        <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4 text-gray-800">ページ分割のキャッシュ</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            表示がおかしいときは、保存済みのページ分割を削除して計算し直せます
+          </p>
+          <button
+            type="button"
+            onClick={handleClearPaginationCache}
+            disabled={isClearingCache}
+            className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-50"
+          >
+            キャッシュを削除
+          </button>
+          {cacheStatus && <p className="text-sm text-gray-600 mt-3">{cacheStatus}</p>}
+        </div>
+
         {/* 現在の設定値表示 */}
         <div className="bg-gray-100 rounded-lg p-4">
           <h3 className="text-lg font-medium text-gray-800 mb-2">現在の設定値</h3>
@@ -1,9 +1,12 @@
 'use client'
 
-import { useState } from 'react'
+import { useRef, useState } from 'react'
 import { useVerticalTextPagination } from '@/hooks/use-vertical-text-pagination'
 import { VerticalTextRenderer } from '@/components/vertical-text-renderer'
-import wagahaiData from '@/lib/mock-data/wagahai.json'
+import wagahaiJson from '@/lib/mock-data/wagahai.json'
+import type { BookData } from '@/types/book'
+
+const wagahaiData = wagahaiJson as BookData
 
 export default function DebugPage() {
   // 設定パラメータ
@@ -12,6 +15,7 @@ export default function DebugPage() {
   const [fontSize, setFontSize] = useState(16)
   const [lineHeight, setLineHeight] = useState(1.6)
   const [currentPageIndex, setCurrentPageIndex] = useState(0)
+  const displayAreaRef = useRef<HTMLDivElement>(null)
 
   // ページネーション処理
   const {
@@ -24,6 +28,7 @@ export default function DebugPage() {
     bookData: wagahaiData,
     containerHeight,
     maxWidth,
+    containerRef: displayAreaRef,
     fontSize,
     lineHeight
   })
@@ -252,6 +257,7 @@ export default function DebugPage() {
 
             {/* 表示エリア */}
             <div
+              ref={displayAreaRef}
               className="border-2 border-gray-300 rounded p-4 overflow-hidden"
               style={{
                 maxWidth: `${maxWidth}px`,
@@ -278,7 +284,6 @@ export default function DebugPage() {
                   width="auto"
                   fontSize={fontSize}
                   lineHeight={lineHeight}
-                  fontFamily="Noto Sans JP, sans-serif"
                   letterSpacing="0.1em"
                   className="mx-auto"
                   alignRight={currentPage.isChapterEnd}
@@ -1,12 +1,13 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import BookList from './_components/book-list'
-import BookReader from './_components/book-reader'
+import BookReader, { type BookReaderRef } from './_components/book-reader'
 import ChatPanel from './_components/chat-panel'
 import SplashScreen from './_components/splash-screen'
 import { useReadingState } from '@/hooks/use-reading-state'
 import { getReadingState, isValidReadingState } from '@/lib/utils/reading-state'
+import type { ChatQuote } from '@/services/chat-service'
 
 type ViewType = 'library' | 'reader'
 type ChatState = 'collapsed' | 'expanded'
@@ -26,6 +27,9 @@ export default function Home() {
     currentBlockId?: number
     currentCharacterOffset?: number
   } | null>(null)
+  // 次の質問に添える本文の引用
+  const [chatQuote, setChatQuote] = useState<ChatQuote | null>(null)
+  const bookReaderRef = useRef<BookReaderRef>(null)
 
   // 読書状態の管理
   const readingState = useReadingState({
@@ -52,7 +56,7 @@ export default function Home() {
   const handleBookSelect = (bookId: string) => {
     setSelectedBookId(bookId)
     setCurrentView('reader')
-    // 新しい書籍を選択時は読書状態をリセット
+    // 以前に読んだ書籍は保存していた位置から再開
     readingState.changeBook(bookId)
   }
 
@@ -60,8 +64,22 @@ export default function Home() {
     setCurrentView('library')
     setSelectedBookId(null)
     setChatState('collapsed')
-    // ライブラリに戻る時は状態をクリア
-    readingState.clearState()
+    setChatQuote(null)
+    // ライブラリに戻る時は書籍を閉じる（読書位置は書籍ごとに残す）
+    readingState.closeBook()
+  }
+
+  // 選択した本文を引用してチャットを開く
+  const handleAskAboutPassage = (quote: ChatQuote) => {
+    setChatQuote(quote)
+    setChatState('expanded')
+  }
+
+  // 応答の引用元をリーダーで表示
+  const handleQuoteSelect = (quote: ChatQuote) => {
+    if (bookReaderRef.current?.goToQuote(quote)) {
+      setChatState('collapsed')
+    }
   }
 
   // スプラッシュスクリーン表示中も背景で初期化を継続
@@ -86,6 +104,7 @@ export default function Home() {
       {/* BookReader - 常に全画面表示 */}
       <div className="h-screen">
         <BookReader
+          ref={bookReaderRef}
           bookId={selectedBookId || ''}
           onBack={handleBackToLibrary}
           chatState={chatState}
@@ -93,6 +112,7 @@ export default function Home() {
           readingState={readingState}
           onPageInfoChange={setCurrentPageInfo}
           onShowControlsChange={setShowReaderControls}
+          onAskAboutPassage={handleAskAboutPassage}
         />
       </div>
 
@@ -108,6 +128,9 @@ export default function Home() {
           onToggleExpand={() => setChatState(chatState === 'expanded' ? 'collapsed' : 'expanded')}
           showReaderControls={showReaderControls}
           currentPageInfo={currentPageInfo || undefined}
+          quote={chatQuote ?? undefined}
+          onQuoteClear={() => setChatQuote(null)}
+          onQuoteSelect={handleQuoteSelect}
         />
       </div>
     </div>
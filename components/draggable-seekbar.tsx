@@ -1,11 +1,21 @@
 'use client'
 
 import { useState, useRef, useCallback, useEffect } from 'react'
+import {
+  type ChapterMark,
+  findChapterMark,
+  getChapterStartRatio,
+  getPageRatio,
+  locateRatio,
+  type SeekbarScale
+} from '@/lib/utils/table-of-contents'
 
 interface DraggableSeekbarProps {
   currentPage: number
   totalPages: number
   onPageChange: (pageIndex: number) => void
+  chapterMarks?: ChapterMark[] // 章の始まりに目盛りを表示し、ドラッグ中は章の名前を表示
+  scale?: SeekbarScale | null // 渡すと位置をページ数ではなく読んだ文字数の割合で表す
   disabled?: boolean
   className?: string
 }
@@ -14,23 +24,42 @@ export default function DraggableSeekbar({
   currentPage,
   totalPages,
   onPageChange,
+  chapterMarks = [],
+  scale = null,
   disabled = false,
   className = ''
 }: DraggableSeekbarProps) {
   const [isDragging, setIsDragging] = useState(false)
   const [dragPosition, setDragPosition] = useState(0)
   const [tooltipPage, setTooltipPage] = useState(0)
+  const [tooltipChapterId, setTooltipChapterId] = useState<number | null>(null)
   const trackRef = useRef<HTMLDivElement>(null)
 
-  // 現在のページから位置を計算（逆向きに修正）
-  const currentPosition = totalPages > 0 ? ((totalPages - 1 - currentPage) / (totalPages - 1)) * 100 : 0
+  // ページ番号からトラック上の位置を計算（右から左へ進む）
+  const getPagePosition = (pageIndex: number) => {
+    const ratio = scale ? getPageRatio(scale, pageIndex) : null
+    if (ratio !== null) return (1 - ratio) * 100
+    return totalPages > 1 ? ((totalPages - 1 - pageIndex) / (totalPages - 1)) * 100 : 100
+  }
+
+  // 現在のページから位置を計算
+  const currentPosition = getPagePosition(currentPage)
 
-  // ドラッグ位置からページ番号を計算（逆向きに修正）
-  const calculatePageFromPosition = useCallback((position: number): number => {
-    const clampedPosition = Math.max(0, Math.min(100, position))
-    const pageFloat = ((100 - clampedPosition) / 100) * (totalPages - 1)
-    return Math.round(pageFloat)
-  }, [totalPages])
+  // ドラッグ位置から移動先のページと章を計算（右から左へ進む）
+  const calculateTargetFromPosition = useCallback((position: number) => {
+    const ratio = (100 - Math.max(0, Math.min(100, position))) / 100
+    const located = scale ? locateRatio(scale, ratio) : null
+    if (located) {
+      return { pageIndex: located.pageIndex, chapterId: located.position.chapterId }
+    }
+    return { pageIndex: Math.round(ratio * (totalPages - 1)), chapterId: null }
+  }, [scale, totalPages])
+
+  const updateTooltip = useCallback((position: number) => {
+    const target = calculateTargetFromPosition(position)
+    setTooltipPage(target.pageIndex)
+    setTooltipChapterId(target.chapterId)
+  }, [calculateTargetFromPosition])
 
   // マウス/タッチ位置から相対位置を計算
   const getRelativePosition = useCallback((clientX: number): number => {
@@ -46,26 +75,26 @@ export default function DraggableSeekbar({
     setIsDragging(true)
     const position = getRelativePosition(clientX)
     setDragPosition(position)
-    setTooltipPage(calculatePageFromPosition(position))
-  }, [disabled, getRelativePosition, calculatePageFromPosition])
+    updateTooltip(position)
+  }, [disabled, getRelativePosition, updateTooltip])
 
   // ドラッグ中
   const handleMove = useCallback((clientX: number) => {
     if (!isDragging) return
     const position = getRelativePosition(clientX)
     setDragPosition(position)
-    setTooltipPage(calculatePageFromPosition(position))
-  }, [isDragging, getRelativePosition, calculatePageFromPosition])
+    updateTooltip(position)
+  }, [isDragging, getRelativePosition, updateTooltip])
 
   // ドラッグ終了
   const handleEnd = useCallback(() => {
     if (!isDragging) return
     setIsDragging(false)
-    const targetPage = calculatePageFromPosition(dragPosition)
+    const targetPage = calculateTargetFromPosition(dragPosition).pageIndex
     if (targetPage !== currentPage) {
       onPageChange(targetPage)
     }
-  }, [isDragging, dragPosition, calculatePageFromPosition, currentPage, onPageChange])
+  }, [isDragging, dragPosition, calculateTargetFromPosition, currentPage, onPageChange])
 
   // マウスイベント
   const handleMouseDown = (e: React.MouseEvent) => {
@@ -116,9 +145,31 @@ export default function DraggableSeekbar({
   }, [isDragging, handleMouseMove, handleMouseUp, handleTouchMove, handleTouchEnd])
 
   const displayPosition = isDragging ? dragPosition : currentPosition
+  // 移動先の章は、ドラッグ位置の本文上の位置から求める（基準がなければページから求める）
+  const tooltipChapter = !isDragging
+    ? null
+    : tooltipChapterId !== null
+      ? chapterMarks.find(mark => mark.chapterId === tooltipChapterId) ?? null
+      : findChapterMark(chapterMarks, tooltipPage)
+
+  // 章の始まりのトラック上の位置
+  const getChapterMarkPosition = (mark: ChapterMark) => {
+    const ratio = scale ? getChapterStartRatio(scale, mark.chapterId) : null
+    return ratio !== null ? (1 - ratio) * 100 : getPagePosition(mark.pageIndex)
+  }
 
   return (
     <div className={`relative ${className}`}>
+      {/* ドラッグ中の移動先の章 */}
+      {tooltipChapter && (
+        <div
+          className="absolute -top-[105px] pointer-events-none transform -translate-x-1/2 px-2 py-1 rounded bg-black/80 text-xs text-white whitespace-nowrap"
+          style={{ left: `${displayPosition}%` }}
+        >
+          {tooltipChapter.title}
+        </div>
+      )}
+
       {/* ページバルーン（常時表示） */}
       <div
         className="absolute -top-[75px] pointer-events-none transform -translate-x-full"
@@ -180,6 +231,15 @@ export default function DraggableSeekbar({
           }}
         />
 
+        {/* 章の始まりの目盛り */}
+        {chapterMarks.map(mark => (
+          <div
+            key={mark.pageIndex}
+            className="absolute top-0 h-full w-px bg-gray-500 pointer-events-none"
+            style={{ left: `${getChapterMarkPosition(mark)}%` }}
+          />
+        ))}
+
         {/* ドラッグハンドル */}
         <div
           className={`absolute top-1/2 w-8 h-8 bg-primary rounded-full border-4 border-black shadow-md transform -translate-y-1/2 -translate-x-1/2 cursor-grab ${
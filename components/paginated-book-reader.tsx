@@ -1,17 +1,50 @@
 'use client'
 
-import { useState, useEffect, forwardRef, useImperativeHandle, useRef, useCallback } from 'react'
-import { useVerticalTextPagination } from '@/hooks/use-vertical-text-pagination'
+import { useState, useEffect, forwardRef, useImperativeHandle, useRef, useCallback, useMemo } from 'react'
+import { useVerticalTextPagination, type Page } from '@/hooks/use-vertical-text-pagination'
+import { findNearestPageToPosition } from '@/lib/utils/content-position-finder'
+import { HIGHLIGHT_COLORS } from '@/lib/highlight-colors'
+import {
+  PageSegmentMapper,
+  findPageBySegmentPosition,
+  getPageStartPosition,
+  mapContentRangeToPage,
+  mapPageRangeToContentRange
+} from '@/lib/utils/page-segments'
+import SelectablePage, { type PageTextSelection } from './selectable-page'
+import type { TextHighlightRange } from './text-highlight'
 import { VerticalTextRenderer } from './vertical-text-renderer'
-import type { ContentPosition } from '@/lib/utils/reading-state'
+import type { ContentPosition, ContentRange } from '@/lib/utils/reading-state'
 import type { BookData } from '@/types/book'
+import type { Bookmark, Highlight } from '@/types/bookmark'
+
+// 見開き表示での左右のページの間隔(px)
+const SPREAD_GUTTER = 32
+// 移動先の強調表示を消すまでの時間(ms)
+const HIGHLIGHT_DURATION_MS = 2500
+const JUMP_HIGHLIGHT_CLASS = 'bg-[var(--color-primary-50)] transition-colors'
+const SELECTION_CLASS = 'bg-blue-200'
+
+// 本文の選択結果
+export interface ContentTextSelection {
+  range: ContentRange
+  text: string
+  chapterTitle?: string
+}
+
+export interface PaginationLoadingState {
+  isCalculating: boolean
+  isReady: boolean // 最初のページ（位置復元時は復元先のページ）まで計算済み
+  progress: { current: number; total: number }
+}
 
 export interface PaginatedBookReaderRef {
   goToNextPage: () => void
   goToPreviousPage: () => void
   goToPage: (index: number) => void
-  getLoadingState: () => { isCalculating: boolean; progress: { current: number; total: number } }
-  getCumulativeCharacterCount: (pageIndex: number) => number
+  // 位置を含むページへ移動し、length を指定するとその範囲をしばらく強調表示（ページが未計算なら false）
+  goToPosition: (position: ContentPosition, options?: { highlightLength?: number }) => boolean
+  getLoadingState: () => PaginationLoadingState
   updateSwipeSettings: (settings: { autoCompleteThreshold: number; slideStartThreshold: number }) => void
   triggerSwipeAnimation: (direction: 'next' | 'prev') => void
 }
@@ -22,11 +55,20 @@ interface PaginatedBookReaderProps {
   width?: number
   fontSize?: number
   lineHeight?: number
+  fontFamily?: string
+  letterSpacing?: number // 字間(em)
+  spread?: boolean // 見開き表示（右に現在のページ、左に次のページ）
   className?: string
   showControls?: boolean
   onPageChange?: (pageIndex: number, totalPages: number, chapterTitle?: string, pageData?: any) => void
   initialPosition?: ContentPosition
   onPositionRestored?: (pageIndex: number) => void
+  onLoadingStateChange?: (state: PaginationLoadingState) => void
+  onPagesChange?: (pages: Page[]) => void // ページが計算されるたびに計算済みの全ページを通知
+  highlights?: Highlight[]
+  bookmarks?: Bookmark[]
+  isSelectionMode?: boolean // 選択モードではスワイプの代わりにドラッグで本文を選択
+  onTextSelect?: (selection: ContentTextSelection) => void
 }
 
 export const PaginatedBookReader = forwardRef<PaginatedBookReaderRef, PaginatedBookReaderProps>(({
@@ -35,15 +77,26 @@ export const PaginatedBookReader = forwardRef<PaginatedBookReaderRef, PaginatedB
   width = 800,
   fontSize = 16,
   lineHeight = 1.6,
+  fontFamily,
+  letterSpacing = 0.1,
+  spread = false,
   className = '',
   showControls = true,
   onPageChange,
+  onLoadingStateChange,
+  onPagesChange,
   initialPosition,
-  onPositionRestored
+  onPositionRestored,
+  highlights,
+  bookmarks,
+  isSelectionMode = false,
+  onTextSelect
 }, ref) => {
   const [currentPageIndex, setCurrentPageIndex] = useState(0)
-  const [lastValidPage, setLastValidPage] = useState<any>(null)
+  const [lastValidPage, setLastValidPage] = useState<Page | null>(null)
+  const [jumpHighlight, setJumpHighlight] = useState<ContentRange | null>(null)
   const isNavigatingRef = useRef(false)
+  const containerRef = useRef<HTMLDivElement>(null)
 
   // スワイプ制御用の状態
   const [touchStart, setTouchStart] = useState<{ x: number; y: number } | null>(null)
@@ -82,6 +135,11 @@ export const PaginatedBookReader = forwardRef<PaginatedBookReaderRef, PaginatedB
   const SLIDE_START_THRESHOLD = swipeSettings.slideStartThreshold
   const MAX_SLIDE_DISTANCE = width // コンテナ幅の100%
 
+  // 見開きでは2ページずつ表示し、1ページの幅は半分になる
+  const pagesPerView = spread ? 2 : 1
+  const pageWidth = spread ? Math.floor((width - SPREAD_GUTTER) / 2) : width
+  const alignToView = useCallback((pageIndex: number) => pageIndex - (pageIndex % pagesPerView), [pagesPerView])
+
   // 設定をlocalStorageに保存
   const updateSwipeSettings = useCallback((newSettings: typeof swipeSettings) => {
     setSwipeSettings(newSettings)
@@ -90,25 +148,53 @@ export const PaginatedBookReader = forwardRef<PaginatedBookReaderRef, PaginatedB
     }
   }, [])
 
+  // 書式を変えて再計算した後も、表示中のページの先頭の位置を保つ
+  const anchorPosition = useMemo(
+    () => (lastValidPage ? getPageStartPosition(lastValidPage) ?? undefined : undefined),
+    [lastValidPage]
+  )
+
   // ページネーション処理
   const {
     pages,
     isCalculating,
+    isReady,
     error,
     progress,
     restoredPageIndex
   } = useVerticalTextPagination({
     bookData,
     containerHeight: height,
-    maxWidth: width,
+    maxWidth: pageWidth,
+    containerRef,
     fontSize,
     lineHeight,
+    fontFamily,
+    letterSpacing,
     initialPosition,
+    anchorPosition,
     onPositionRestored
   })
 
   const currentPage = pages[currentPageIndex]
 
+  // 計算状況を通知（ページは計算できたものから順に届く）
+  useEffect(() => {
+    onLoadingStateChange?.({ isCalculating, isReady, progress })
+  }, [isCalculating, isReady, progress, onLoadingStateChange])
+
+  // ページ変更の通知より先に、ページ位置の計算に使う全ページを通知
+  useEffect(() => {
+    onPagesChange?.(pages)
+  }, [pages, onPagesChange])
+
+  // ルビ・傍点などの注記をページ本文上の位置に変換
+  const segmentMapper = useMemo(() => new PageSegmentMapper(bookData), [bookData])
+  const getPageAnnotations = useCallback((page: Page) => {
+    if (!segmentMapper.hasAnnotations) return undefined
+    return segmentMapper.getAnnotations(page.metadata?.segments || [])
+  }, [segmentMapper])
+
   // ページが変更された時にlastValidPageを即座に更新
   useEffect(() => {
     if (currentPage) {
@@ -133,19 +219,32 @@ export const PaginatedBookReader = forwardRef<PaginatedBookReaderRef, PaginatedB
   // 表示するページを決定（currentPageを優先し、なければlastValidPage）
   const pageToDisplay = currentPage || lastValidPage
 
-  // 位置復元の処理
+  // 位置復元の処理（見開きでは復元先のページを含む見開きを表示）
   useEffect(() => {
-    if (restoredPageIndex !== null && restoredPageIndex !== currentPageIndex && !isNavigatingRef.current) {
-      setCurrentPageIndex(restoredPageIndex)
+    if (restoredPageIndex === null || isNavigatingRef.current) return
+    const restoredViewIndex = alignToView(restoredPageIndex)
+    if (restoredViewIndex !== currentPageIndex) {
+      setCurrentPageIndex(restoredViewIndex)
     }
-  }, [restoredPageIndex, currentPageIndex])
+  }, [restoredPageIndex, currentPageIndex, alignToView])
+
+  // 見開きの切り替え時は表示中のページを見開きの先頭に揃える
+  useEffect(() => {
+    setCurrentPageIndex(prevIndex => alignToView(prevIndex))
+  }, [alignToView])
 
   // ページ変更通知用useEffect（初期化時とナビゲーション時）
   const prevPageIndexRef = useRef(-1) // 初期値を-1にして初回実行を保証
   const prevPagesLengthRef = useRef(0) // ページ数の変更も監視
+  const appliedRestoreIndexRef = useRef<number | null>(null)
 
   useEffect(() => {
-    if (pages.length > 0) {
+    // 位置復元前の先頭ページを読書位置として通知しないよう、復元先のページが表示されてから通知
+    if (restoredPageIndex !== null && alignToView(restoredPageIndex) === currentPageIndex) {
+      appliedRestoreIndexRef.current = restoredPageIndex
+    }
+    const isRestorePending = restoredPageIndex !== null && appliedRestoreIndexRef.current !== restoredPageIndex
+    if (pages.length > 0 && isReady && !isRestorePending) {
       const currentPage = pages[currentPageIndex]
 
       // ページが変更されたか、またはページ数が変更された時（初期化含む）
@@ -165,53 +264,94 @@ export const PaginatedBookReader = forwardRef<PaginatedBookReaderRef, PaginatedB
         }
       }
     }
-  }, [currentPageIndex, pages, onPageChange])
+  }, [currentPageIndex, pages, isReady, restoredPageIndex, alignToView, onPageChange])
 
 
   // ページナビゲーション
   const goToNextPage = useCallback(() => {
     isNavigatingRef.current = true
     setCurrentPageIndex(prevIndex => {
-      if (prevIndex < pages.length - 1) {
-        return prevIndex + 1
+      if (prevIndex + pagesPerView < pages.length) {
+        return prevIndex + pagesPerView
       }
       isNavigatingRef.current = false
       return prevIndex
     })
-  }, [pages.length])
+  }, [pages.length, pagesPerView])
 
   const goToPreviousPage = useCallback(() => {
     isNavigatingRef.current = true
     setCurrentPageIndex(prevIndex => {
       if (prevIndex > 0) {
-        return prevIndex - 1
+        return Math.max(0, prevIndex - pagesPerView)
       }
       isNavigatingRef.current = false
       return prevIndex
     })
-  }, [pages.length])
+  }, [pagesPerView])
 
   const goToPage = useCallback((pageIndex: number) => {
     if (pageIndex >= 0 && pageIndex < pages.length) {
       isNavigatingRef.current = true
-      setCurrentPageIndex(pageIndex)
+      setCurrentPageIndex(alignToView(pageIndex))
     }
-  }, [pages])
-
-  // 指定されたページインデックスまでの累積文字数を計算
-  const getCumulativeCharacterCount = useCallback((pageIndex: number) => {
-    let cumulativeCount = 0
-    for (let i = 0; i <= pageIndex && i < pages.length; i++) {
-      const content = pages[i]?.content || ''
-      // 各行の先頭の全角スペースと改行のみを除外して文字数をカウント
-      const cleanedContent = content
-        .split('\n')
-        .map(line => line.replace(/^　/, '')) // 各行の先頭の全角スペースのみ削除
-        .join('')
-      cumulativeCount += cleanedContent.length
+  }, [pages, alignToView])
+
+  const goToPosition = useCallback((position: ContentPosition, options: { highlightLength?: number } = {}) => {
+    const foundResult = findNearestPageToPosition(pages, position)
+    if (!foundResult) return false
+
+    goToPage(foundResult.pageIndex)
+    if (options.highlightLength) {
+      setJumpHighlight({
+        start: position,
+        end: { ...position, characterOffset: position.characterOffset + options.highlightLength }
+      })
     }
-    return cumulativeCount
-  }, [pages])
+    return true
+  }, [pages, goToPage])
+
+  // 強調表示はしばらくしたら消す
+  useEffect(() => {
+    if (!jumpHighlight) return
+    const timer = setTimeout(() => setJumpHighlight(null), HIGHLIGHT_DURATION_MS)
+    return () => clearTimeout(timer)
+  }, [jumpHighlight])
+
+  // しおりを挟んだページ（未計算のページにあるしおりは除く）
+  const bookmarkedPageIndexes = useMemo(
+    () => new Set(
+      (bookmarks || [])
+        .map(bookmark => findPageBySegmentPosition(pages, bookmark.position))
+        .filter(pageIndex => pageIndex >= 0)
+    ),
+    [bookmarks, pages]
+  )
+
+  // ハイライトと移動先の強調表示をページ本文上の範囲に変換
+  const getPageHighlights = useCallback((page: Page): TextHighlightRange[] => {
+    const segments = page.metadata?.segments || []
+    const ranges = (highlights || []).flatMap(highlight =>
+      mapContentRangeToPage(segments, highlight.range).map(range => ({
+        ...range,
+        className: HIGHLIGHT_COLORS[highlight.color].className
+      }))
+    )
+    if (jumpHighlight) {
+      for (const range of mapContentRangeToPage(segments, jumpHighlight)) {
+        ranges.push({ ...range, className: JUMP_HIGHLIGHT_CLASS })
+      }
+    }
+    return ranges
+  }, [highlights, jumpHighlight])
+
+  // ページ本文上の選択範囲を本文上の範囲に変換して通知
+  const handlePageSelect = useCallback((page: Page, selection: PageTextSelection) => {
+    const range = mapPageRangeToContentRange(page.metadata?.segments || [], selection.start, selection.end)
+    const text = selection.text.trim()
+    if (!range || !text) return
+    onTextSelect?.({ range, text, chapterTitle: page.chapterTitle })
+  }, [onTextSelect])
 
   // スワイプハンドラ（スライドアニメーション対応）
   const handleTouchStart = useCallback((e: React.TouchEvent) => {
@@ -238,7 +378,7 @@ export const PaginatedBookReader = forwardRef<PaginatedBookReaderRef, PaginatedB
 
       // ページ境界チェック
       const canSlide = direction === 'next'
-        ? currentPageIndex < pages.length - 1
+        ? currentPageIndex + pagesPerView < pages.length
         : currentPageIndex > 0
 
       if (canSlide) {
@@ -248,7 +388,7 @@ export const PaginatedBookReader = forwardRef<PaginatedBookReaderRef, PaginatedB
         setSlideOffset(offset)
       }
     }
-  }, [touchStart, currentPageIndex, pages.length, MAX_SLIDE_DISTANCE])
+  }, [touchStart, currentPageIndex, pages.length, pagesPerView, MAX_SLIDE_DISTANCE])
 
   // アニメーション リセット処理
   const resetPageSlide = useCallback(() => {
@@ -303,7 +443,7 @@ export const PaginatedBookReader = forwardRef<PaginatedBookReaderRef, PaginatedB
   const triggerSwipeAnimation = useCallback((direction: 'next' | 'prev') => {
     // 境界チェック
     const canSlide = direction === 'next'
-      ? currentPageIndex < pages.length - 1
+      ? currentPageIndex + pagesPerView < pages.length
       : currentPageIndex > 0
 
     if (!canSlide) return
@@ -343,20 +483,20 @@ export const PaginatedBookReader = forwardRef<PaginatedBookReaderRef, PaginatedB
         }, 200) // スワイプと同じアニメーション時間
       })
     })
-  }, [currentPageIndex, pages.length, width, goToNextPage, goToPreviousPage])
+  }, [currentPageIndex, pages.length, pagesPerView, width, goToNextPage, goToPreviousPage])
 
   // refで外部からアクセス可能にする
   useImperativeHandle(ref, () => ({
     goToNextPage,
     goToPreviousPage,
     goToPage,
-    getLoadingState: () => ({ isCalculating, progress }),
-    getCumulativeCharacterCount,
+    goToPosition,
+    getLoadingState: () => ({ isCalculating, isReady, progress }),
     updateSwipeSettings,
     triggerSwipeAnimation
   }))
 
-  if (isCalculating) {
+  if (!isReady && isCalculating) {
     return (
       <div className={`flex items-center justify-center ${className}`} style={{ height }}>
         <div className="text-center">
@@ -400,22 +540,77 @@ export const PaginatedBookReader = forwardRef<PaginatedBookReaderRef, PaginatedB
     )
   }
 
-  // 次のページを取得（アニメーション用）
-  const getAdjacentPage = () => {
-    if (slideDirection === 'next' && currentPageIndex < pages.length - 1) {
-      return pages[currentPageIndex + 1]
+  // 次のページ（見開きでは次の見開きの先頭ページ）のインデックスを取得（アニメーション用）
+  const getAdjacentPageIndex = () => {
+    if (slideDirection === 'next' && currentPageIndex + pagesPerView < pages.length) {
+      return currentPageIndex + pagesPerView
     } else if (slideDirection === 'prev' && currentPageIndex > 0) {
-      return pages[currentPageIndex - 1]
+      return Math.max(0, currentPageIndex - pagesPerView)
     }
     return null
   }
 
-  const adjacentPage = getAdjacentPage()
+  const adjacentPageIndex = getAdjacentPageIndex()
+  const adjacentPage = adjacentPageIndex !== null ? pages[adjacentPageIndex] : null
+
+  // 1ページ分の本文（選択中の範囲があれば強調表示に加える）
+  const renderText = (page: Page, selection: { start: number; end: number } | null = null) => {
+    const pageHighlights = getPageHighlights(page)
+    return (
+      <VerticalTextRenderer
+        text={page.content}
+        annotations={getPageAnnotations(page)}
+        height={height}
+        width="auto"
+        fontSize={fontSize}
+        lineHeight={lineHeight}
+        fontFamily={fontFamily}
+        letterSpacing={`${letterSpacing}em`}
+        className="w-full h-full"
+        alignRight={true}
+        highlights={selection ? [{ ...selection, className: SELECTION_CLASS }, ...pageHighlights] : pageHighlights}
+      />
+    )
+  }
+
+  // しおりのリボンと、選択モードでは選択できる本文
+  const renderPage = (page: Page, pageIndex: number) => (
+    <div className="relative w-full h-full">
+      {isSelectionMode && onTextSelect ? (
+        <SelectablePage text={page.content} onSelect={selection => handlePageSelect(page, selection)}>
+          {selection => renderText(page, selection)}
+        </SelectablePage>
+      ) : (
+        renderText(page)
+      )}
+      {bookmarkedPageIndexes.has(pageIndex) && (
+        <div
+          className="absolute -top-2 right-2 w-4 h-10 bg-[var(--primary)] pointer-events-none"
+          style={{ clipPath: 'polygon(0 0, 100% 0, 100% 100%, 50% 75%, 0 100%)' }}
+          aria-hidden="true"
+        />
+      )}
+    </div>
+  )
+
+  // 表示単位（見開きでは右に page、左に次のページ）
+  const renderView = (page: Page, pageIndex: number) => {
+    if (!spread) return renderPage(page, pageIndex)
+
+    const nextPage = pages[pageIndex + 1]
+    return (
+      <div className="flex flex-row-reverse h-full" style={{ gap: SPREAD_GUTTER }}>
+        <div className="h-full" style={{ width: pageWidth }}>{renderPage(page, pageIndex)}</div>
+        <div className="h-full" style={{ width: pageWidth }}>{nextPage && renderPage(nextPage, pageIndex + 1)}</div>
+      </div>
+    )
+  }
 
   return (
     <div className={`relative ${className}`}>
       {/* スライドアニメーションコンテナ */}
       <div
+        ref={containerRef}
         className="pr-5"
         style={{
           height: height,
@@ -424,9 +619,9 @@ export const PaginatedBookReader = forwardRef<PaginatedBookReaderRef, PaginatedB
           overflow: 'hidden',
           position: 'relative'
         }}
-        onTouchStart={handleTouchStart}
-        onTouchMove={handleTouchMove}
-        onTouchEnd={handleTouchEnd}
+        onTouchStart={isSelectionMode ? undefined : handleTouchStart}
+        onTouchMove={isSelectionMode ? undefined : handleTouchMove}
+        onTouchEnd={isSelectionMode ? undefined : handleTouchEnd}
       >
         {/* 次のページ（背後に表示） */}
         {isSliding && adjacentPage && (
@@ -445,17 +640,7 @@ export const PaginatedBookReader = forwardRef<PaginatedBookReaderRef, PaginatedB
             }}
           >
             <div className="w-full h-full bg-white" style={{ transform: 'translateX(-35px)' }}>
-              <VerticalTextRenderer
-                text={adjacentPage.content}
-                height={height}
-                width="auto"
-                fontSize={fontSize}
-                lineHeight={lineHeight}
-                fontFamily="Noto Sans JP, sans-serif"
-                letterSpacing="0.1em"
-                className="w-full h-full"
-                alignRight={true}
-              />
+              {renderView(adjacentPage, adjacentPageIndex ?? 0)}
             </div>
           </div>
         )}
@@ -476,17 +661,7 @@ export const PaginatedBookReader = forwardRef<PaginatedBookReaderRef, PaginatedB
             }}
           >
             <div className="w-full h-full bg-white" style={{ transform: 'translateX(-35px)' }}>
-              <VerticalTextRenderer
-                text={pageToDisplay.content}
-                height={height}
-                width="auto"
-                fontSize={fontSize}
-                lineHeight={lineHeight}
-                fontFamily="Noto Sans JP, sans-serif"
-                letterSpacing="0.1em"
-                className="w-full h-full"
-                alignRight={true}
-              />
+              {renderView(pageToDisplay, currentPageIndex)}
             </div>
           </div>
         )}
@@ -534,7 +709,7 @@ export const PaginatedBookReader = forwardRef<PaginatedBookReaderRef, PaginatedB
 
             <button
               onClick={goToNextPage}
-              disabled={currentPageIndex >= pages.length - 1}
+              disabled={currentPageIndex + pagesPerView >= pages.length}
               className="px-4 py-2 bg-blue-600 text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed hover:bg-blue-700 transition-colors"
             >
               ← 次のページ
@@ -0,0 +1,47 @@
+'use client'
+
+import { type ReactNode, useEffect, useRef } from 'react'
+import { useTextSelection } from '@/hooks/use-text-selection'
+
+export interface PageTextSelection {
+  start: number // ページ本文上の開始位置
+  end: number
+  text: string
+}
+
+interface SelectablePageProps {
+  text: string // ページ本文（選択位置の基準）
+  onSelect: (selection: PageTextSelection) => void
+  // 選択中の範囲を受け取って本文を描画
+  children: (selection: { start: number; end: number } | null) => ReactNode
+}
+
+/**
+ * ドラッグで本文を選択できるページ
+ * 選択を終えたら onSelect に範囲を渡し、選択表示を消す
+ */
+export default function SelectablePage({ text, onSelect, children }: SelectablePageProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const { selection, isSelecting, clearSelection, getSelectionProps } = useTextSelection(
+    text,
+    containerRef,
+  )
+  const onSelectRef = useRef(onSelect)
+  onSelectRef.current = onSelect
+
+  useEffect(() => {
+    if (isSelecting || !selection) return
+    onSelectRef.current({
+      start: selection.startOffset,
+      end: selection.endOffset,
+      text: selection.selectedText,
+    })
+    clearSelection()
+  }, [isSelecting, selection, clearSelection])
+
+  return (
+    <div ref={containerRef} className="h-full" {...getSelectionProps()}>
+      {children(selection && { start: selection.startOffset, end: selection.endOffset })}
+    </div>
+  )
+}
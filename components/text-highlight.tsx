@@ -1,47 +1,45 @@
 'use client'
 
-import type React from 'react'
+import type { ReactNode } from 'react'
+
+// 重なる範囲は先に始まる方を優先して描画
+export interface TextHighlightRange {
+  start: number
+  end: number
+  className: string
+}
 
 interface TextHighlightProps {
   text: string
-  startOffset?: number
-  endOffset?: number
-  highlightClassName?: string
-  children?: React.ReactNode
+  ranges?: TextHighlightRange[] // 強調表示する範囲（検索結果・選択範囲・ハイライトなど）
+  offset?: number // text が元の本文の何文字目から始まるか（ranges の位置の基準）
 }
 
-export default function TextHighlight({
-  text,
-  startOffset = -1,
-  endOffset = -1,
-  highlightClassName = 'bg-blue-200',
-  children,
-}: TextHighlightProps) {
-  // 改行をbrタグに変換するヘルパー関数
-  const renderTextWithBreaks = (textToRender: string) => {
-    return textToRender.split('\n').map((line, index, array) => (
-      <span key={index}>
-        {line}
-        {index < array.length - 1 && <br />}
-      </span>
-    ))
-  }
+/**
+ * 本文の断片を、強調表示する範囲と重なる部分を強調して描画
+ * 文字位置から選択範囲を求めるため、改行などの文字はそのままテキストとして残す
+ */
+export default function TextHighlight({ text, ranges = [], offset = 0 }: TextHighlightProps) {
+  const end = offset + text.length
+  const overlapping = ranges
+    .filter((range) => range.start < end && range.end > offset)
+    .sort((a, b) => a.start - b.start)
+  if (overlapping.length === 0) return <>{text}</>
 
-  if (startOffset < 0 || endOffset < 0 || startOffset >= endOffset || startOffset >= text.length) {
-    return <>{renderTextWithBreaks(children?.toString() || text)}</>
+  const nodes: ReactNode[] = []
+  let cursor = 0
+  for (const range of overlapping) {
+    const from = Math.max(cursor, range.start - offset)
+    const to = Math.min(text.length, range.end - offset)
+    if (from >= to) continue
+    if (from > cursor) nodes.push(text.slice(cursor, from))
+    nodes.push(
+      <span key={from} className={range.className}>
+        {text.slice(from, to)}
+      </span>,
+    )
+    cursor = to
   }
-
-  const beforeText = text.substring(0, startOffset)
-  const selectedText = text.substring(startOffset, endOffset)
-  const afterText = text.substring(endOffset)
-
-  return (
-    <>
-      {renderTextWithBreaks(beforeText)}
-      <span className={`${highlightClassName} rounded px-0.5`}>
-        {renderTextWithBreaks(selectedText)}
-      </span>
-      {renderTextWithBreaks(afterText)}
-    </>
-  )
+  if (cursor < text.length) nodes.push(text.slice(cursor))
+  return <>{nodes}</>
 }
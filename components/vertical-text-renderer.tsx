@@ -1,24 +1,23 @@
 'use client'
 
 import { forwardRef, useImperativeHandle, useRef, CSSProperties } from 'react'
-import { Noto_Serif_JP } from 'next/font/google'
-
-const notoSerifJP = Noto_Serif_JP({
-  subsets: ['latin'],
-  weight: ['400', '500', '700'],
-  display: 'swap'
-})
+import { READER_FONTS } from '@/lib/fonts'
+import { splitAnnotatedText } from '@/lib/utils/inline-annotations'
+import type { InlineAnnotation } from '@/types/book'
+import TextHighlight, { type TextHighlightRange } from './text-highlight'
 
 export interface VerticalTextRendererProps {
   text?: string
+  annotations?: InlineAnnotation[]  // text 上の位置で指定したルビ・傍点・外字注記
   height: number  // 縦幅は固定
   width?: number | 'auto'  // 横幅は固定か可変
   fontSize: number
   lineHeight: number
-  fontFamily: string
+  fontFamily?: string  // 省略時は明朝（Noto Serif JP）
   letterSpacing: string
   className?: string
   alignRight?: boolean  // 章終わりページの右寄せ
+  highlights?: TextHighlightRange[]  // text 上の強調表示する範囲（検索結果・ハイライトなど）
 }
 
 export interface VerticalTextRendererRef {
@@ -29,14 +28,16 @@ export interface VerticalTextRendererRef {
 export const VerticalTextRenderer = forwardRef<VerticalTextRendererRef, VerticalTextRendererProps>(
   ({
     text = '',
+    annotations,
     height,
     width = 'auto',
     fontSize,
     lineHeight,
-    fontFamily,
+    fontFamily = READER_FONTS.serif.fontFamily,
     letterSpacing,
     className = '',
-    alignRight = false
+    alignRight = false,
+    highlights
   }, ref) => {
     const containerRef = useRef<HTMLDivElement>(null)
 
@@ -60,7 +61,7 @@ export const VerticalTextRenderer = forwardRef<VerticalTextRendererRef, Vertical
       width: width === 'auto' ? 'auto' : `${width}px`,
       fontSize: `${fontSize}px`,
       lineHeight: lineHeight,
-      fontFamily: `${notoSerifJP.style.fontFamily}, ${fontFamily}`,
+      fontFamily,
       letterSpacing: letterSpacing,
       writingMode: 'vertical-rl' as any,
       WebkitWritingMode: 'vertical-rl' as any,
@@ -74,14 +75,45 @@ export const VerticalTextRenderer = forwardRef<VerticalTextRendererRef, Vertical
       overflowWrap: 'break-word'
     }
 
+    // text 上の start から始まる断片を、強調表示する範囲を重ねて描画
+    const renderText = (pieceText: string, start: number) => (
+      <TextHighlight text={pieceText} ranges={highlights} offset={start} />
+    )
+
     return (
       <div
         ref={containerRef}
-        className={`${notoSerifJP.className} ${className} ${alignRight ? 'ml-auto' : ''}`}
+        className={`${className} ${alignRight ? 'ml-auto' : ''}`}
         style={containerStyle}
         data-vertical-text-renderer
       >
-        {text}
+        {annotations && annotations.length > 0
+          ? splitAnnotatedText(text, annotations).map(({ start, text: pieceText, annotation }) => {
+            switch (annotation?.type) {
+              case 'ruby':
+                return (
+                  <ruby key={start}>
+                    {renderText(pieceText, start)}
+                    <rt>{annotation.text}</rt>
+                  </ruby>
+                )
+              case 'emphasis':
+                return (
+                  <span key={start} style={{ textEmphasisStyle: annotation.style }}>
+                    {renderText(pieceText, start)}
+                  </span>
+                )
+              case 'gaiji':
+                return (
+                  <span key={start} title={annotation.description}>
+                    {renderText(pieceText, start)}
+                  </span>
+                )
+              default:
+                return <span key={start}>{renderText(pieceText, start)}</span>
+            }
+          })
+          : renderText(text, 0)}
       </div>
     )
   }
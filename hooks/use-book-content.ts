@@ -0,0 +1,49 @@
+/**
+ * 書籍コンテンツ取得フック
+ * 書籍レジストリから本文・登場人物・事典を読み込む
+ */
+
+import { useEffect, useState } from 'react'
+import { loadBookCharacters, loadBookData, loadBookGlossary } from '@/lib/mock-data/book-registry'
+import type { BookData } from '@/types/book'
+import type { Character } from '@/types/character'
+import type { GlossaryEntry } from '@/types/glossary'
+
+interface BookContentState {
+  bookId: string | null
+  bookData: BookData | null
+  characters: Character[]
+  glossary: GlossaryEntry[]
+}
+
+const EMPTY_STATE: BookContentState = { bookId: null, bookData: null, characters: [], glossary: [] }
+
+export function useBookContent(bookId: string) {
+  const [state, setState] = useState<BookContentState>(EMPTY_STATE)
+
+  useEffect(() => {
+    let cancelled = false
+
+    Promise.all([loadBookData(bookId), loadBookCharacters(bookId), loadBookGlossary(bookId)]).then(
+      ([bookData, characters, glossary]) => {
+        if (!cancelled) {
+          setState({ bookId, bookData, characters, glossary })
+        }
+      },
+    )
+
+    return () => {
+      cancelled = true
+    }
+  }, [bookId])
+
+  // 書籍が切り替わった直後は前の書籍のデータを返さない
+  const isCurrent = state.bookId === bookId
+
+  return {
+    isLoaded: isCurrent,
+    bookData: isCurrent ? state.bookData : null,
+    characters: isCurrent ? state.characters : EMPTY_STATE.characters,
+    glossary: isCurrent ? state.glossary : EMPTY_STATE.glossary,
+  }
+}
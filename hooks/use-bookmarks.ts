@@ -0,0 +1,127 @@
+/**
+ * しおり・ハイライト管理フック
+ * 書籍ごとのしおりとハイライトを IndexedDB から復元し、変更のたびに保存
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import {
+  createBookmarkId,
+  deleteBookmark,
+  deleteHighlight,
+  getBookmarks,
+  getHighlights,
+  saveBookmark,
+  saveHighlight,
+} from '@/lib/utils/bookmark-store'
+import { comparePositions } from '@/lib/utils/content-position'
+import type { Bookmark, Highlight, HighlightColor } from '@/types/bookmark'
+
+export type NewBookmark = Omit<Bookmark, 'id' | 'bookId' | 'createdAt'>
+export type NewHighlight = Omit<Highlight, 'id' | 'bookId' | 'createdAt' | 'updatedAt'>
+export type HighlightChanges = Partial<{ color: HighlightColor; note: string }>
+
+// 本文の出現順に並べる
+const byBookmarkPosition = (a: Bookmark, b: Bookmark) => comparePositions(a.position, b.position)
+const byHighlightStart = (a: Highlight, b: Highlight) =>
+  comparePositions(a.range.start, b.range.start)
+
+export function useBookmarks(bookId?: string) {
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([])
+  const [highlights, setHighlights] = useState<Highlight[]>([])
+  const [isLoaded, setIsLoaded] = useState(false)
+
+  // 書籍が変わったらしおり・ハイライトを復元
+  useEffect(() => {
+    setBookmarks([])
+    setHighlights([])
+    if (!bookId) return
+
+    let cancelled = false
+    setIsLoaded(false)
+
+    Promise.all([getBookmarks(bookId), getHighlights(bookId)]).then(
+      ([storedBookmarks, storedHighlights]) => {
+        if (cancelled) return
+        setBookmarks(storedBookmarks.sort(byBookmarkPosition))
+        setHighlights(storedHighlights.sort(byHighlightStart))
+        setIsLoaded(true)
+      },
+    )
+
+    return () => {
+      cancelled = true
+    }
+  }, [bookId])
+
+  const addBookmark = useCallback(
+    (bookmark: NewBookmark) => {
+      if (!bookId) return
+
+      const created: Bookmark = {
+        ...bookmark,
+        id: createBookmarkId(),
+        bookId,
+        createdAt: new Date(),
+      }
+      setBookmarks((prev) => [...prev, created].sort(byBookmarkPosition))
+      saveBookmark(created)
+    },
+    [bookId],
+  )
+
+  const removeBookmark = useCallback((bookmarkId: string) => {
+    setBookmarks((prev) => prev.filter((bookmark) => bookmark.id !== bookmarkId))
+    deleteBookmark(bookmarkId)
+  }, [])
+
+  const addHighlight = useCallback(
+    (highlight: NewHighlight) => {
+      if (!bookId) return
+
+      const now = new Date()
+      const created: Highlight = {
+        ...highlight,
+        id: createBookmarkId(),
+        bookId,
+        createdAt: now,
+        updatedAt: now,
+      }
+      setHighlights((prev) => [...prev, created].sort(byHighlightStart))
+      saveHighlight(created)
+    },
+    [bookId],
+  )
+
+  const updateHighlight = useCallback(
+    (highlightId: string, changes: HighlightChanges) => {
+      const target = highlights.find((highlight) => highlight.id === highlightId)
+      if (!target) return
+
+      const updated: Highlight = { ...target, ...changes, updatedAt: new Date() }
+      setHighlights((prev) =>
+        prev.map((highlight) => (highlight.id === highlightId ? updated : highlight)),
+      )
+      saveHighlight(updated)
+    },
+    [highlights],
+  )
+
+  const removeHighlight = useCallback((highlightId: string) => {
+    setHighlights((prev) => prev.filter((highlight) => highlight.id !== highlightId))
+    deleteHighlight(highlightId)
+  }, [])
+
+  return {
+    // 状態
+    isLoaded,
+    bookmarks,
+    highlights,
+
+    // アクション
+    addBookmark,
+    removeBookmark,
+    addHighlight,
+    updateHighlight,
+    removeHighlight,
+  }
+}
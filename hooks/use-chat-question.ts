@@ -0,0 +1,160 @@
+/**
+ * チャットの質問送信フック
+ * 宛先のキャラクターに質問を送って応答を会話に加え、送り直せる失敗を記録する
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import { isRetryableChatError } from '@/lib/utils/chat-errors'
+import {
+  type ChatMessage,
+  type ChatQuote,
+  ChatService,
+  type ChatSpeaker,
+} from '@/services/chat-service'
+
+// 送り直せる失敗した質問（エラー応答を送り直しの結果に置き換える）
+export interface FailedQuestion {
+  conversationId: string
+  userMessageId: string
+  errorMessageId: string
+  text: string
+  quote?: ChatQuote
+}
+
+export interface UseChatQuestionOptions {
+  bookId: string
+  // 宛先のキャラクター（グループ会話では最初に招待したキャラクターをエラー応答の話者にする）
+  recipients: ChatSpeaker[]
+  isGroupMode: boolean
+  // 読者の累積文字位置（不明な場合は0）
+  position?: number
+  // 会話の相手（切り替わったら受信中の応答を中止する）
+  conversationCharacterId?: string
+  updateMessages: (
+    conversationId: string,
+    updater: (messages: ChatMessage[]) => ChatMessage[],
+  ) => void
+}
+
+// 応答を受信できなかった場合のフォールバック応答
+function createFallbackReply(speaker: ChatSpeaker): ChatMessage {
+  return {
+    id: `${Date.now()}_error`,
+    role: 'assistant',
+    content: 'すみません、今お話しできません。少し時間をおいてからもう一度お試しください。',
+    errorCode: 'upstream_error',
+    timestamp: new Date(),
+    characterId: speaker.id.toString(),
+    characterName: speaker.name,
+  }
+}
+
+export function useChatQuestion(options: UseChatQuestionOptions) {
+  const {
+    bookId,
+    recipients,
+    isGroupMode,
+    position = 0,
+    conversationCharacterId,
+    updateMessages,
+  } = options
+
+  const [isLoading, setIsLoading] = useState(false)
+  const [failedQuestion, setFailedQuestion] = useState<FailedQuestion | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  // アンマウント時・キャラクター切り替え時に受信中の応答を中止
+  useEffect(() => {
+    if (!conversationCharacterId) return
+    return () => abortControllerRef.current?.abort()
+  }, [conversationCharacterId])
+
+  // 宛先のキャラクターの応答を受信（グループ会話では話者ごとに届いた順）
+  const streamReplies = (
+    message: string,
+    signal: AbortSignal,
+    quote: ChatQuote | undefined,
+    history: ChatMessage[],
+  ) => {
+    const request = { bookId, message, position, quote, messageHistory: history }
+    if (isGroupMode) {
+      return ChatService.streamGroupChat({ ...request, characters: recipients }, signal)
+    }
+    const [recipient] = recipients
+    return ChatService.streamChatWithCharacter(
+      { ...request, characterId: recipient.id, characterName: recipient.name },
+      signal,
+    )
+  }
+
+  // 質問を送って応答を表示（送り直せるエラーで終わった場合は記録する）
+  const sendQuestion = async (
+    conversationId: string,
+    userMessageId: string,
+    text: string,
+    quote: ChatQuote | undefined,
+    history: ChatMessage[],
+  ) => {
+    const [primaryRecipient] = recipients
+
+    setFailedQuestion(null)
+    setIsLoading(true)
+
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+
+    const addReply = (message: ChatMessage) => {
+      updateMessages(conversationId, (prev) => [...prev, message])
+      if (message.errorCode && isRetryableChatError(message.errorCode)) {
+        setFailedQuestion({
+          conversationId,
+          userMessageId,
+          errorMessageId: message.id,
+          text,
+          quote,
+        })
+      }
+    }
+
+    try {
+      // 応答を受信したものから順に表示
+      for await (const message of streamReplies(text, controller.signal, quote, history)) {
+        addReply(message)
+      }
+    } catch (error) {
+      console.error('Chat error:', error)
+      addReply(createFallbackReply(primaryRecipient))
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null
+      }
+      setIsLoading(false)
+    }
+  }
+
+  // 失敗した質問を送り直す（エラー応答は取り除き、質問より前の発言を履歴として送る）
+  const retryFailedQuestion = async (messages: ChatMessage[]) => {
+    if (!failedQuestion || isLoading || recipients.length === 0) return
+    const { conversationId, userMessageId, errorMessageId, text, quote } = failedQuestion
+    const userMessageIndex = messages.findIndex((message) => message.id === userMessageId)
+    const history = userMessageIndex === -1 ? messages : messages.slice(0, userMessageIndex)
+
+    updateMessages(conversationId, (prev) =>
+      prev.filter((message) => message.id !== errorMessageId),
+    )
+    await sendQuestion(conversationId, userMessageId, text, quote, history)
+  }
+
+  // 応答の受信を中止
+  const cancel = () => {
+    abortControllerRef.current?.abort()
+  }
+
+  return {
+    isLoading,
+    failedQuestion,
+    sendQuestion,
+    retryFailedQuestion,
+    cancel,
+  }
+}
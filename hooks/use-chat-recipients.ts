@@ -0,0 +1,74 @@
+/**
+ * チャットの宛先選択フック
+ * 1人のキャラクターを選ぶか、グループ会話に複数のキャラクターを招待する
+ */
+
+import { useEffect, useState } from 'react'
+import type { Character } from '@/types/character'
+
+// グループ会話のスレッドは招待したキャラクターによらず書籍ごとにまとめる
+const GROUP_CONVERSATION_ID = 'group'
+
+/**
+ * @param characters 宛先に選べるキャラクター（出現前のキャラクターは含めない）
+ */
+export function useChatRecipients(characters: Character[]) {
+  const [selectedCharacter, setSelectedCharacter] = useState<string>(
+    characters.length > 0 ? characters[0].id.toString() : '',
+  )
+
+  // 利用可能なキャラクターが変更された時に選択キャラクターを調整
+  useEffect(() => {
+    if (characters.length === 0) {
+      setSelectedCharacter('')
+    } else {
+      // 現在選択中のキャラクターが利用可能でない場合、最初の利用可能キャラクターに変更
+      const currentCharacterAvailable = characters.some(
+        (char) => char.id.toString() === selectedCharacter,
+      )
+      if (!currentCharacterAvailable) {
+        setSelectedCharacter(characters[0].id.toString())
+      }
+    }
+  }, [characters, selectedCharacter])
+
+  // グループ会話では複数のキャラクターを招待して同時に話しかける
+  const [isGroupMode, setIsGroupMode] = useState(false)
+  const [groupMemberIds, setGroupMemberIds] = useState<string[]>([])
+  const recipients = isGroupMode
+    ? characters.filter((char) => groupMemberIds.includes(char.id.toString()))
+    : characters.filter((char) => char.id.toString() === selectedCharacter)
+
+  // 1人の会話では選び直し、グループ会話では招待・招待の取り消しを切り替える
+  const toggleCharacter = (characterId: string) => {
+    if (!isGroupMode) {
+      setSelectedCharacter(characterId)
+      return
+    }
+    setGroupMemberIds((prev) =>
+      prev.includes(characterId) ? prev.filter((id) => id !== characterId) : [...prev, characterId],
+    )
+  }
+
+  const toggleGroupMode = () => {
+    // 最初は選択中のキャラクターを招待した状態で始める
+    if (!isGroupMode && groupMemberIds.length === 0 && selectedCharacter) {
+      setGroupMemberIds([selectedCharacter])
+    }
+    setIsGroupMode(!isGroupMode)
+  }
+
+  // 会話スレッドの相手（グループ会話はまとめて1つの相手として扱う）
+  const conversationCharacterId = isGroupMode
+    ? GROUP_CONVERSATION_ID
+    : selectedCharacter || undefined
+
+  return {
+    selectedCharacter,
+    isGroupMode,
+    recipients,
+    conversationCharacterId,
+    toggleCharacter,
+    toggleGroupMode,
+  }
+}
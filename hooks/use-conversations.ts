@@ -0,0 +1,182 @@
+/**
+ * 会話スレッド管理フック
+ * 書籍・キャラクターごとの会話を IndexedDB から復元し、更新のたびに保存
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  createConversation,
+  deleteConversation as deleteStoredConversation,
+  getConversations,
+  saveConversation,
+  updateConversation,
+} from '@/lib/utils/conversation-store'
+import type { ChatMessage } from '@/services/chat-service'
+import type { Conversation } from '@/types/conversation'
+
+const EMPTY_MESSAGES: ChatMessage[] = []
+
+function withMessages(
+  conversation: Conversation,
+  updater: (messages: ChatMessage[]) => ChatMessage[],
+  chapterId: number | undefined,
+): Conversation {
+  return {
+    ...conversation,
+    messages: updater(conversation.messages),
+    context: {
+      ...conversation.context,
+      chapter: chapterId ?? conversation.context.chapter,
+    },
+    updatedAt: new Date(),
+  }
+}
+
+export interface UseConversationsOptions {
+  bookId?: string
+  characterId?: string
+  chapterId?: number
+}
+
+export function useConversations(options: UseConversationsOptions = {}) {
+  const { bookId, characterId, chapterId } = options
+
+  const [conversations, setConversations] = useState<Conversation[]>([])
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null)
+  const [isLoaded, setIsLoaded] = useState(false)
+
+  // 表示中の書籍・キャラクターの会話（更新をその場で反映するため state と同時に更新）
+  const conversationsRef = useRef<Conversation[]>([])
+  // 保存が必要な会話ID
+  const dirtyIdsRef = useRef(new Set<string>())
+  const chapterIdRef = useRef(chapterId)
+  chapterIdRef.current = chapterId
+
+  // 変更された会話を保存（空のスレッドは保存しない）
+  const saveDirtyConversations = useCallback((list: Conversation[]) => {
+    for (const conversation of list) {
+      if (dirtyIdsRef.current.has(conversation.id) && conversation.messages.length > 0) {
+        saveConversation(conversation)
+      }
+    }
+    dirtyIdsRef.current.clear()
+  }, [])
+
+  // 会話の一覧を置き換え（切り替え前の会話の未保存の変更は先に保存）
+  const replaceConversations = useCallback(
+    (next: Conversation[]) => {
+      saveDirtyConversations(conversationsRef.current)
+      conversationsRef.current = next
+      setConversations(next)
+    },
+    [saveDirtyConversations],
+  )
+
+  // 書籍・キャラクターが変わったらスレッドを復元
+  useEffect(() => {
+    if (!bookId || !characterId) {
+      replaceConversations([])
+      setActiveConversationId(null)
+      return
+    }
+
+    let cancelled = false
+    setIsLoaded(false)
+
+    getConversations(bookId, characterId).then((stored) => {
+      if (cancelled) return
+
+      // 保存済みの会話がなければ空のスレッドを用意（メッセージ追加時に保存）
+      const restored =
+        stored.length > 0 ? stored : [createConversation(bookId, characterId, chapterIdRef.current)]
+      replaceConversations(restored)
+      setActiveConversationId(restored[0].id)
+      setIsLoaded(true)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [bookId, characterId, replaceConversations])
+
+  // 会話が更新されたら保存
+  useEffect(() => {
+    saveDirtyConversations(conversations)
+  }, [conversations, saveDirtyConversations])
+
+  const activeConversation =
+    conversations.find((conversation) => conversation.id === activeConversationId) || null
+
+  // 指定した会話のメッセージを更新（ストリーミング中のスレッド切り替えにも対応）
+  // 別のキャラクターに切り替えた後も届く返答は、保存済みの会話に直接書き込む
+  const updateMessages = useCallback(
+    (conversationId: string, updater: (messages: ChatMessage[]) => ChatMessage[]) => {
+      const chapter = chapterIdRef.current
+      if (!conversationsRef.current.some((conversation) => conversation.id === conversationId)) {
+        updateConversation(conversationId, (conversation) =>
+          withMessages(conversation, updater, chapter),
+        )
+        return
+      }
+
+      dirtyIdsRef.current.add(conversationId)
+      conversationsRef.current = conversationsRef.current.map((conversation) =>
+        conversation.id === conversationId
+          ? withMessages(conversation, updater, chapter)
+          : conversation,
+      )
+      setConversations(conversationsRef.current)
+    },
+    [],
+  )
+
+  // 新しいスレッドを開始（空のスレッドがあればそれを使う）
+  const startNewConversation = useCallback(() => {
+    if (!bookId || !characterId) return
+
+    const empty = conversations.find((conversation) => conversation.messages.length === 0)
+    if (empty) {
+      setActiveConversationId(empty.id)
+      return
+    }
+
+    const conversation = createConversation(bookId, characterId, chapterIdRef.current)
+    replaceConversations([conversation, ...conversationsRef.current])
+    setActiveConversationId(conversation.id)
+  }, [bookId, characterId, conversations, replaceConversations])
+
+  // スレッドを削除（最後の1件なら空のスレッドに置き換え）
+  const deleteConversation = useCallback(
+    (conversationId: string) => {
+      if (!bookId || !characterId) return
+
+      dirtyIdsRef.current.delete(conversationId)
+      deleteStoredConversation(conversationId)
+
+      const remaining = conversations.filter((conversation) => conversation.id !== conversationId)
+      const next =
+        remaining.length > 0
+          ? remaining
+          : [createConversation(bookId, characterId, chapterIdRef.current)]
+      replaceConversations(next)
+      if (activeConversationId === conversationId || remaining.length === 0) {
+        setActiveConversationId(next[0].id)
+      }
+    },
+    [bookId, characterId, conversations, activeConversationId, replaceConversations],
+  )
+
+  return {
+    // 状態
+    isLoaded,
+    conversations,
+    activeConversation,
+    messages: activeConversation?.messages || EMPTY_MESSAGES,
+
+    // アクション
+    selectConversation: setActiveConversationId,
+    updateMessages,
+    startNewConversation,
+    deleteConversation,
+  }
+}
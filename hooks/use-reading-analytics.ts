@@ -0,0 +1,85 @@
+/**
+ * 読書記録フック
+ * 表示中のページの滞在時間を計り、ページを離れるたびに読書記録へ加える
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  getReadingAnalytics,
+  type ReadingAnalytics,
+  recordPageView,
+} from '@/lib/utils/reading-analytics'
+
+// 表示中のページの本文の範囲（累積文字位置）と表示を始めた時刻
+interface CurrentView {
+  start: number
+  end: number
+  enteredAt: number | null // 画面を離れている間は null
+}
+
+export function useReadingAnalytics(bookId?: string) {
+  const [analytics, setAnalytics] = useState<ReadingAnalytics>({ books: {}, dailyDurationMs: {} })
+  const currentViewRef = useRef<CurrentView | null>(null)
+
+  useEffect(() => {
+    setAnalytics(getReadingAnalytics())
+  }, [])
+
+  // 表示中のページを離れたものとして記録（nextStart は次に表示するページの先頭）
+  const flushView = useCallback(
+    (nextStart?: number) => {
+      const view = currentViewRef.current
+      currentViewRef.current = null
+      if (!view || view.enteredAt === null || !bookId) return
+
+      setAnalytics(
+        recordPageView({
+          bookId,
+          enteredAt: view.enteredAt,
+          leftAt: Date.now(),
+          characters: view.end - view.start,
+          isSequential: nextStart === view.end,
+        }),
+      )
+    },
+    [bookId],
+  )
+
+  /**
+   * 表示するページが変わった時に呼ぶ（見開きでは2ページ分の範囲を渡す）
+   */
+  const trackView = useCallback(
+    (start: number, end: number) => {
+      const view = currentViewRef.current
+      if (view && view.start === start && view.end === end) return
+
+      flushView(start)
+      currentViewRef.current = { start, end, enteredAt: Date.now() }
+    },
+    [flushView],
+  )
+
+  // 画面を離れている間は数えない
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      const view = currentViewRef.current
+      if (document.visibilityState === 'hidden') {
+        flushView()
+        // 戻ってきた時に同じページの計測を再開できるよう範囲は残す
+        if (view) {
+          currentViewRef.current = { ...view, enteredAt: null }
+        }
+      } else if (view && view.enteredAt === null) {
+        currentViewRef.current = { ...view, enteredAt: Date.now() }
+      }
+    }
+
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      flushView()
+    }
+  }, [flushView])
+
+  return { analytics, trackView }
+}
@@ -1,6 +1,6 @@
 /**
  * 読書状態管理フック
- * localStorage と同期してリアルタイムで読書位置を保存・復元
+ * localStorage と同期してリアルタイムで読書位置を保存・復元（読書位置は書籍ごとに保存）
  */
 
 import { useState, useEffect, useCallback } from 'react'
@@ -8,13 +8,13 @@ import {
   type ReadingState,
   type ContentPosition,
   type ViewSettings,
-  getReadingState,
+  getBookReadingState,
   saveReadingState,
-  updateReadingPosition,
   clearReadingState,
-  isValidReadingState,
+  clearLastOpenedBook,
   createDefaultPosition,
-  shouldRecalculatePagination
+  shouldRecalculatePagination,
+  DEFAULT_VIEW_SETTINGS
 } from '@/lib/utils/reading-state'
 
 export interface UseReadingStateOptions {
@@ -28,7 +28,7 @@ export interface UseReadingStateOptions {
 export function useReadingState(options: UseReadingStateOptions = {}) {
   const {
     bookId,
-    defaultViewSettings = { fontSize: 16, lineHeight: 1.6 },
+    defaultViewSettings = DEFAULT_VIEW_SETTINGS,
     autoSave = true,
     onPositionRestored,
     onViewSettingsChanged
@@ -38,45 +38,46 @@ export function useReadingState(options: UseReadingStateOptions = {}) {
   const [isLoaded, setIsLoaded] = useState(false)
   const [hasPositionToRestore, setHasPositionToRestore] = useState(false)
 
-  // 初期化時に localStorage から状態を復元
+  // 初期化時に localStorage からこの書籍の状態を復元
   useEffect(() => {
-    const storedState = getReadingState()
-
-    if (bookId && storedState && storedState.selectedBookId === bookId) {
-      if (isValidReadingState(storedState)) {
-        setReadingState(storedState)
-        setHasPositionToRestore(true)
-        onPositionRestored?.(storedState.currentPosition)
-      } else {
-        // 無効な状態の場合はクリア
-        clearReadingState()
-      }
+    const storedState = bookId ? getBookReadingState(bookId) : null
+
+    if (storedState) {
+      setReadingState(storedState)
+      setHasPositionToRestore(true)
+      onPositionRestored?.(storedState.currentPosition)
     }
 
     setIsLoaded(true)
   }, [bookId, onPositionRestored])
 
-  // 読書位置を更新（重複更新防止）
+  // 読書位置と表示設定を更新（重複更新防止、progress を省略すると前回の値を引き継ぐ）
   const updatePosition = useCallback((
     position: ContentPosition,
-    viewSettings?: Partial<ViewSettings>
+    viewSettings?: Partial<ViewSettings>,
+    progress?: number
   ) => {
     if (!bookId) return
 
-    // 現在の位置と同じ場合は更新しない
+    const nextViewSettings = viewSettings
+      ? { ...defaultViewSettings, ...readingState?.viewSettings, ...viewSettings }
+      : readingState?.viewSettings || defaultViewSettings
+
+    // 位置も表示設定も変わらない場合は更新しない
     if (readingState?.currentPosition &&
         readingState.currentPosition.chapterId === position.chapterId &&
         readingState.currentPosition.blockId === position.blockId &&
-        readingState.currentPosition.characterOffset === position.characterOffset) {
+        readingState.currentPosition.characterOffset === position.characterOffset &&
+        (progress === undefined || progress === readingState.progress) &&
+        !shouldRecalculatePagination(readingState.viewSettings, nextViewSettings)) {
       return
     }
 
     const newState: ReadingState = {
       selectedBookId: bookId,
       currentPosition: position,
-      viewSettings: viewSettings
-        ? { ...defaultViewSettings, ...readingState?.viewSettings, ...viewSettings }
-        : readingState?.viewSettings || defaultViewSettings,
+      viewSettings: nextViewSettings,
+      progress: progress ?? readingState?.progress,
       timestamp: Date.now()
     }
 
@@ -89,7 +90,7 @@ export function useReadingState(options: UseReadingStateOptions = {}) {
       }, 100)
       return () => clearTimeout(timeoutId)
     }
-  }, [bookId, defaultViewSettings, readingState?.viewSettings, readingState?.currentPosition, autoSave])
+  }, [bookId, defaultViewSettings, readingState?.viewSettings, readingState?.currentPosition, readingState?.progress, autoSave])
 
   // 設定値のみを更新
   const updateViewSettings = useCallback((
@@ -121,30 +122,40 @@ export function useReadingState(options: UseReadingStateOptions = {}) {
     return needsRecalculation
   }, [bookId, readingState, autoSave, onViewSettingsChanged])
 
-  // 書籍を変更
+  // 書籍を変更（以前に読んだ書籍はその位置から再開）
   const changeBook = useCallback((
     newBookId: string,
     initialPosition?: ContentPosition
   ) => {
+    const storedState = initialPosition ? null : getBookReadingState(newBookId)
     const newState: ReadingState = {
       selectedBookId: newBookId,
-      currentPosition: initialPosition || createDefaultPosition(),
-      viewSettings: readingState?.viewSettings || defaultViewSettings,
+      currentPosition: initialPosition || storedState?.currentPosition || createDefaultPosition(),
+      viewSettings: storedState?.viewSettings || readingState?.viewSettings || defaultViewSettings,
+      progress: storedState?.progress,
       timestamp: Date.now()
     }
 
     setReadingState(newState)
+    setHasPositionToRestore(Boolean(storedState))
 
     if (autoSave) {
       saveReadingState(newState)
     }
   }, [readingState?.viewSettings, defaultViewSettings, autoSave])
 
-  // 状態をクリア
+  // この書籍の状態をクリア
   const clearState = useCallback(() => {
     setReadingState(null)
     setHasPositionToRestore(false)
-    clearReadingState()
+    clearReadingState(bookId)
+  }, [bookId])
+
+  // 書籍を閉じる（読書位置は残し、次回起動時に自動で開かないようにする）
+  const closeBook = useCallback(() => {
+    setReadingState(null)
+    setHasPositionToRestore(false)
+    clearLastOpenedBook()
   }, [])
 
   // 手動保存
@@ -162,6 +173,7 @@ export function useReadingState(options: UseReadingStateOptions = {}) {
   // 現在の位置情報
   const currentPosition = readingState?.currentPosition || null
   const currentViewSettings = readingState?.viewSettings || defaultViewSettings
+  const currentProgress = readingState?.progress ?? null
   const selectedBookId = readingState?.selectedBookId || null
 
   // デバッグ情報
@@ -181,6 +193,7 @@ export function useReadingState(options: UseReadingStateOptions = {}) {
     isLoaded,
     currentPosition,
     currentViewSettings,
+    currentProgress,
     selectedBookId,
     hasPositionToRestore,
 
@@ -189,6 +202,7 @@ export function useReadingState(options: UseReadingStateOptions = {}) {
     updateViewSettings,
     changeBook,
     clearState,
+    closeBook,
     saveState,
     markPositionRestored,
 
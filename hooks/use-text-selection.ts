@@ -120,7 +120,13 @@ export function useTextSelection(
   const getOffsetFromRange = useCallback(
     (container: HTMLElement, node: Node, offset: number): number => {
       let totalOffset = 0
-      const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT, null)
+      // ルビ（rt）の文字は本文に含まれないため数えない
+      const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT, {
+        acceptNode: (textNode) =>
+          textNode.parentElement?.closest('rt')
+            ? NodeFilter.FILTER_REJECT
+            : NodeFilter.FILTER_ACCEPT,
+      })
 
       let currentNode = walker.nextNode()
       while (currentNode) {
@@ -1,74 +1,182 @@
 'use client'
 
-import { useState, useEffect, useRef, useCallback } from 'react'
+import { useState, useEffect, useRef, useCallback, type RefObject } from 'react'
+import { READER_FONTS } from '@/lib/fonts'
+import { comparePositions } from '@/lib/utils/content-position'
+import { findNearestPageToPosition } from '@/lib/utils/content-position-finder'
 import {
-  type PageData,
-  type BookData as BookDataType,
-  enrichPageWithMetadata,
-  findNearestPageToPosition
-} from '@/lib/utils/content-position-finder'
+  type PaginationCacheKey,
+  getCachedPagination,
+  hashBookContent,
+  saveCachedPagination
+} from '@/lib/utils/pagination-cache'
+import { getPageEndPosition } from '@/lib/utils/page-segments'
 import type { ContentPosition } from '@/lib/utils/reading-state'
+import {
+  type Page,
+  type PaginationBatch,
+  type PaginationWorkerRequest,
+  type PaginationWorkerResponse,
+  type VerticalLayoutMetrics,
+  createAdvanceMeasurer,
+  paginateVerticalText
+} from '@/lib/utils/vertical-pagination'
 import type { BookData } from '@/types/book'
 
-export interface Page {
-  id: string
-  content: string
-  chapterTitle?: string
-  isChapterEnd?: boolean
-  metadata?: {
-    chapterId: number
-    blockIds: number[]
-    startBlockId?: number
-    endBlockId?: number
-    endBlockCharacterOffset?: number
-    characterRange?: {
-      start: number
-      end: number
-    }
-  }
-}
-
-interface TextBlock {
-  id: string
-  type: 'paragraph' | 'conversation' | 'chapter'
-  content: string
-  chapterTitle?: string
-}
-
+export type { Page }
 
 interface UseVerticalTextPaginationOptions {
   bookData: BookData
   containerHeight: number
   maxWidth: number
+  // 本文を表示する要素（パディングを除いた幅を実測する。maxWidth を超える分は使わない）
+  containerRef?: RefObject<HTMLElement | null>
   fontSize: number
   lineHeight: number
+  fontFamily?: string
+  letterSpacing?: number // 字間(em)
   initialPosition?: ContentPosition
+  // 再計算後も表示を続ける位置（表示中のページの先頭）
+  anchorPosition?: ContentPosition
   onPositionRestored?: (pageIndex: number) => void
 }
 
+interface PaginationHandlers {
+  onBatch: (batch: PaginationBatch) => void
+  onDone: () => void
+  onError: (message: string) => void
+}
+
+// 書式の既定値（VerticalTextRenderer と揃える）
+const DEFAULT_FONT_FAMILY = READER_FONTS.serif.fontFamily
+const DEFAULT_LETTER_SPACING_EM = 0.1
+// 全角文字の送りを測るサンプル
+const UPRIGHT_SAMPLE = 'あ'.repeat(100)
+// 横倒しになる文字の幅を測るサンプル
+const SIDEWAYS_SAMPLE = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789'
+
+/**
+ * Worker でページネーションを実行（使えない環境ではメインスレッドで少しずつ実行）
+ * 中断用の関数を返す
+ */
+function runPagination(
+  bookData: BookData,
+  metrics: VerticalLayoutMetrics,
+  handlers: PaginationHandlers
+): () => void {
+  if (typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined') {
+    const worker = new Worker(new URL('../lib/workers/pagination-worker.ts', import.meta.url))
+    worker.onmessage = (event: MessageEvent<PaginationWorkerResponse>) => {
+      const message = event.data
+      if (message.type === 'batch') {
+        handlers.onBatch(message)
+      } else if (message.type === 'done') {
+        handlers.onDone()
+        worker.terminate()
+      } else {
+        handlers.onError(message.message)
+        worker.terminate()
+      }
+    }
+    worker.onerror = (event) => {
+      handlers.onError(event.message || 'ページネーション計算エラー')
+      worker.terminate()
+    }
+    const request: PaginationWorkerRequest = { type: 'paginate', bookData, metrics }
+    worker.postMessage(request)
+    return () => worker.terminate()
+  }
+
+  // フォールバック: 通常の Canvas で測定し、バッチごとに描画サイクルへ処理を譲る
+  let cancelled = false
+  const run = async () => {
+    const context = document.createElement('canvas').getContext('2d')
+    if (!context) {
+      throw new Error('Canvas の 2D コンテキストを取得できません')
+    }
+    context.font = metrics.font
+    const measureAdvance = createAdvanceMeasurer(metrics, text => context.measureText(text).width)
+
+    for (const batch of paginateVerticalText(bookData, metrics, measureAdvance)) {
+      if (cancelled) return
+      handlers.onBatch(batch)
+      await new Promise(resolve => requestAnimationFrame(resolve))
+    }
+    if (!cancelled) {
+      handlers.onDone()
+    }
+  }
+  run().catch(err => {
+    if (!cancelled) {
+      handlers.onError(err instanceof Error ? err.message : 'ページネーション計算エラー')
+    }
+  })
+  return () => {
+    cancelled = true
+  }
+}
+
+/**
+ * 受け取ったページが復元したい位置まで到達しているか
+ */
+function hasReachedPosition(pages: Page[], position: ContentPosition): boolean {
+  const lastPage = pages[pages.length - 1]
+  const endPosition = lastPage ? getPageEndPosition(lastPage) : null
+  if (endPosition) {
+    return comparePositions(endPosition, position) > 0
+  }
+
+  // 区間情報のない古いキャッシュのページはブロック単位で判定
+  const metadata = lastPage?.metadata
+  if (!metadata) return false
+  if (metadata.chapterId !== position.chapterId) {
+    return metadata.chapterId > position.chapterId
+  }
+  return (metadata.endBlockId ?? 0) > position.blockId
+}
+
 export function useVerticalTextPagination({
   bookData,
   containerHeight,
   maxWidth,
+  containerRef,
   fontSize,
   lineHeight,
+  fontFamily = DEFAULT_FONT_FAMILY,
+  letterSpacing = DEFAULT_LETTER_SPACING_EM,
   initialPosition,
+  anchorPosition,
   onPositionRestored
 }: UseVerticalTextPaginationOptions) {
   const [pages, setPages] = useState<Page[]>([])
   const [isCalculating, setIsCalculating] = useState(false)
+  const [isWaitingForPosition, setIsWaitingForPosition] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [progress, setProgress] = useState({ current: 0, total: 0 })
   const [restoredPageIndex, setRestoredPageIndex] = useState<number | null>(null)
   const hasTriedPositionRestore = useRef(false)
-
-  // 測定用DOMを再利用
+  const cancelPaginationRef = useRef<(() => void) | null>(null)
+  // キャッシュ読み込み中に条件が変わった場合に古い結果を捨てるための計算ID
+  const paginationJobRef = useRef(0)
+
+  // 位置復元はページの到着を待って行うため、最新の値を参照できるようにする
+  const initialPositionRef = useRef(initialPosition)
+  const anchorPositionRef = useRef(anchorPosition)
+  const onPositionRestoredRef = useRef(onPositionRestored)
+  initialPositionRef.current = initialPosition
+  anchorPositionRef.current = anchorPosition
+  onPositionRestoredRef.current = onPositionRestored
+  // 計算ごとの復元先（初回は保存された位置、再計算時は表示中の位置）
+  const restoreTargetRef = useRef<ContentPosition | undefined>(undefined)
+  const paginatedBookRef = useRef<BookData | null>(null)
+
+  // 測定用DOMを再利用（書式が変わったら作り直す）
   const measurementDivRef = useRef<HTMLDivElement | null>(null)
+  const measurementStyleRef = useRef('')
 
   const getMeasurementDiv = useCallback(() => {
-    if (!measurementDivRef.current ||
-        measurementDivRef.current.style.height !== `${containerHeight}px` ||
-        measurementDivRef.current.style.fontSize !== `${fontSize}px`) {
+    const measurementStyle = [containerHeight, fontSize, lineHeight, fontFamily, letterSpacing].join('|')
+    if (!measurementDivRef.current || measurementStyleRef.current !== measurementStyle) {
 
       // 既存の要素があれば削除
       if (measurementDivRef.current) {
@@ -83,8 +191,8 @@ export function useVerticalTextPagination({
         height: ${containerHeight}px;
         font-size: ${fontSize}px;
         line-height: ${lineHeight};
-        font-family: Noto Sans JP, sans-serif;
-        letter-spacing: 0.1em;
+        font-family: ${fontFamily};
+        letter-spacing: ${letterSpacing}em;
         writing-mode: vertical-rl;
         -webkit-writing-mode: vertical-rl;
         text-orientation: mixed;
@@ -93,89 +201,14 @@ export function useVerticalTextPagination({
       `
       document.body.appendChild(div)
       measurementDivRef.current = div
+      measurementStyleRef.current = measurementStyle
     }
     return measurementDivRef.current
-  }, [containerHeight, fontSize, lineHeight])
-
-  // 統一された測定関数
-  const measureTextWidth = useCallback((content: string): number => {
-    const measureDiv = getMeasurementDiv()
-    measureDiv.textContent = content
-    return measureDiv.scrollWidth
-  }, [getMeasurementDiv])
-
-  // JSONデータから構造化されたブロック配列を取得
-  const getStructuredBlocks = useCallback((): TextBlock[] => {
-    const blocks: TextBlock[] = []
-
-    bookData.content.chapters.forEach(chapter => {
-      // 章タイトルをブロックとして追加
-      blocks.push({
-        id: `chapter-${chapter.id}`,
-        type: 'chapter',
-        content: '',
-        chapterTitle: chapter.title
-      })
-
-      // 章内のブロックを追加
-      chapter.blocks.forEach(block => {
-        blocks.push({
-          id: `block-${chapter.id}-${block.id}`,
-          type: block.type as 'paragraph' | 'conversation',
-          content: block.text,
-          chapterTitle: chapter.title
-        })
-      })
-    })
-
-    return blocks
-  }, [bookData])
-
-  // テキストが収まる量を計算（二分探索）+ 禁則処理
-  const findFittingText = useCallback(async (
-    text: string,
-    maxWidth: number,
-    baseContent = '',
-    separator = ''
-  ): Promise<string> => {
-    let left = 0
-    let right = text.length
-    let result = ''
-
-    while (left <= right) {
-      const mid = Math.floor((left + right) / 2)
-      const testText = text.substring(0, mid)
-      const fullTestContent = baseContent + separator + testText
-
-      const width = measureTextWidth(fullTestContent)
-
-      if (width <= maxWidth) {
-        result = testText
-        left = mid + 1
-      } else {
-        right = mid - 1
-      }
-    }
-
-    // 禁則処理：次の文字が句読点の場合、最後の文字を次のページに送る
-    if (result.length > 0 && result.length < text.length) {
-      const nextChar = text[result.length]
-      // 次の文字が句読点（。、）や閉じ括弧の場合
-      if (nextChar === '。' || nextChar === '、' || nextChar === '」' || nextChar === '』' || nextChar === '）' || nextChar === '】') {
-        // 最後の1文字を次のページに送る（ただし、result が1文字以上の場合）
-        if (result.length > 1) {
-          result = result.slice(0, -1)
-        }
-      }
-    }
-
-    return result
-  }, [measureTextWidth])
+  }, [containerHeight, fontSize, lineHeight, fontFamily, letterSpacing])
 
-  // 実際の表示エリアサイズを測定
+  // 実際の表示エリアの幅を測定
   const measureActualDisplayArea = useCallback((): number => {
-    // 実際のコンテナ要素を探す（デバッグページの表示エリア）
-    const container = document.querySelector('[style*="maxWidth"]') as HTMLElement
+    const container = containerRef?.current
 
     if (container) {
       const rect = container.getBoundingClientRect()
@@ -185,304 +218,189 @@ export function useVerticalTextPagination({
       const borderLeft = parseFloat(computedStyle.borderLeftWidth) || 0
       const borderRight = parseFloat(computedStyle.borderRightWidth) || 0
 
-      const availableWidth = rect.width - paddingLeft - paddingRight - borderLeft - borderRight
-
-      console.log('実際の測定:', {
-        containerWidth: rect.width,
-        padding: paddingLeft + paddingRight,
-        border: borderLeft + borderRight,
-        availableWidth
-      })
-
-      return availableWidth
+      return Math.min(maxWidth, rect.width - paddingLeft - paddingRight - borderLeft - borderRight)
     }
 
     // フォールバック: 設定値からパディング分を引く
     return maxWidth - 32 // デフォルトパディング 16px * 2
-  }, [maxWidth])
+  }, [containerRef, maxWidth])
 
-  // ページネーション計算
-  const calculatePagination = useCallback(async () => {
-    setIsCalculating(true)
-    setError(null)
-    setProgress({ current: 0, total: 0 })
+  // DOM で実測してレイアウト値を求める（キャリブレーション）
+  const calibrateLayout = useCallback((): VerticalLayoutMetrics => {
+    const measureDiv = getMeasurementDiv()
 
-    try {
-      const structuredBlocks = getStructuredBlocks()
+    // 折り返さずに並べたときの送り幅
+    const measureAdvance = (text: string) => {
+      const span = document.createElement('span')
+      span.style.whiteSpace = 'nowrap'
+      span.textContent = text
+      measureDiv.replaceChildren(span)
+      return span.getBoundingClientRect().height
+    }
+    // 列方向の幅
+    const measureWidth = (text: string) => {
+      measureDiv.textContent = text
+      return measureDiv.scrollWidth
+    }
 
-      if (structuredBlocks.length === 0) {
-        throw new Error('書籍データがありません')
+    const uprightAdvance = measureAdvance(UPRIGHT_SAMPLE) / UPRIGHT_SAMPLE.length
+    const sidewaysAdvance = measureAdvance(SIDEWAYS_SAMPLE)
+
+    // 1列に収まる全角文字数（二分探索）
+    const singleColumnWidth = measureWidth('あ')
+    let left = 1
+    let right = Math.max(1, Math.ceil(containerHeight / uprightAdvance) + 1)
+    while (left < right) {
+      const mid = Math.ceil((left + right) / 2)
+      if (measureWidth('あ'.repeat(mid)) <= singleColumnWidth) {
+        left = mid
+      } else {
+        right = mid - 1
       }
+    }
+    const charactersPerColumn = left
+
+    // 1ページに収まる列数
+    const columnPitch = measureWidth('あ\nあ') - singleColumnWidth
+    const availableWidth = measureActualDisplayArea()
+    const columnsPerPage = columnPitch > 0
+      ? Math.max(1, Math.floor((availableWidth - singleColumnWidth) / columnPitch) + 1)
+      : 1
+
+    return {
+      columnCapacity: charactersPerColumn * uprightAdvance,
+      columnsPerPage,
+      uprightAdvance,
+      letterSpacing: fontSize * letterSpacing,
+      fontSize,
+      font: `${fontSize}px ${fontFamily}`,
+      sidewaysSample: {
+        text: SIDEWAYS_SAMPLE,
+        advance: sidewaysAdvance
+      }
+    }
+  }, [getMeasurementDiv, measureActualDisplayArea, containerHeight, fontSize, fontFamily, letterSpacing])
+
+  // 届いたページで位置を復元できるか確認
+  const tryRestorePosition = useCallback((receivedPages: Page[], isComplete: boolean) => {
+    const position = restoreTargetRef.current
+    if (!position || hasTriedPositionRestore.current) {
+      setIsWaitingForPosition(false)
+      return
+    }
+    if (!isComplete && !hasReachedPosition(receivedPages, position)) {
+      setIsWaitingForPosition(true)
+      return
+    }
 
-      // 実際の表示エリア幅を測定
-      const actualMaxWidth = measureActualDisplayArea()
-
-      setProgress({ current: 0, total: structuredBlocks.length })
-
-      const calculatedPages: Page[] = []
-      let currentPageContent = ''
-      let currentPageId = `page-${Date.now()}`
-      let currentChapterTitle: string | undefined
-      let currentChapterId = 1
-      let currentBlockIds: number[] = []
-
-      // 最後のブロックの累積文字数を追跡
-      let lastBlockCharacterOffset = 0
-      const blockTexts = new Map<number, string>() // ブロックIDとテキストのマップ
-      let currentBlockProcessedLength = 0 // 現在のブロックで既に処理された文字数
-
-      for (let i = 0; i < structuredBlocks.length; i++) {
-        const block = structuredBlocks[i]
-
-        // 進捗更新
-        if (i === 0 || i % 10 === 0) {
-          setProgress({ current: i, total: structuredBlocks.length })
-          // ブラウザの描画サイクルに同期してプログレスバーを表示
-          await new Promise(resolve => requestAnimationFrame(resolve))
-        }
-
-        // 章の開始
-        if (block.type === 'chapter') {
-          if (currentPageContent) {
-            const pageData = enrichPageWithMetadata(
-              currentPageContent,
-              currentChapterTitle,
-              currentChapterId,
-              currentBlockIds,
-              false,
-              true,
-              lastBlockCharacterOffset
-            )
-            calculatedPages.push({
-              id: currentPageId,
-              content: pageData.content,
-              chapterTitle: pageData.chapterTitle,
-              isChapterEnd: pageData.isChapterEnd,
-              metadata: pageData.metadata
-            })
-            currentPageContent = ''
-            currentPageId = `page-${Date.now()}-${Math.random()}`
-            currentBlockIds = []
-          }
-          currentChapterTitle = block.chapterTitle
-          currentChapterId = parseInt(block.id.split('-')[1]) || currentChapterId + 1
-          lastBlockCharacterOffset = 0 // 新しい章が始まるのでリセット
-          continue
-        }
-
-        // テキストブロックの処理
-        const blockId = parseInt(block.id.split('-')[2]) || 0
-
-        // ブロックの元のテキストを保存（全角スペース除く）
-        if (!blockTexts.has(blockId)) {
-          blockTexts.set(blockId, block.content)
-        }
+    hasTriedPositionRestore.current = true
+    setIsWaitingForPosition(false)
+    const foundResult = findNearestPageToPosition(receivedPages, position)
+    if (foundResult) {
+      setRestoredPageIndex(foundResult.pageIndex)
+      onPositionRestoredRef.current?.(foundResult.pageIndex)
+    }
+  }, [])
 
-        let blockContent = block.type === 'paragraph'
-          ? `　${block.content}`
-          : block.content
+  // 計算の前に復元先を決める
+  // 同じ書籍の再計算（書式やサイズの変更）では、位置復元が済んでいれば表示中の位置を保つ
+  const prepareRestoreTarget = useCallback(() => {
+    const isRepagination = paginatedBookRef.current === bookData
+    paginatedBookRef.current = bookData
+
+    if (isRepagination && anchorPositionRef.current &&
+        (hasTriedPositionRestore.current || !restoreTargetRef.current)) {
+      restoreTargetRef.current = anchorPositionRef.current
+      hasTriedPositionRestore.current = false
+      setRestoredPageIndex(null)
+    } else if (!hasTriedPositionRestore.current) {
+      restoreTargetRef.current = initialPositionRef.current
+    }
+  }, [bookData])
 
-        const separator = currentPageContent ? '\n' : ''
-        let testContent = currentPageContent + separator + blockContent
+  // ページネーション計算（キャッシュがあれば測定を省略し、なければ計算できたページから順に反映）
+  const calculatePagination = useCallback(async () => {
+    cancelPaginationRef.current?.()
+    cancelPaginationRef.current = null
+    const jobId = ++paginationJobRef.current
+    prepareRestoreTarget()
 
-        let width = measureTextWidth(testContent)
+    setIsCalculating(true)
+    setIsWaitingForPosition(!!restoreTargetRef.current && !hasTriedPositionRestore.current)
+    setError(null)
+    setPages([])
+    setProgress({ current: 0, total: 0 })
 
-        // 現在のブロックIDを追跡
-        if (!currentBlockIds.includes(blockId)) {
-          currentBlockIds.push(blockId)
-          // ブロックのテキストを保存
-          blockTexts.set(blockId, block.content)
-          // 新しいブロックが始まったので処理済み文字数をリセット
-          currentBlockProcessedLength = 0
-        }
+    const receivedPages: Page[] = []
 
-        if (width > actualMaxWidth && currentPageContent) {
-          // オーバーフロー処理
-          const fittingPortion = await findFittingText(
-            blockContent,
-            actualMaxWidth,
-            currentPageContent,
-            separator
-          )
-
-          if (fittingPortion.length > 0) {
-            const pageWithFittingPortion = currentPageContent + separator + fittingPortion
-            // 部分的にブロックが含まれる場合、その部分の長さを計算
-            // fittingPortionから全角スペースを除去した長さを加算
-            const fittingPortionLength = fittingPortion.replace(/　/g, '').length
-            currentBlockProcessedLength += fittingPortionLength
-            const pageData = enrichPageWithMetadata(
-              pageWithFittingPortion,
-              currentChapterTitle,
-              currentChapterId,
-              [...currentBlockIds],
-              false,
-              false,
-              currentBlockProcessedLength
-            )
-            calculatedPages.push({
-              id: currentPageId,
-              content: pageData.content,
-              chapterTitle: pageData.chapterTitle,
-              metadata: pageData.metadata
-            })
-
-            let remainingContent = blockContent.substring(fittingPortion.length)
-            currentPageContent = ''
-            currentPageId = `page-${Date.now()}-${Math.random()}`
-            currentBlockIds = [blockId]
-
-            while (remainingContent.length > 0) {
-              const remainingWidth = measureTextWidth(remainingContent)
-
-              if (remainingWidth <= actualMaxWidth) {
-                currentPageContent = remainingContent
-                break
-              } else {
-                const nextFittingPortion = await findFittingText(remainingContent, actualMaxWidth)
-
-                if (nextFittingPortion.length > 0) {
-                  const nextPartialLength = nextFittingPortion.replace(/　/g, '').length
-                  currentBlockProcessedLength += nextPartialLength
-                  const pageData = enrichPageWithMetadata(
-                    nextFittingPortion,
-                    currentChapterTitle,
-                    currentChapterId,
-                    [blockId],
-                    false,
-                    false,
-                    currentBlockProcessedLength
-                  )
-                  calculatedPages.push({
-                    id: currentPageId,
-                    content: pageData.content,
-                    chapterTitle: pageData.chapterTitle,
-                    metadata: pageData.metadata
-                  })
-
-                  remainingContent = remainingContent.substring(nextFittingPortion.length)
-                  currentPageId = `page-${Date.now()}-${Math.random()}`
-                } else {
-                  break
-                }
-              }
-            }
-          } else {
-            // ブロック全体がページに含まれる場合、ブロックの全長を設定
-            const originalBlockText = blockTexts.get(blockId) || ''
-            currentBlockProcessedLength = originalBlockText.length
-            const pageData = enrichPageWithMetadata(
-              currentPageContent,
-              currentChapterTitle,
-              currentChapterId,
-              [...currentBlockIds],
-              false,
-              false,
-              currentBlockProcessedLength
-            )
-            calculatedPages.push({
-              id: currentPageId,
-              content: pageData.content,
-              chapterTitle: pageData.chapterTitle,
-              metadata: pageData.metadata
-            })
-
-            currentPageContent = ''
-            currentPageId = `page-${Date.now()}-${Math.random()}`
-            currentBlockIds = [blockId]
-
-            const blockWidth = measureTextWidth(blockContent)
-            if (blockWidth <= actualMaxWidth) {
-              currentPageContent = blockContent
-            } else {
-              let remainingBlockContent = blockContent
-
-              while (remainingBlockContent.length > 0) {
-                const fittingText = await findFittingText(remainingBlockContent, actualMaxWidth)
-
-                if (fittingText.length > 0) {
-                  const fittingTextLength = fittingText.replace(/　/g, '').length
-                  currentBlockProcessedLength += fittingTextLength
-                  const pageData = enrichPageWithMetadata(
-                    fittingText,
-                    currentChapterTitle,
-                    currentChapterId,
-                    [blockId],
-                    false,
-                    false,
-                    currentBlockProcessedLength
-                  )
-                  calculatedPages.push({
-                    id: currentPageId,
-                    content: pageData.content,
-                    chapterTitle: pageData.chapterTitle,
-                    metadata: pageData.metadata
-                  })
-
-                  remainingBlockContent = remainingBlockContent.substring(fittingText.length)
-                  currentPageId = `page-${Date.now()}-${Math.random()}`
-                } else {
-                  break
-                }
-              }
-
-              if (remainingBlockContent.length > 0) {
-                currentPageContent = remainingBlockContent
-              }
-            }
-          }
-        } else {
-          // ブロック全体がページに収まる場合
-          currentPageContent = testContent
-          // ブロックの全長を記録
-          const originalBlockText = blockTexts.get(blockId) || ''
-          lastBlockCharacterOffset = originalBlockText.length
-        }
+    try {
+      if (bookData.content.chapters.length === 0) {
+        throw new Error('書籍データがありません')
       }
 
-      // 最後のページを保存
-      if (currentPageContent) {
-        const pageData = enrichPageWithMetadata(
-          currentPageContent,
-          currentChapterTitle,
-          currentChapterId,
-          currentBlockIds,
-          false,
-          false,
-          lastBlockCharacterOffset
-        )
-        calculatedPages.push({
-          id: currentPageId,
-          content: pageData.content,
-          chapterTitle: pageData.chapterTitle,
-          metadata: pageData.metadata
-        })
+      const totalBlocks = bookData.content.chapters.reduce((sum, chapter) => sum + chapter.blocks.length, 0)
+      const cacheKey: PaginationCacheKey = {
+        bookId: bookData.metadata.id,
+        contentHash: hashBookContent(bookData),
+        fontSize,
+        lineHeight,
+        containerWidth: maxWidth,
+        containerHeight,
+        fontFamily,
+        letterSpacing
       }
 
-      setPages(calculatedPages)
-      setProgress({ current: structuredBlocks.length, total: structuredBlocks.length })
+      const cachedPages = await getCachedPagination(bookData, cacheKey)
+      if (jobId !== paginationJobRef.current) return
 
-      // 位置復元の処理
-      if (initialPosition && !hasTriedPositionRestore.current) {
-        hasTriedPositionRestore.current = true
-        const foundResult = findNearestPageToPosition(calculatedPages, initialPosition)
-        if (foundResult) {
-          setRestoredPageIndex(foundResult.pageIndex)
-          onPositionRestored?.(foundResult.pageIndex)
-        }
+      if (cachedPages) {
+        setPages(cachedPages)
+        setProgress({ current: totalBlocks, total: totalBlocks })
+        tryRestorePosition(cachedPages, true)
+        setIsCalculating(false)
+        return
       }
 
+      // Web フォントの読み込みを待ってから測定する
+      await document.fonts?.load(`${fontSize}px ${fontFamily}`, 'あ')
+      if (jobId !== paginationJobRef.current) return
+
+      const metrics = calibrateLayout()
+
+      cancelPaginationRef.current = runPagination(bookData, metrics, {
+        onBatch: batch => {
+          receivedPages.push(...batch.pages)
+          setPages([...receivedPages])
+          setProgress(batch.progress)
+          tryRestorePosition(receivedPages, false)
+        },
+        onDone: () => {
+          tryRestorePosition(receivedPages, true)
+          setIsCalculating(false)
+          cancelPaginationRef.current = null
+          saveCachedPagination(cacheKey, receivedPages)
+        },
+        onError: message => {
+          setError(message)
+          setIsCalculating(false)
+          setIsWaitingForPosition(false)
+          cancelPaginationRef.current = null
+        }
+      })
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'ページネーション計算エラー'
       setError(errorMessage)
-    } finally {
       setIsCalculating(false)
+      setIsWaitingForPosition(false)
     }
-  }, [bookData, containerHeight, maxWidth, fontSize, lineHeight, getStructuredBlocks, findFittingText, measureTextWidth, measureActualDisplayArea])
+  }, [bookData, containerHeight, maxWidth, fontSize, lineHeight, fontFamily, letterSpacing, calibrateLayout, prepareRestoreTarget, tryRestorePosition])
 
   // クリーンアップ
   useEffect(() => {
     return () => {
+      cancelPaginationRef.current?.()
+      cancelPaginationRef.current = null
+      paginationJobRef.current++
       if (measurementDivRef.current) {
         document.body.removeChild(measurementDivRef.current)
         measurementDivRef.current = null
@@ -498,7 +416,7 @@ export function useVerticalTextPagination({
       }, 0)
       return () => clearTimeout(timeoutId)
     }
-  }, [bookData, containerHeight, maxWidth, fontSize, lineHeight])
+  }, [bookData, containerHeight, maxWidth, fontSize, lineHeight, calculatePagination])
 
   // 位置復元完了のリセット
   const resetPositionRestore = useCallback(() => {
@@ -509,10 +427,12 @@ export function useVerticalTextPagination({
   return {
     pages,
     isCalculating,
+    // 最初のページが揃い、位置復元も済んで表示できる状態か
+    isReady: pages.length > 0 && !isWaitingForPosition,
     error,
     progress,
     recalculate: calculatePagination,
     restoredPageIndex,
     resetPositionRestore
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,46 @@
+/**
+ * 画面サイズ取得フック
+ * リサイズ・画面の回転・Split View などでのサイズ変更を、落ち着いてから反映する
+ */
+
+import { useEffect, useState } from 'react'
+
+export interface ViewportSize {
+  width: number
+  height: number
+}
+
+// サイズ変更が続いている間は反映を待つ時間(ms)
+const DEFAULT_DEBOUNCE_MS = 250
+
+export function useViewportSize(debounceMs = DEFAULT_DEBOUNCE_MS): ViewportSize | null {
+  const [size, setSize] = useState<ViewportSize | null>(null)
+
+  useEffect(() => {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined
+
+    const updateSize = () => {
+      setSize((prev) =>
+        prev && prev.width === window.innerWidth && prev.height === window.innerHeight
+          ? prev
+          : { width: window.innerWidth, height: window.innerHeight },
+      )
+    }
+    const handleResize = () => {
+      clearTimeout(timeoutId)
+      timeoutId = setTimeout(updateSize, debounceMs)
+    }
+
+    updateSize()
+    window.addEventListener('resize', handleResize)
+    window.addEventListener('orientationchange', handleResize)
+
+    return () => {
+      clearTimeout(timeoutId)
+      window.removeEventListener('resize', handleResize)
+      window.removeEventListener('orientationchange', handleResize)
+    }
+  }, [debounceMs])
+
+  return size
+}
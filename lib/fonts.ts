@@ -0,0 +1,38 @@
+/**
+ * 本文用フォント
+ * リーダーで選べる書体と、表示・測定で使う font-family を定義する
+ */
+
+import { Noto_Sans_JP, Noto_Serif_JP } from 'next/font/google'
+import type { ReaderFontFamily } from '@/lib/utils/reading-state'
+
+const notoSerifJP = Noto_Serif_JP({
+  subsets: ['latin'],
+  weight: ['400', '500', '700'],
+  display: 'swap',
+})
+
+const notoSansJP = Noto_Sans_JP({
+  subsets: ['latin'],
+  weight: ['400', '500', '700'],
+  display: 'swap',
+})
+
+export interface ReaderFont {
+  label: string
+  className: string
+  fontFamily: string // CSS の font-family（フォールバックを含む）
+}
+
+export const READER_FONTS: Record<ReaderFontFamily, ReaderFont> = {
+  serif: {
+    label: '明朝',
+    className: notoSerifJP.className,
+    fontFamily: `${notoSerifJP.style.fontFamily}, serif`,
+  },
+  sans: {
+    label: 'ゴシック',
+    className: notoSansJP.className,
+    fontFamily: `${notoSansJP.style.fontFamily}, sans-serif`,
+  },
+}
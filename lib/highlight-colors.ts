@@ -0,0 +1,21 @@
+/**
+ * ハイライトの色
+ * 選べる色と、本文・一覧での表示に使うクラスを定義する
+ */
+
+import type { HighlightColor } from '@/types/bookmark'
+
+export interface HighlightColorStyle {
+  label: string
+  className: string // 本文上の背景色
+  swatchClassName: string // 色選択ボタン・一覧の見出し
+}
+
+export const HIGHLIGHT_COLORS: Record<HighlightColor, HighlightColorStyle> = {
+  yellow: { label: '黄', className: 'bg-yellow-200/70', swatchClassName: 'bg-yellow-300' },
+  green: { label: '緑', className: 'bg-green-200/70', swatchClassName: 'bg-green-300' },
+  blue: { label: '青', className: 'bg-sky-200/70', swatchClassName: 'bg-sky-300' },
+  pink: { label: '桃', className: 'bg-pink-200/70', swatchClassName: 'bg-pink-300' },
+}
+
+export const DEFAULT_HIGHLIGHT_COLOR: HighlightColor = 'yellow'
@@ -0,0 +1,155 @@
+/**
+ * 書籍レジストリ
+ * mockBooks の各エントリを key で lib/mock-data 内の `<key>.json`（本文）と
+ * `<key>.characters.json`（登場人物）・`<key>.glossary.json`（事典）に対応付け、必要になった時点で読み込む
+ */
+
+import { parseBookCharacters } from '@/lib/utils/character-schema'
+import { createCharacterEntries } from '@/lib/utils/glossary'
+import { parseBookGlossary } from '@/lib/utils/glossary-schema'
+import type { BookCatalogEntry, BookData } from '@/types/book'
+import type { Character } from '@/types/character'
+import type { GlossaryEntry } from '@/types/glossary'
+import { mockBooks } from './books'
+
+// 同じ書籍を何度も読み込まないよう Promise をキャッシュ
+const bookDataCache = new Map<string, Promise<BookData | null>>()
+const charactersCache = new Map<string, Promise<Character[]>>()
+const glossaryCache = new Map<string, Promise<GlossaryEntry[]>>()
+
+/**
+ * 本棚に並べる書籍一覧を取得
+ */
+export function getBookCatalog(): BookCatalogEntry[] {
+  return mockBooks
+}
+
+/**
+ * 書籍IDからカタログのエントリを取得
+ */
+export function getBookEntry(bookId: string): BookCatalogEntry | undefined {
+  return mockBooks.find((book) => book.id === bookId)
+}
+
+/**
+ * 本文データを持ち、読める状態の書籍かどうか
+ */
+export function isBookAvailable(book: BookCatalogEntry): boolean {
+  return !book.disabled && !!book.key
+}
+
+/**
+ * 読めない書籍の理由（読める書籍は null）
+ */
+export function getUnavailableReason(book: BookCatalogEntry): string | null {
+  if (isBookAvailable(book)) return null
+  return book.unavailableReason ?? '本文データを準備中です'
+}
+
+/**
+ * 登場人物アイコンの画像パスを取得（未登録の場合は null）
+ */
+export function getCharacterIconPath(bookId: string, characterId: number): string | null {
+  const book = getBookEntry(bookId)
+  const iconMapping = book?.characterIconMap.find((mapping) => mapping.id === characterId)
+  if (!book?.key || !iconMapping) return null
+  return `/images/${book.key}/${iconMapping.fileName}`
+}
+
+/**
+ * 書籍の本文データを読み込む（本文がない書籍は null）
+ */
+export function loadBookData(bookId: string): Promise<BookData | null> {
+  const cached = bookDataCache.get(bookId)
+  if (cached) return cached
+
+  const key = getBookEntry(bookId)?.key
+  const promise = key
+    ? import(`./${key}.json`)
+        .then((module) => module.default as BookData)
+        .catch((error) => {
+          console.error(`Failed to load book data: ${key}`, error)
+          bookDataCache.delete(bookId)
+          return null
+        })
+    : Promise.resolve(null)
+
+  bookDataCache.set(bookId, promise)
+  return promise
+}
+
+// 登場人物・事典ファイルがない書籍の読み込みエラーか
+function isModuleNotFound(error: unknown): boolean {
+  return error instanceof Error && 'code' in error && error.code === 'MODULE_NOT_FOUND'
+}
+
+/**
+ * 書籍ごとの任意のファイルを読み込む（ファイルがない書籍は空配列、その他の失敗はそのまま投げる）
+ */
+function importOptionalFile<T>(
+  load: () => Promise<{ default: unknown }>,
+  parse: (data: unknown) => T[],
+): Promise<T[]> {
+  return load()
+    .then((module) => parse(module.default))
+    .catch((error) => {
+      if (isModuleNotFound(error)) return []
+      throw error
+    })
+}
+
+/**
+ * 登場人物データを読み込む（失敗した場合はキャッシュせず、次の呼び出しで読み込み直す）
+ */
+function importBookCharacters(bookId: string): Promise<Character[]> {
+  const cached = charactersCache.get(bookId)
+  if (cached) return cached
+
+  const key = getBookEntry(bookId)?.key
+  const promise = key
+    ? importOptionalFile(
+        () => import(`./${key}.characters.json`),
+        (data) => parseBookCharacters(data, `${key}.characters.json`),
+      )
+    : Promise.resolve([])
+
+  charactersCache.set(bookId, promise)
+  promise.catch(() => charactersCache.delete(bookId))
+  return promise
+}
+
+/**
+ * 書籍の登場人物データを読み込んで検証する（登場人物ファイルがない書籍は空配列）
+ */
+export function loadBookCharacters(bookId: string): Promise<Character[]> {
+  return importBookCharacters(bookId).catch((error) => {
+    console.error(`Failed to load book characters: ${bookId}`, error)
+    return []
+  })
+}
+
+/**
+ * 書籍の事典を読み込む（登場人物データの人物を先頭に、事典ファイルの項目を続ける）
+ */
+export function loadBookGlossary(bookId: string): Promise<GlossaryEntry[]> {
+  const cached = glossaryCache.get(bookId)
+  if (cached) return cached
+
+  const key = getBookEntry(bookId)?.key
+  const glossaryEntries: Promise<GlossaryEntry[]> = key
+    ? importOptionalFile(
+        () => import(`./${key}.glossary.json`),
+        (data) => parseBookGlossary(data, `${key}.glossary.json`),
+      )
+    : Promise.resolve([])
+  const promise = Promise.all([importBookCharacters(bookId), glossaryEntries])
+    .then(([characters, entries]) => [...createCharacterEntries(characters), ...entries])
+    .catch((error) => {
+      console.error(`Failed to load book glossary: ${bookId}`, error)
+      glossaryCache.delete(bookId)
+      return []
+    })
+
+  glossaryCache.set(bookId, promise)
+  return promise
+}
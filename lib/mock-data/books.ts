@@ -1,4 +1,6 @@
-export const mockBooks = [
+import type { BookCatalogEntry } from "@/types/book";
+
+export const mockBooks: BookCatalogEntry[] = [
   {
     id: "1",
     title: "吾輩は猫である",
@@ -57,6 +59,7 @@ export const mockBooks = [
     cover: "/images/cover-dummy.png",
     content: "",
     disabled: true,
+    unavailableReason: "配信の準備中です",
     characterIconMap: [],
   },
   {
@@ -66,6 +69,7 @@ export const mockBooks = [
     cover: "/images/cover-dummy.png",
     content: "",
     disabled: true,
+    unavailableReason: "配信の準備中です",
     characterIconMap: [],
   },
   {
@@ -75,6 +79,7 @@ export const mockBooks = [
     cover: "/images/cover-dummy.png",
     content: "",
     disabled: true,
+    unavailableReason: "配信の準備中です",
     characterIconMap: [],
   },
 ];
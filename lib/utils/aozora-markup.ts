@@ -0,0 +1,228 @@
+/**
+ * 青空文庫の注記記法のパーサー
+ * ルビ（｜漢字《かんじ》）・傍点（［＃「…」に傍点］）・外字注記（※［＃…］ / ※(…)）を
+ * 本文テキストと構造化されたインライン注記に分離する
+ */
+
+import type { InlineAnnotation } from '@/types/book'
+
+export interface ParsedAozoraLine {
+  text: string
+  annotations: InlineAnnotation[]
+}
+
+// 傍点の種類と CSS text-emphasis-style の対応
+const EMPHASIS_STYLES: Record<string, string> = {
+  傍点: 'sesame',
+  白ゴマ傍点: 'open sesame',
+  丸傍点: 'filled dot',
+  白丸傍点: 'open dot',
+  黒三角傍点: 'filled triangle',
+  白三角傍点: 'open triangle',
+  二重丸傍点: 'filled double-circle',
+  蛇の目傍点: 'open double-circle',
+}
+
+// ルビの親文字を省略した場合に親文字とみなす漢字
+const KANJI_PATTERN = /[々〆〇ヶ仝\u3400-\u9FFF\uF900-\uFAFF]/
+
+/**
+ * 直前の漢字の連続を親文字として、その開始位置を返す
+ */
+function findImplicitRubyBaseStart(text: string): number {
+  let start = text.length
+  while (start > 0 && KANJI_PATTERN.test(text[start - 1])) {
+    start--
+  }
+  return start
+}
+
+/**
+ * 注記が直前の本文を指す場合、その開始位置を返す（見つからなければ -1）
+ */
+function findTargetStart(text: string, target: string): number {
+  if (text.endsWith(target)) {
+    return text.length - target.length
+  }
+  return text.lastIndexOf(target)
+}
+
+// 解析中の状態
+interface ParseState {
+  text: string
+  annotations: InlineAnnotation[]
+  rubyBaseStart: number | null
+  // 範囲指定の傍点（［＃傍点］…［＃傍点終わり］）の開始位置
+  openEmphasis: Map<string, number>
+}
+
+// 外字注記の開き・閉じ記号（※［＃…］ / ※(…)）
+const GAIJI_BRACKETS: [open: string, close: string][] = [
+  ['［＃', '］'],
+  ['(', ')'],
+]
+
+/**
+ * ルビ（《…》）を読み、次に読む位置を返す
+ */
+function parseRuby(line: string, i: number, state: ParseState): number {
+  const close = line.indexOf('》', i + 1)
+  if (close === -1) {
+    state.text += line.slice(i)
+    return line.length
+  }
+
+  const start = state.rubyBaseStart ?? findImplicitRubyBaseStart(state.text)
+  const rubyText = line.slice(i + 1, close)
+  if (start < state.text.length && rubyText) {
+    state.annotations.push({ type: 'ruby', start, end: state.text.length, text: rubyText })
+  }
+  state.rubyBaseStart = null
+  return close + 1
+}
+
+/**
+ * 外字注記（※［＃「…」、第3水準1-84-77］ / ※(「…」、第3水準1-84-77) / ※［＃「…」、U+546D、…］）を読み、
+ * 次に読む位置を返す（外字注記でなければ null）
+ */
+function parseGaiji(line: string, i: number, state: ParseState): number | null {
+  for (const [open, closeMark] of GAIJI_BRACKETS) {
+    if (!line.startsWith(open, i + 1)) continue
+    const descriptionStart = i + 1 + open.length
+    const close = line.indexOf(closeMark, descriptionStart)
+    if (close === -1) continue
+
+    const description = line.slice(descriptionStart, close)
+    const codePoint = description.match(/U\+([0-9A-Fa-f]{4,6})/)
+    if (codePoint) {
+      state.text += String.fromCodePoint(Number.parseInt(codePoint[1], 16))
+    } else {
+      state.annotations.push({
+        type: 'gaiji',
+        start: state.text.length,
+        end: state.text.length + 1,
+        description,
+      })
+      state.text += '※'
+    }
+    return close + 1
+  }
+  return null
+}
+
+/**
+ * 直前の本文を対象とする注記（［＃「対象」に傍点］ / ［＃「対象」に「…」のルビ］）を適用
+ * 対象を指す注記でなければ false
+ */
+function applyTargetNote(note: string, state: ParseState): boolean {
+  const emphasisMatch = note.match(/^「(.+)」に(.+)$/)
+  if (!emphasisMatch) return false
+
+  const [, target, kind] = emphasisMatch
+  const start = findTargetStart(state.text, target)
+  if (start === -1) return true
+
+  const rubyMatch = kind.match(/^「(.+)」のルビ$/)
+  if (rubyMatch) {
+    state.annotations.push({ type: 'ruby', start, end: start + target.length, text: rubyMatch[1] })
+  } else if (EMPHASIS_STYLES[kind]) {
+    state.annotations.push({
+      type: 'emphasis',
+      start,
+      end: start + target.length,
+      style: EMPHASIS_STYLES[kind],
+    })
+  }
+  return true
+}
+
+/**
+ * 範囲指定の傍点（［＃傍点］…［＃傍点終わり］）の開始・終了を適用
+ */
+function applyRangeEmphasisNote(note: string, state: ParseState): void {
+  if (EMPHASIS_STYLES[note]) {
+    state.openEmphasis.set(note, state.text.length)
+    return
+  }
+
+  const closingMatch = note.match(/^(.+)終わり$/)
+  if (!closingMatch || !state.openEmphasis.has(closingMatch[1])) return
+
+  const kind = closingMatch[1]
+  const start = state.openEmphasis.get(kind) ?? state.text.length
+  state.openEmphasis.delete(kind)
+  if (start < state.text.length) {
+    state.annotations.push({
+      type: 'emphasis',
+      start,
+      end: state.text.length,
+      style: EMPHASIS_STYLES[kind],
+    })
+  }
+}
+
+/**
+ * 注記（［＃…］）を読み、次に読む位置を返す
+ * 字下げ・改ページなど表示に影響しない注記は読み捨てる
+ */
+function parseNote(line: string, i: number, state: ParseState): number {
+  const close = line.indexOf('］', i + 2)
+  if (close === -1) {
+    state.text += line.slice(i)
+    return line.length
+  }
+
+  const note = line.slice(i + 2, close)
+  if (!applyTargetNote(note, state)) {
+    applyRangeEmphasisNote(note, state)
+  }
+  return close + 1
+}
+
+/**
+ * i 文字目から記法1つ（または本文1文字）を読み、次に読む位置を返す
+ */
+function parseNext(line: string, i: number, state: ParseState): number {
+  const char = line[i]
+
+  // 親文字の開始記号
+  if (char === '｜') {
+    state.rubyBaseStart = state.text.length
+    return i + 1
+  }
+  if (char === '《') {
+    return parseRuby(line, i, state)
+  }
+  if (char === '［' && line[i + 1] === '＃') {
+    return parseNote(line, i, state)
+  }
+  if (char === '※') {
+    const next = parseGaiji(line, i, state)
+    if (next !== null) return next
+  }
+
+  state.text += char
+  return i + 1
+}
+
+/**
+ * 青空文庫形式の1行を解析
+ */
+export function parseAozoraLine(line: string): ParsedAozoraLine {
+  const state: ParseState = {
+    text: '',
+    annotations: [],
+    rubyBaseStart: null,
+    openEmphasis: new Map(),
+  }
+
+  let i = 0
+  while (i < line.length) {
+    i = parseNext(line, i, state)
+  }
+
+  return {
+    text: state.text,
+    annotations: state.annotations.sort((a, b) => a.start - b.start),
+  }
+}
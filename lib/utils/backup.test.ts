@@ -0,0 +1,225 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { BACKUP_FORMAT, BACKUP_VERSION, parseBackup, planBackupImport } from './backup'
+import type { BookReadingState } from './reading-state'
+
+// localStorage だけを持つブラウザ環境（IndexedDB は使えない）
+let storage: Map<string, string>
+
+beforeEach(() => {
+  storage = new Map()
+  vi.stubGlobal('window', {})
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  })
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+const readingState = (timestamp: number, chapterId = 1): BookReadingState => ({
+  currentPosition: { chapterId, blockId: 1, characterOffset: 0 },
+  viewSettings: { fontSize: 24, lineHeight: 2 },
+  timestamp,
+})
+
+const readingStats = (bookId: string, lastReadAt: number) => ({
+  bookId,
+  totalDurationMs: 60_000,
+  speedDurationMs: 60_000,
+  speedCharacters: 500,
+  sessionCount: 1,
+  lastReadAt,
+})
+
+const backupText = (overrides: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: '2024-03-01T00:00:00.000Z',
+    readingState: { version: 2, lastOpenedBookId: null, books: {} },
+    readingAnalytics: { books: {}, dailyDurationMs: {} },
+    swipeSettings: null,
+    uiSettings: null,
+    bookmarks: [],
+    highlights: [],
+    conversations: [],
+    ...overrides,
+  })
+
+const parse = (overrides: Record<string, unknown> = {}) => {
+  const { backup, issues } = parseBackup(backupText(overrides))
+  if (!backup) throw new Error(issues.join('\n'))
+  return { backup, issues }
+}
+
+describe('parseBackup', () => {
+  it('JSON でない・形式やバージョンが違うファイルは読み込まない', () => {
+    expect(parseBackup('{').backup).toBeNull()
+    expect(parseBackup(JSON.stringify({ format: 'other' })).backup).toBeNull()
+    expect(parseBackup(backupText({ version: 2 })).issues).toEqual([
+      '対応していないバージョンです（2）',
+    ])
+  })
+
+  it('不正な項目を取り除き、場所を issues に記録する', () => {
+    const { backup, issues } = parse({
+      bookmarks: [
+        {
+          id: 'b1',
+          bookId: '1',
+          position: { chapterId: 1, blockId: 2, characterOffset: 3 },
+          excerpt: '抜粋',
+          createdAt: '2024-03-01T00:00:00.000Z',
+        },
+        { id: 'b2', bookId: '1', createdAt: 'not a date' },
+      ],
+      uiSettings: { showNavigationButtons: 'yes' },
+    })
+
+    expect(backup.bookmarks.map((bookmark) => bookmark.id)).toEqual(['b1'])
+    expect(backup.bookmarks[0].createdAt).toEqual(new Date('2024-03-01T00:00:00.000Z'))
+    expect(backup.uiSettings).toBeNull()
+    expect(issues).toHaveLength(2)
+  })
+
+  it('読書記録は検証した項目だけを取り込む', () => {
+    const { backup, issues } = parse({
+      readingAnalytics: {
+        books: {
+          1: { ...readingStats('other', 100), injected: '<script>' },
+          2: { totalDurationMs: 'long' },
+        },
+        dailyDurationMs: { '2024-03-01': 60_000, yesterday: 1 },
+      },
+    })
+
+    expect(backup.readingAnalytics).toEqual({
+      books: { 1: readingStats('1', 100) },
+      dailyDurationMs: { '2024-03-01': 60_000 },
+    })
+    expect(issues).toHaveLength(2)
+  })
+
+  it('会話の発言は検証した項目だけを取り込む', () => {
+    const { backup } = parse({
+      conversations: [
+        {
+          id: 'c1',
+          bookId: '1',
+          characterId: '2',
+          createdAt: '2024-03-01T00:00:00.000Z',
+          updatedAt: '2024-03-01T00:00:00.000Z',
+          context: { chapter: 1, injected: true },
+          messages: [
+            {
+              id: 'm1',
+              role: 'assistant',
+              content: 'こんにちは',
+              timestamp: '2024-03-01T00:00:00.000Z',
+              characterId: '2',
+              errorCode: 'no_such_code',
+              quote: { chapterId: 1, blockId: 1, start: 0, end: 2, text: '吾輩' },
+              injected: { nested: true },
+            },
+          ],
+        },
+      ],
+    })
+
+    const [conversation] = backup.conversations
+    expect(conversation.context).toEqual({ chapter: 1 })
+    expect(conversation.messages[0]).toEqual({
+      id: 'm1',
+      role: 'assistant',
+      content: 'こんにちは',
+      timestamp: new Date('2024-03-01T00:00:00.000Z'),
+      characterId: '2',
+      quote: { chapterId: 1, blockId: 1, start: 0, end: 2, text: '吾輩' },
+    })
+    expect(conversation.messages[0]).not.toHaveProperty('injected')
+    expect(conversation.messages[0].errorCode).toBeUndefined()
+  })
+})
+
+describe('planBackupImport', () => {
+  // 端末: 書籍1（新しい）・書籍2（古い）、バックアップ: 書籍1（古い）・書籍2（新しい）・書籍3
+  beforeEach(() => {
+    storage.set(
+      'chavel-reading-state',
+      JSON.stringify({
+        version: 2,
+        lastOpenedBookId: '1',
+        books: { 1: readingState(200), 2: readingState(100) },
+      }),
+    )
+    storage.set('chavel-ui-settings', JSON.stringify({ showNavigationButtons: true }))
+  })
+
+  const incoming = () =>
+    parse({
+      readingState: {
+        version: 2,
+        lastOpenedBookId: '3',
+        books: { 1: readingState(100, 9), 2: readingState(200, 9), 3: readingState(300, 9) },
+      },
+      uiSettings: { showNavigationButtons: false },
+    }).backup
+
+  it('newer: 更新日時の新しい方を残し、日時のない設定は端末を優先する', async () => {
+    const plan = await planBackupImport(incoming(), 'newer')
+
+    expect(plan.summary.readingState).toEqual({ added: 1, updated: 1, skipped: 1 })
+    expect(plan.readingState.books['1'].currentPosition.chapterId).toBe(1)
+    expect(plan.readingState.books['2'].currentPosition.chapterId).toBe(9)
+    expect(plan.readingState.books['3'].currentPosition.chapterId).toBe(9)
+    expect(plan.readingState.lastOpenedBookId).toBe('1')
+    expect(plan.summary.settings).toEqual({ added: 0, updated: 0, skipped: 1 })
+    expect(plan.uiSettings).toEqual({ showNavigationButtons: true })
+  })
+
+  it('backup: バックアップで上書きする', async () => {
+    const plan = await planBackupImport(incoming(), 'backup')
+
+    expect(plan.summary.readingState).toEqual({ added: 1, updated: 2, skipped: 0 })
+    expect(plan.readingState.books['1'].currentPosition.chapterId).toBe(9)
+    expect(plan.summary.settings).toEqual({ added: 0, updated: 1, skipped: 0 })
+    expect(plan.uiSettings).toEqual({ showNavigationButtons: false })
+  })
+
+  it('local: 端末のデータを残し、端末にないものだけを加える', async () => {
+    const plan = await planBackupImport(incoming(), 'local')
+
+    expect(plan.summary.readingState).toEqual({ added: 1, updated: 0, skipped: 2 })
+    expect(plan.readingState.books['2'].currentPosition.chapterId).toBe(1)
+    expect(plan.uiSettings).toEqual({ showNavigationButtons: true })
+  })
+
+  it('日ごとの読書時間は newer では長い方を残す', async () => {
+    storage.set(
+      'chavel-reading-analytics',
+      JSON.stringify({ books: {}, dailyDurationMs: { '2024-03-01': 100, '2024-03-02': 300 } }),
+    )
+    const { backup } = parse({
+      readingAnalytics: {
+        books: {},
+        dailyDurationMs: { '2024-03-01': 200, '2024-03-02': 100, '2024-03-03': 50 },
+      },
+    })
+    const plan = await planBackupImport(backup, 'newer')
+
+    expect(plan.readingAnalytics.dailyDurationMs).toEqual({
+      '2024-03-01': 200,
+      '2024-03-02': 300,
+      '2024-03-03': 50,
+    })
+  })
+
+  it('計画を立てるだけでは端末のデータを変更しない', async () => {
+    const before = new Map(storage)
+    await planBackupImport(incoming(), 'backup')
+    expect(storage).toEqual(before)
+  })
+})
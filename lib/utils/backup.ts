@@ -0,0 +1,624 @@
+/**
+ * リーダーのデータのバックアップ
+ * localStorage と IndexedDB に分かれて保存しているデータを1つのファイルに書き出し、
+ * 読み込み時は検証したうえで、端末のデータとの競合を解決して取り込む
+ */
+
+import type { ChatMessage, ChatQuote } from '@/services/chat-service'
+import type { Bookmark, Highlight, HighlightColor } from '@/types/bookmark'
+import type { Conversation } from '@/types/conversation'
+import { getAllBookmarks, getAllHighlights, saveBookmark, saveHighlight } from './bookmark-store'
+import { isChatErrorCode } from './chat-errors'
+import { getAllConversations, saveConversation } from './conversation-store'
+import {
+  getReadingAnalytics,
+  type ReadingAnalytics,
+  saveReadingAnalytics,
+} from './reading-analytics'
+import {
+  type ContentPosition,
+  type ContentRange,
+  getReadingStateStore,
+  migrateReadingState,
+  type ReadingStateStore,
+  saveReadingStateStore,
+} from './reading-state'
+import {
+  addIssue,
+  isNonEmptyString,
+  isNonNegativeInteger,
+  isPositiveInteger,
+  isRecord,
+  parseList,
+  type UnknownRecord,
+} from './schema-validation'
+
+export const BACKUP_FORMAT = 'chavel-backup'
+export const BACKUP_VERSION = 1
+
+const SWIPE_SETTINGS_KEY = 'chavel-swipe-settings'
+const UI_SETTINGS_KEY = 'chavel-ui-settings'
+
+export interface SwipeSettings {
+  autoCompleteThreshold: number
+  slideStartThreshold: number
+}
+
+export interface UiSettings {
+  showNavigationButtons: boolean
+}
+
+export interface ReaderBackup {
+  format: typeof BACKUP_FORMAT
+  version: typeof BACKUP_VERSION
+  exportedAt: string
+  readingState: ReadingStateStore
+  readingAnalytics: ReadingAnalytics
+  swipeSettings: SwipeSettings | null
+  uiSettings: UiSettings | null
+  bookmarks: Bookmark[]
+  highlights: Highlight[]
+  conversations: Conversation[]
+}
+
+// 端末とバックアップの両方に同じデータがある場合の扱い
+// newer: 更新日時の新しい方（日時のない設定は端末を優先） / backup: バックアップを優先 / local: 端末を優先
+export type ConflictStrategy = 'newer' | 'backup' | 'local'
+
+export interface ImportSummary {
+  added: number
+  updated: number
+  skipped: number // 競合して端末のデータを残したもの
+}
+
+// 取り込みの計画（dry-run の結果）。apply すると書き込む
+export interface ImportPlan {
+  summary: Record<
+    'readingState' | 'readingAnalytics' | 'settings' | 'bookmarks' | 'highlights' | 'conversations',
+    ImportSummary
+  >
+  readingState: ReadingStateStore
+  readingAnalytics: ReadingAnalytics
+  swipeSettings: SwipeSettings | null
+  uiSettings: UiSettings | null
+  bookmarks: Bookmark[]
+  highlights: Highlight[]
+  conversations: Conversation[]
+}
+
+const HIGHLIGHT_COLOR_VALUES: HighlightColor[] = ['yellow', 'green', 'blue', 'pink']
+
+function readJson(key: string): unknown {
+  try {
+    const stored = localStorage.getItem(key)
+    return stored ? JSON.parse(stored) : null
+  } catch (error) {
+    console.warn(`Failed to parse ${key} from localStorage:`, error)
+    return null
+  }
+}
+
+function writeJson(key: string, value: unknown): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(value))
+  } catch (error) {
+    console.warn(`Failed to save ${key} to localStorage:`, error)
+  }
+}
+
+function parseSwipeSettings(value: unknown): SwipeSettings | null {
+  if (
+    !isRecord(value) ||
+    typeof value.autoCompleteThreshold !== 'number' ||
+    typeof value.slideStartThreshold !== 'number'
+  ) {
+    return null
+  }
+  return {
+    autoCompleteThreshold: value.autoCompleteThreshold,
+    slideStartThreshold: value.slideStartThreshold,
+  }
+}
+
+function parseUiSettings(value: unknown): UiSettings | null {
+  if (!isRecord(value) || typeof value.showNavigationButtons !== 'boolean') return null
+  return { showNavigationButtons: value.showNavigationButtons }
+}
+
+/**
+ * 端末に保存されている全てのデータをバックアップにまとめる
+ */
+export async function createBackup(): Promise<ReaderBackup> {
+  const [bookmarks, highlights, conversations] = await Promise.all([
+    getAllBookmarks(),
+    getAllHighlights(),
+    getAllConversations(),
+  ])
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    readingState: getReadingStateStore(),
+    readingAnalytics: getReadingAnalytics(),
+    swipeSettings: parseSwipeSettings(readJson(SWIPE_SETTINGS_KEY)),
+    uiSettings: parseUiSettings(readJson(UI_SETTINGS_KEY)),
+    bookmarks,
+    highlights,
+    conversations,
+  }
+}
+
+// ---- 読み込み時の検証 ----
+
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+function parsePosition(value: unknown): ContentPosition | null {
+  if (
+    !isRecord(value) ||
+    !isPositiveInteger(value.chapterId) ||
+    !isPositiveInteger(value.blockId) ||
+    !isNonNegativeInteger(value.characterOffset)
+  ) {
+    return null
+  }
+  return {
+    chapterId: value.chapterId,
+    blockId: value.blockId,
+    characterOffset: value.characterOffset,
+  }
+}
+
+function parseRange(value: unknown): ContentRange | null {
+  if (!isRecord(value)) return null
+  const start = parsePosition(value.start)
+  const end = parsePosition(value.end)
+  return start && end ? { start, end } : null
+}
+
+// id・bookId と日時の共通部分
+function parseItemBase(
+  value: unknown,
+  path: string,
+  issues: string[],
+  dateKeys: string[],
+): { item: UnknownRecord; dates: Date[] } | null {
+  if (!isRecord(value) || !isNonEmptyString(value.id) || !isNonEmptyString(value.bookId)) {
+    addIssue(issues, path, 'id と bookId を指定してください')
+    return null
+  }
+  const dates = dateKeys.map((key) => parseDate(value[key]))
+  const invalidIndex = dates.findIndex((date) => !date)
+  if (invalidIndex !== -1) {
+    addIssue(issues, `${path}.${dateKeys[invalidIndex]}`, '日時を指定してください')
+    return null
+  }
+  return { item: value, dates: dates as Date[] }
+}
+
+function parseBookmark(value: unknown, path: string, issues: string[]): Bookmark | null {
+  const base = parseItemBase(value, path, issues, ['createdAt'])
+  if (!base) return null
+  const { item, dates } = base
+
+  const position = parsePosition(item.position)
+  if (!position || typeof item.excerpt !== 'string') {
+    addIssue(issues, path, 'position と excerpt を指定してください')
+    return null
+  }
+  return {
+    id: item.id as string,
+    bookId: item.bookId as string,
+    position,
+    chapterTitle: typeof item.chapterTitle === 'string' ? item.chapterTitle : undefined,
+    excerpt: item.excerpt,
+    createdAt: dates[0],
+  }
+}
+
+function parseHighlight(value: unknown, path: string, issues: string[]): Highlight | null {
+  const base = parseItemBase(value, path, issues, ['createdAt', 'updatedAt'])
+  if (!base) return null
+  const { item, dates } = base
+
+  const range = parseRange(item.range)
+  if (
+    !range ||
+    typeof item.text !== 'string' ||
+    !HIGHLIGHT_COLOR_VALUES.includes(item.color as HighlightColor)
+  ) {
+    addIssue(
+      issues,
+      path,
+      `range・text と color（${HIGHLIGHT_COLOR_VALUES.join(' / ')}）を指定してください`,
+    )
+    return null
+  }
+  return {
+    id: item.id as string,
+    bookId: item.bookId as string,
+    range,
+    chapterTitle: typeof item.chapterTitle === 'string' ? item.chapterTitle : undefined,
+    text: item.text,
+    color: item.color as HighlightColor,
+    note: typeof item.note === 'string' ? item.note : undefined,
+    createdAt: dates[0],
+    updatedAt: dates[1],
+  }
+}
+
+// 引用が正しくなければ引用のない発言として取り込む
+function parseQuote(value: unknown): ChatQuote | undefined {
+  if (
+    !isRecord(value) ||
+    !isPositiveInteger(value.chapterId) ||
+    !isPositiveInteger(value.blockId) ||
+    !isNonNegativeInteger(value.start) ||
+    !isNonNegativeInteger(value.end) ||
+    typeof value.text !== 'string'
+  ) {
+    return undefined
+  }
+  return {
+    chapterId: value.chapterId,
+    blockId: value.blockId,
+    start: value.start,
+    end: value.end,
+    text: value.text,
+  }
+}
+
+function parseMessage(value: unknown, path: string, issues: string[]): ChatMessage | null {
+  const timestamp = isRecord(value) ? parseDate(value.timestamp) : null
+  if (
+    !isRecord(value) ||
+    !isNonEmptyString(value.id) ||
+    (value.role !== 'user' && value.role !== 'assistant') ||
+    typeof value.content !== 'string' ||
+    !timestamp
+  ) {
+    addIssue(issues, path, 'id・role・content・timestamp を指定してください')
+    return null
+  }
+  return {
+    id: value.id,
+    role: value.role,
+    content: value.content,
+    timestamp,
+    characterId: typeof value.characterId === 'string' ? value.characterId : undefined,
+    characterName: typeof value.characterName === 'string' ? value.characterName : undefined,
+    errorCode: isChatErrorCode(value.errorCode) ? value.errorCode : undefined,
+    quote: parseQuote(value.quote),
+  }
+}
+
+function parseConversationContext(value: unknown): Conversation['context'] {
+  if (!isRecord(value)) return {}
+  return {
+    chapter: typeof value.chapter === 'number' ? value.chapter : undefined,
+    scene: typeof value.scene === 'string' ? value.scene : undefined,
+    mood: typeof value.mood === 'string' ? value.mood : undefined,
+  }
+}
+
+function parseConversation(value: unknown, path: string, issues: string[]): Conversation | null {
+  const base = parseItemBase(value, path, issues, ['createdAt', 'updatedAt'])
+  if (!base) return null
+  const { item, dates } = base
+
+  if (!isNonEmptyString(item.characterId)) {
+    addIssue(issues, `${path}.characterId`, 'characterId を指定してください')
+    return null
+  }
+  return {
+    id: item.id as string,
+    sessionId: typeof item.sessionId === 'string' ? item.sessionId : '',
+    characterId: item.characterId,
+    bookId: item.bookId as string,
+    messages: parseList(item.messages, `${path}.messages`, issues, parseMessage),
+    context: parseConversationContext(item.context),
+    createdAt: dates[0],
+    updatedAt: dates[1],
+  }
+}
+
+function parseReadingAnalytics(value: unknown, issues: string[]): ReadingAnalytics {
+  const analytics: ReadingAnalytics = { books: {}, dailyDurationMs: {} }
+  if (value === undefined) return analytics
+  if (!isRecord(value) || !isRecord(value.books) || !isRecord(value.dailyDurationMs)) {
+    addIssue(issues, 'readingAnalytics', 'books と dailyDurationMs を指定してください')
+    return analytics
+  }
+
+  for (const [bookId, stats] of Object.entries(value.books)) {
+    if (
+      !isRecord(stats) ||
+      typeof stats.totalDurationMs !== 'number' ||
+      typeof stats.speedDurationMs !== 'number' ||
+      typeof stats.speedCharacters !== 'number' ||
+      typeof stats.sessionCount !== 'number' ||
+      typeof stats.lastReadAt !== 'number'
+    ) {
+      addIssue(issues, `readingAnalytics.books.${bookId}`, '記録の形式が正しくありません')
+      continue
+    }
+    analytics.books[bookId] = {
+      bookId,
+      totalDurationMs: stats.totalDurationMs,
+      speedDurationMs: stats.speedDurationMs,
+      speedCharacters: stats.speedCharacters,
+      sessionCount: stats.sessionCount,
+      lastReadAt: stats.lastReadAt,
+    }
+  }
+  for (const [dateKey, durationMs] of Object.entries(value.dailyDurationMs)) {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(dateKey) && typeof durationMs === 'number') {
+      analytics.dailyDurationMs[dateKey] = durationMs
+    } else {
+      addIssue(
+        issues,
+        `readingAnalytics.dailyDurationMs.${dateKey}`,
+        '日付と時間(ms)を指定してください',
+      )
+    }
+  }
+  return analytics
+}
+
+// 読書位置は端末の保存形式と同じ移行処理を通し、取り除かれた書籍を issues に記録する
+function parseReadingStateStore(value: unknown, issues: string[]): ReadingStateStore {
+  const store = migrateReadingState(value)
+  if (isRecord(value) && isRecord(value.books)) {
+    for (const bookId of Object.keys(value.books)) {
+      if (!store.books[bookId]) {
+        addIssue(issues, `readingState.books.${bookId}`, '読書位置の形式が正しくありません')
+      }
+    }
+  }
+  return store
+}
+
+/**
+ * バックアップファイルの内容を検証
+ * ファイル自体が読めない場合は backup が null。不正な項目は取り除き、issues に記録する
+ */
+export function parseBackup(text: string): { backup: ReaderBackup | null; issues: string[] } {
+  const issues: string[] = []
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { backup: null, issues: ['JSON として読み込めませんでした'] }
+  }
+
+  if (!isRecord(data) || data.format !== BACKUP_FORMAT) {
+    return { backup: null, issues: ['Chavel のバックアップファイルではありません'] }
+  }
+  if (data.version !== BACKUP_VERSION) {
+    return {
+      backup: null,
+      issues: [`対応していないバージョンです（${String(data.version)}）`],
+    }
+  }
+
+  const readingState = parseReadingStateStore(data.readingState, issues)
+  const swipeSettings = parseSwipeSettings(data.swipeSettings)
+  if (data.swipeSettings != null && !swipeSettings) {
+    addIssue(issues, 'swipeSettings', '形式が正しくありません')
+  }
+  const uiSettings = parseUiSettings(data.uiSettings)
+  if (data.uiSettings != null && !uiSettings) {
+    addIssue(issues, 'uiSettings', '形式が正しくありません')
+  }
+
+  return {
+    backup: {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+      readingState,
+      readingAnalytics: parseReadingAnalytics(data.readingAnalytics, issues),
+      swipeSettings,
+      uiSettings,
+      bookmarks: parseList(data.bookmarks, 'bookmarks', issues, parseBookmark),
+      highlights: parseList(data.highlights, 'highlights', issues, parseHighlight),
+      conversations: parseList(data.conversations, 'conversations', issues, parseConversation),
+    },
+    issues,
+  }
+}
+
+// ---- 競合の解決 ----
+
+function createSummary(): ImportSummary {
+  return { added: 0, updated: 0, skipped: 0 }
+}
+
+/**
+ * キーごとに端末とバックアップの値を突き合わせ、取り込む値を決める
+ * @param getTime 更新日時（newer で比較に使う）
+ */
+function mergeByKey<T>(
+  local: Record<string, T>,
+  incoming: Record<string, T>,
+  strategy: ConflictStrategy,
+  getTime: (value: T) => number,
+): { merged: Record<string, T>; writes: T[]; summary: ImportSummary } {
+  const merged = { ...local }
+  const writes: T[] = []
+  const summary = createSummary()
+
+  for (const [key, value] of Object.entries(incoming)) {
+    const existing = local[key]
+    if (existing === undefined) {
+      summary.added++
+    } else if (
+      strategy === 'backup' ||
+      (strategy === 'newer' && getTime(value) > getTime(existing))
+    ) {
+      summary.updated++
+    } else {
+      summary.skipped++
+      continue
+    }
+    merged[key] = value
+    writes.push(value)
+  }
+  return { merged, writes, summary }
+}
+
+function toRecord<T extends { id: string }>(items: T[]): Record<string, T> {
+  return Object.fromEntries(items.map((item) => [item.id, item]))
+}
+
+function mergeItems<T extends { id: string }>(
+  local: T[],
+  incoming: T[],
+  strategy: ConflictStrategy,
+  getTime: (item: T) => number,
+): { writes: T[]; summary: ImportSummary } {
+  const { writes, summary } = mergeByKey(toRecord(local), toRecord(incoming), strategy, getTime)
+  return { writes, summary }
+}
+
+function mergeSettings<T>(
+  local: T | null,
+  incoming: T | null,
+  strategy: ConflictStrategy,
+  summary: ImportSummary,
+): T | null {
+  if (!incoming) return local
+  if (!local) {
+    summary.added++
+    return incoming
+  }
+  if (strategy === 'backup' && JSON.stringify(local) !== JSON.stringify(incoming)) {
+    summary.updated++
+    return incoming
+  }
+  summary.skipped++
+  return local
+}
+
+/**
+ * バックアップを取り込んだ結果を計算（端末のデータはまだ変更しない）
+ */
+export async function planBackupImport(
+  backup: ReaderBackup,
+  strategy: ConflictStrategy,
+): Promise<ImportPlan> {
+  const [localBookmarks, localHighlights, localConversations] = await Promise.all([
+    getAllBookmarks(),
+    getAllHighlights(),
+    getAllConversations(),
+  ])
+  const localReadingState = getReadingStateStore()
+  const localAnalytics = getReadingAnalytics()
+
+  const readingState = mergeByKey(
+    localReadingState.books,
+    backup.readingState.books,
+    strategy,
+    (state) => state.timestamp,
+  )
+  const analyticsBooks = mergeByKey(
+    localAnalytics.books,
+    backup.readingAnalytics.books,
+    strategy,
+    (stats) => stats.lastReadAt,
+  )
+  // 日ごとの読書時間は同じ日の記録を足すと二重に数えるため、長い方を残す（backup / local はその指定に従う）
+  const dailyDurations = mergeByKey(
+    Object.fromEntries(
+      Object.entries(localAnalytics.dailyDurationMs).map(([key, value]) => [key, { value }]),
+    ),
+    Object.fromEntries(
+      Object.entries(backup.readingAnalytics.dailyDurationMs).map(([key, value]) => [
+        key,
+        { value },
+      ]),
+    ),
+    strategy,
+    (entry) => entry.value,
+  )
+
+  const settingsSummary = createSummary()
+  const swipeSettings = mergeSettings(
+    parseSwipeSettings(readJson(SWIPE_SETTINGS_KEY)),
+    backup.swipeSettings,
+    strategy,
+    settingsSummary,
+  )
+  const uiSettings = mergeSettings(
+    parseUiSettings(readJson(UI_SETTINGS_KEY)),
+    backup.uiSettings,
+    strategy,
+    settingsSummary,
+  )
+
+  const bookmarks = mergeItems(localBookmarks, backup.bookmarks, strategy, (bookmark) =>
+    bookmark.createdAt.getTime(),
+  )
+  const highlights = mergeItems(localHighlights, backup.highlights, strategy, (highlight) =>
+    highlight.updatedAt.getTime(),
+  )
+  const conversations = mergeItems(
+    localConversations,
+    backup.conversations,
+    strategy,
+    (conversation) => conversation.updatedAt.getTime(),
+  )
+
+  return {
+    summary: {
+      readingState: readingState.summary,
+      readingAnalytics: analyticsBooks.summary,
+      settings: settingsSummary,
+      bookmarks: bookmarks.summary,
+      highlights: highlights.summary,
+      conversations: conversations.summary,
+    },
+    readingState: { ...localReadingState, books: readingState.merged },
+    readingAnalytics: {
+      books: analyticsBooks.merged,
+      dailyDurationMs: Object.fromEntries(
+        Object.entries(dailyDurations.merged).map(([key, entry]) => [key, entry.value]),
+      ),
+    },
+    swipeSettings,
+    uiSettings,
+    bookmarks: bookmarks.writes,
+    highlights: highlights.writes,
+    conversations: conversations.writes,
+  }
+}
+
+/**
+ * 取り込みの計画を端末に書き込む
+ */
+export async function applyBackupImport(plan: ImportPlan): Promise<void> {
+  saveReadingStateStore(plan.readingState)
+  saveReadingAnalytics(plan.readingAnalytics)
+  if (plan.swipeSettings) writeJson(SWIPE_SETTINGS_KEY, plan.swipeSettings)
+  if (plan.uiSettings) writeJson(UI_SETTINGS_KEY, plan.uiSettings)
+
+  await Promise.all([
+    ...plan.bookmarks.map(saveBookmark),
+    ...plan.highlights.map(saveHighlight),
+    ...plan.conversations.map(saveConversation),
+  ])
+}
+
+/**
+ * 取り込む件数の合計（プレビューの表示用）
+ */
+export function countPlannedChanges(plan: ImportPlan): number {
+  return Object.values(plan.summary).reduce(
+    (sum, summary) => sum + summary.added + summary.updated,
+    0,
+  )
+}
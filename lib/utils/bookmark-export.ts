@@ -0,0 +1,99 @@
+/**
+ * しおり・ハイライトの書き出し
+ * 書籍ごとのしおりとハイライトを JSON・Markdown に変換してダウンロードする
+ */
+
+import { HIGHLIGHT_COLORS } from '@/lib/highlight-colors'
+import type { Bookmark, Highlight } from '@/types/bookmark'
+
+export interface BookmarkExportSource {
+  book: { id: string; title: string; author: string }
+  bookmarks: Bookmark[]
+  highlights: Highlight[]
+}
+
+/**
+ * 読み込み直せる形の JSON に変換
+ */
+export function exportBookmarksAsJson({
+  book,
+  bookmarks,
+  highlights,
+}: BookmarkExportSource): string {
+  return JSON.stringify(
+    {
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      book,
+      bookmarks,
+      highlights,
+    },
+    null,
+    2,
+  )
+}
+
+// 本文を Markdown の引用にする（改行ごとに > を付ける）
+function toQuote(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => `> ${line}`)
+    .join('\n')
+}
+
+// ハイライトを章ごとの見出しの下に引用として並べる
+function highlightsToMarkdown(highlights: Highlight[]): string[] {
+  const lines: string[] = []
+  let chapterTitle: string | undefined
+  for (const highlight of highlights) {
+    if (highlight.chapterTitle && highlight.chapterTitle !== chapterTitle) {
+      chapterTitle = highlight.chapterTitle
+      lines.push(`### ${chapterTitle}`, '')
+    }
+    lines.push(toQuote(highlight.text), '')
+    lines.push(`- 色: ${HIGHLIGHT_COLORS[highlight.color].label}`)
+    if (highlight.note) {
+      lines.push(`- メモ: ${highlight.note}`)
+    }
+    lines.push('')
+  }
+  return lines
+}
+
+/**
+ * 読み返し用の Markdown に変換（ハイライトは本文の出現順に章ごとにまとめる）
+ */
+export function exportBookmarksAsMarkdown({
+  book,
+  bookmarks,
+  highlights,
+}: BookmarkExportSource): string {
+  const lines = [`# ${book.title}`, '', `${book.author}`, '']
+
+  if (highlights.length > 0) {
+    lines.push('## ハイライト', '', ...highlightsToMarkdown(highlights))
+  }
+
+  if (bookmarks.length > 0) {
+    lines.push('## しおり', '')
+    for (const bookmark of bookmarks) {
+      const title = bookmark.chapterTitle ? `${bookmark.chapterTitle}: ` : ''
+      lines.push(`- ${title}${bookmark.excerpt}`)
+    }
+    lines.push('')
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * 文字列をファイルとしてダウンロード
+ */
+export function downloadTextFile(content: string, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
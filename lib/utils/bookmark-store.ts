@@ -0,0 +1,173 @@
+/**
+ * しおり・ハイライトの永続化ユーティリティ
+ * IndexedDB に書籍ごとのしおりとハイライトを保存する
+ */
+
+import type { Bookmark, Highlight } from '@/types/bookmark'
+
+const DB_NAME = 'chavel-bookmarks'
+const DB_VERSION = 1
+const BOOKMARK_STORE = 'bookmarks'
+const HIGHLIGHT_STORE = 'highlights'
+const BOOK_INDEX = 'bookId'
+
+type StoreName = typeof BOOKMARK_STORE | typeof HIGHLIGHT_STORE
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+/**
+ * データベースを開く（バージョンごとにスキーマを移行）
+ */
+function openBookmarkDB(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result
+
+      // v1: しおりとハイライトのストア、それぞれに書籍IDのインデックスを作成
+      if (event.oldVersion < 1) {
+        db.createObjectStore(BOOKMARK_STORE, { keyPath: 'id' }).createIndex(BOOK_INDEX, 'bookId')
+        db.createObjectStore(HIGHLIGHT_STORE, { keyPath: 'id' }).createIndex(BOOK_INDEX, 'bookId')
+      }
+    }
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+
+  return dbPromise
+}
+
+/**
+ * IDBRequest を Promise に変換
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function isIndexedDBAvailable(): boolean {
+  return typeof window !== 'undefined' && !!window.indexedDB
+}
+
+/**
+ * しおり・ハイライトのIDを発行
+ */
+export function createBookmarkId(): string {
+  return `${Date.now()}_${Math.random().toString(36).slice(2, 10)}`
+}
+
+async function getAllByBook<T>(storeName: StoreName, bookId: string): Promise<T[]> {
+  if (!isIndexedDBAvailable()) return []
+
+  try {
+    const db = await openBookmarkDB()
+    const index = db.transaction(storeName, 'readonly').objectStore(storeName).index(BOOK_INDEX)
+    return await promisifyRequest<T[]>(index.getAll(bookId))
+  } catch (error) {
+    console.warn(`Failed to load ${storeName} from IndexedDB:`, error)
+    return []
+  }
+}
+
+async function getAllItems<T>(storeName: StoreName): Promise<T[]> {
+  if (!isIndexedDBAvailable()) return []
+
+  try {
+    const db = await openBookmarkDB()
+    return await promisifyRequest<T[]>(
+      db.transaction(storeName, 'readonly').objectStore(storeName).getAll(),
+    )
+  } catch (error) {
+    console.warn(`Failed to load ${storeName} from IndexedDB:`, error)
+    return []
+  }
+}
+
+async function putItem(storeName: StoreName, item: Bookmark | Highlight): Promise<void> {
+  if (!isIndexedDBAvailable()) return
+
+  try {
+    const db = await openBookmarkDB()
+    const store = db.transaction(storeName, 'readwrite').objectStore(storeName)
+    await promisifyRequest(store.put(item))
+  } catch (error) {
+    console.warn(`Failed to save ${storeName} to IndexedDB:`, error)
+  }
+}
+
+async function deleteItem(storeName: StoreName, id: string): Promise<void> {
+  if (!isIndexedDBAvailable()) return
+
+  try {
+    const db = await openBookmarkDB()
+    const store = db.transaction(storeName, 'readwrite').objectStore(storeName)
+    await promisifyRequest(store.delete(id))
+  } catch (error) {
+    console.warn(`Failed to delete ${storeName} from IndexedDB:`, error)
+  }
+}
+
+/**
+ * 書籍のしおり一覧を取得
+ */
+export function getBookmarks(bookId: string): Promise<Bookmark[]> {
+  return getAllByBook<Bookmark>(BOOKMARK_STORE, bookId)
+}
+
+/**
+ * 全ての書籍のしおりを取得（バックアップ用）
+ */
+export function getAllBookmarks(): Promise<Bookmark[]> {
+  return getAllItems<Bookmark>(BOOKMARK_STORE)
+}
+
+/**
+ * しおりを保存（同じIDがあれば上書き）
+ */
+export function saveBookmark(bookmark: Bookmark): Promise<void> {
+  return putItem(BOOKMARK_STORE, bookmark)
+}
+
+/**
+ * しおりを削除
+ */
+export function deleteBookmark(bookmarkId: string): Promise<void> {
+  return deleteItem(BOOKMARK_STORE, bookmarkId)
+}
+
+/**
+ * 書籍のハイライト一覧を取得
+ */
+export function getHighlights(bookId: string): Promise<Highlight[]> {
+  return getAllByBook<Highlight>(HIGHLIGHT_STORE, bookId)
+}
+
+/**
+ * 全ての書籍のハイライトを取得（バックアップ用）
+ */
+export function getAllHighlights(): Promise<Highlight[]> {
+  return getAllItems<Highlight>(HIGHLIGHT_STORE)
+}
+
+/**
+ * ハイライトを保存（同じIDがあれば上書き）
+ */
+export function saveHighlight(highlight: Highlight): Promise<void> {
+  return putItem(HIGHLIGHT_STORE, highlight)
+}
+
+/**
+ * ハイライトを削除
+ */
+export function deleteHighlight(highlightId: string): Promise<void> {
+  return deleteItem(HIGHLIGHT_STORE, highlightId)
+}
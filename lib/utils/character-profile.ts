@@ -0,0 +1,143 @@
+/**
+ * 登場人物のプロフィール表示用ユーティリティ
+ * 読者の現在位置までに本文で明かされた情報だけを取り出す
+ */
+
+import type { Character, CharacterTextPosition, RevealedFact } from '@/types/character'
+import { isRevealed, toContentPosition } from './content-visibility'
+import type { ContentPosition } from './reading-state'
+
+export interface RevealedRelationship {
+  character: Character
+  type: string
+  description: string
+}
+
+/**
+ * 現在位置までに明かされたプロフィール（未公開の項目は含まない）
+ */
+export interface RevealedCharacterProfile {
+  character: Character
+  age?: number
+  gender?: string
+  occupation?: string
+  description?: string
+  personality: string[]
+  background: string[]
+  relationships: RevealedRelationship[]
+  tone?: string
+  catchphrases: string[]
+}
+
+export interface RelationshipEdge {
+  sourceId: number
+  targetId: number
+  type: string
+}
+
+/**
+ * 登場人物データの位置が読者の現在位置までに含まれるか
+ */
+function isReached(target: CharacterTextPosition, position?: ContentPosition): boolean {
+  return isRevealed(toContentPosition(target), position)
+}
+
+/**
+ * 情報が明かされているか（公開位置の指定がなければ登場時点で公開）
+ */
+function isFactRevealed(
+  character: Character,
+  revealedAt: CharacterTextPosition | undefined,
+  position?: ContentPosition,
+) {
+  return isReached(revealedAt ?? character.appearance, position)
+}
+
+function revealedTexts(
+  character: Character,
+  facts: RevealedFact[],
+  position?: ContentPosition,
+): string[] {
+  return facts
+    .filter((fact) => isFactRevealed(character, fact.revealedAt, position))
+    .map((fact) => fact.text)
+}
+
+/**
+ * 現在位置までに登場しているキャラクター
+ */
+export function getAppearedCharacters(
+  characters: Character[],
+  position?: ContentPosition,
+): Character[] {
+  return characters.filter((character) => isReached(character.appearance, position))
+}
+
+/**
+ * 現在位置までに明かされた関係（相手が未登場の関係は含まない）
+ */
+function getRevealedRelationships(
+  character: Character,
+  characters: Character[],
+  position?: ContentPosition,
+): RevealedRelationship[] {
+  return (character.profile?.relationships ?? []).flatMap((relationship) => {
+    const target = characters.find((candidate) => candidate.id === relationship.characterId)
+    if (!target || !isReached(target.appearance, position)) return []
+    if (!isFactRevealed(character, relationship.revealedAt, position)) return []
+    return [{ character: target, type: relationship.type, description: relationship.description }]
+  })
+}
+
+/**
+ * 現在位置までに明かされたプロフィールを取得
+ * @param characters 関係の相手を引くための書籍の全キャラクター
+ */
+export function getRevealedProfile(
+  character: Character,
+  characters: Character[],
+  position?: ContentPosition,
+): RevealedCharacterProfile {
+  const { profile, dialogueStyle } = character
+  const occupation = profile?.occupation
+
+  return {
+    character,
+    age: profile?.age,
+    gender: profile?.gender,
+    occupation:
+      occupation && isFactRevealed(character, occupation.revealedAt, position)
+        ? occupation.text
+        : undefined,
+    description: profile?.description,
+    personality: revealedTexts(character, profile?.personality ?? [], position),
+    background: revealedTexts(character, profile?.background ?? [], position),
+    relationships: getRevealedRelationships(character, characters, position),
+    tone: dialogueStyle?.tone,
+    catchphrases: revealedTexts(character, dialogueStyle?.catchphrases ?? [], position),
+  }
+}
+
+/**
+ * 人物相関図の辺を取得（双方向に定義された関係は1本にまとめる）
+ */
+export function getRelationshipEdges(
+  characters: Character[],
+  position?: ContentPosition,
+): RelationshipEdge[] {
+  const edges: RelationshipEdge[] = []
+
+  for (const character of getAppearedCharacters(characters, position)) {
+    for (const relationship of getRevealedRelationships(character, characters, position)) {
+      const targetId = relationship.character.id
+      const isDuplicate = edges.some(
+        (edge) => edge.sourceId === targetId && edge.targetId === character.id,
+      )
+      if (!isDuplicate) {
+        edges.push({ sourceId: character.id, targetId, type: relationship.type })
+      }
+    }
+  }
+
+  return edges
+}
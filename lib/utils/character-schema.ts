@@ -0,0 +1,221 @@
+/**
+ * 登場人物データの検証
+ * `<key>.characters.json` を読み込み時に検証し、不正な項目は警告を出して取り除く
+ * id・名前・初登場位置が不正なキャラクターは除外し、プロフィールなどの付加情報は項目単位で除外する
+ */
+
+import type {
+  Character,
+  CharacterProfile,
+  CharacterTextPosition,
+  DialogueStyle,
+  Relationship,
+  RevealedFact,
+} from '@/types/character'
+import {
+  addIssue,
+  isNonEmptyString,
+  isNonNegativeInteger,
+  isPositiveInteger,
+  isRecord,
+  parseList,
+} from './schema-validation'
+
+function parseTextPosition(
+  value: unknown,
+  path: string,
+  issues: string[],
+): CharacterTextPosition | null {
+  if (!isRecord(value) || !isPositiveInteger(value.chapter) || !isPositiveInteger(value.block)) {
+    addIssue(issues, path, 'chapter と block は1以上の整数で指定してください')
+    return null
+  }
+
+  const { characterOffset } = value
+  if (characterOffset === undefined) {
+    return { chapter: value.chapter, block: value.block }
+  }
+  if (!isNonNegativeInteger(characterOffset)) {
+    addIssue(issues, `${path}.characterOffset`, '0以上の整数で指定してください')
+    return null
+  }
+  return { chapter: value.chapter, block: value.block, characterOffset }
+}
+
+/**
+ * 省略可能な公開位置を検証（不正な場合は undefined ではなく null を返して項目ごと除外させる）
+ */
+function parseRevealedAt(
+  value: unknown,
+  path: string,
+  issues: string[],
+): CharacterTextPosition | undefined | null {
+  return value === undefined ? undefined : parseTextPosition(value, path, issues)
+}
+
+function parseRevealedFact(value: unknown, path: string, issues: string[]): RevealedFact | null {
+  if (!isRecord(value) || !isNonEmptyString(value.text)) {
+    addIssue(issues, path, 'text を指定してください')
+    return null
+  }
+
+  const revealedAt = parseRevealedAt(value.revealedAt, `${path}.revealedAt`, issues)
+  if (revealedAt === null) return null
+  return revealedAt ? { text: value.text, revealedAt } : { text: value.text }
+}
+
+function parseRelationship(value: unknown, path: string, issues: string[]): Relationship | null {
+  if (
+    !isRecord(value) ||
+    !isPositiveInteger(value.characterId) ||
+    !isNonEmptyString(value.type) ||
+    !isNonEmptyString(value.description)
+  ) {
+    addIssue(issues, path, 'characterId・type・description を指定してください')
+    return null
+  }
+
+  const revealedAt = parseRevealedAt(value.revealedAt, `${path}.revealedAt`, issues)
+  if (revealedAt === null) return null
+
+  const relationship: Relationship = {
+    characterId: value.characterId,
+    type: value.type,
+    description: value.description,
+  }
+  return revealedAt ? { ...relationship, revealedAt } : relationship
+}
+
+function parseProfile(
+  value: unknown,
+  path: string,
+  issues: string[],
+): CharacterProfile | undefined {
+  if (value === undefined) return undefined
+  if (!isRecord(value) || !isNonEmptyString(value.description)) {
+    addIssue(issues, path, 'description を指定してください')
+    return undefined
+  }
+
+  const profile: CharacterProfile = {
+    description: value.description,
+    personality: parseList(value.personality, `${path}.personality`, issues, parseRevealedFact),
+    background: parseList(value.background, `${path}.background`, issues, parseRevealedFact),
+    relationships: parseList(
+      value.relationships,
+      `${path}.relationships`,
+      issues,
+      parseRelationship,
+    ),
+  }
+
+  if (isPositiveInteger(value.age)) {
+    profile.age = value.age
+  } else if (value.age !== undefined) {
+    addIssue(issues, `${path}.age`, '1以上の整数で指定してください')
+  }
+  if (isNonEmptyString(value.gender)) {
+    profile.gender = value.gender
+  }
+  const occupation =
+    value.occupation === undefined
+      ? null
+      : parseRevealedFact(value.occupation, `${path}.occupation`, issues)
+  if (occupation) {
+    profile.occupation = occupation
+  }
+  return profile
+}
+
+function parseDialogueStyle(
+  value: unknown,
+  path: string,
+  issues: string[],
+): DialogueStyle | undefined {
+  if (value === undefined) return undefined
+  if (!isRecord(value) || !isNonEmptyString(value.tone)) {
+    addIssue(issues, path, 'tone を指定してください')
+    return undefined
+  }
+
+  return {
+    tone: value.tone,
+    vocabulary: parseList(value.vocabulary, `${path}.vocabulary`, issues, (item, itemPath) => {
+      if (isNonEmptyString(item)) return item
+      addIssue(issues, itemPath, '文字列で指定してください')
+      return null
+    }),
+    catchphrases: parseList(value.catchphrases, `${path}.catchphrases`, issues, parseRevealedFact),
+  }
+}
+
+function parseCharacter(value: unknown, path: string, issues: string[]): Character | null {
+  if (!isRecord(value) || !isPositiveInteger(value.id) || !isNonEmptyString(value.name)) {
+    addIssue(issues, path, 'id と name を指定してください')
+    return null
+  }
+
+  const appearance = parseTextPosition(value.appearance, `${path}.appearance`, issues)
+  if (!appearance) return null
+
+  const character: Character = { id: value.id, name: value.name, appearance }
+  const profile = parseProfile(value.profile, `${path}.profile`, issues)
+  const dialogueStyle = parseDialogueStyle(value.dialogueStyle, `${path}.dialogueStyle`, issues)
+  if (profile) character.profile = profile
+  if (dialogueStyle) character.dialogueStyle = dialogueStyle
+  return character
+}
+
+/**
+ * 存在しないキャラクターを指す関係・自分自身への関係を除外
+ */
+function removeDanglingRelationships(characters: Character[], issues: string[]): void {
+  const ids = new Set(characters.map((character) => character.id))
+
+  for (const character of characters) {
+    const { profile } = character
+    if (!profile) continue
+
+    profile.relationships = profile.relationships.filter((relationship) => {
+      const isValid = ids.has(relationship.characterId) && relationship.characterId !== character.id
+      if (!isValid) {
+        addIssue(
+          issues,
+          `characters(id=${character.id}).profile.relationships`,
+          `characterId ${relationship.characterId} は参照できません`,
+        )
+      }
+      return isValid
+    })
+  }
+}
+
+/**
+ * 登場人物ファイルの内容を検証して Character の配列に変換
+ * @param source 警告に表示するファイル名
+ */
+export function parseBookCharacters(data: unknown, source = 'characters.json'): Character[] {
+  const issues: string[] = []
+  const characters: Character[] = []
+
+  if (!isRecord(data) || !Array.isArray(data.characters)) {
+    addIssue(issues, 'characters', '配列で指定してください')
+  } else {
+    data.characters.forEach((entry, index) => {
+      const character = parseCharacter(entry, `characters[${index}]`, issues)
+      if (!character) return
+
+      if (characters.some((existing) => existing.id === character.id)) {
+        addIssue(issues, `characters[${index}].id`, `id ${character.id} が重複しています`)
+        return
+      }
+      characters.push(character)
+    })
+    removeDanglingRelationships(characters, issues)
+  }
+
+  if (issues.length > 0) {
+    console.warn(`Invalid character data in ${source}:\n${issues.join('\n')}`)
+  }
+  return characters
+}
@@ -0,0 +1,94 @@
+/**
+ * /api/chat のエラー
+ * HTTP のエラー応答は `{ error: { code, message, retryable } }` の形に揃え、クライアントは code で表示を切り替える
+ */
+
+import { isRecord } from './schema-validation'
+
+// invalid_request: リクエストの形式が不正 / unknown_book・unknown_character: 存在しない書籍・キャラクター
+// rate_limited: 上流に問い合わせが多すぎると断られた / upstream_timeout: 上流の応答が制限時間内に届かなかった
+// upstream_unavailable: 上流に接続できない（遮断中を含む） / upstream_error: 上流がエラーを返した・応答の途中で失敗した
+// spoiler_blocked: 読者の現在位置より先の内容に触れる応答をブロックした
+// network_error: クライアントから /api/chat に接続できなかった（クライアント側でのみ使用）
+export type ChatErrorCode =
+  | 'invalid_request'
+  | 'unknown_book'
+  | 'unknown_character'
+  | 'rate_limited'
+  | 'upstream_timeout'
+  | 'upstream_unavailable'
+  | 'upstream_error'
+  | 'spoiler_blocked'
+  | 'network_error'
+
+export interface ChatError {
+  code: ChatErrorCode
+  message: string
+  retryable: boolean // 同じ質問を送り直せば成功する見込みがあるか
+}
+
+export interface ChatErrorBody {
+  error: ChatError
+}
+
+const CHAT_ERROR_CODES: ChatErrorCode[] = [
+  'invalid_request',
+  'unknown_book',
+  'unknown_character',
+  'rate_limited',
+  'upstream_timeout',
+  'upstream_unavailable',
+  'upstream_error',
+  'spoiler_blocked',
+  'network_error',
+]
+
+const RETRYABLE_CODES: ReadonlySet<ChatErrorCode> = new Set([
+  'rate_limited',
+  'upstream_timeout',
+  'upstream_unavailable',
+  'upstream_error',
+  'network_error',
+])
+
+// エラーコードごとの HTTP ステータス
+export const CHAT_ERROR_STATUS: Record<ChatErrorCode, number> = {
+  invalid_request: 400,
+  unknown_book: 404,
+  unknown_character: 404,
+  rate_limited: 429,
+  upstream_timeout: 504,
+  upstream_unavailable: 503,
+  upstream_error: 502,
+  spoiler_blocked: 422,
+  network_error: 503,
+}
+
+export function isChatErrorCode(value: unknown): value is ChatErrorCode {
+  return CHAT_ERROR_CODES.includes(value as ChatErrorCode)
+}
+
+export function isRetryableChatError(code: ChatErrorCode): boolean {
+  return RETRYABLE_CODES.has(code)
+}
+
+/**
+ * エラー応答の本文を作成
+ */
+export function createChatErrorBody(code: ChatErrorCode, message: string): ChatErrorBody {
+  return { error: { code, message, retryable: isRetryableChatError(code) } }
+}
+
+/**
+ * エラー応答の本文を読み取る（形式が異なる場合は null）
+ */
+export function parseChatErrorBody(value: unknown): ChatError | null {
+  if (!isRecord(value) || !isRecord(value.error)) return null
+  const { code, message } = value.error
+  if (!isChatErrorCode(code)) return null
+  return {
+    code,
+    message: typeof message === 'string' ? message : '',
+    retryable: isRetryableChatError(code),
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * チャットに添える本文の引用
+ * 本文上の選択範囲を、質問とともに送るブロック本文上の範囲に変換する
+ */
+
+import type { ContentRange } from '@/lib/utils/reading-state'
+import type { ChatQuote } from '@/services/chat-service'
+import type { BookData } from '@/types/book'
+
+// 引用として送る最大文字数
+const MAX_QUOTE_LENGTH = 200
+
+/**
+ * 選択範囲を引用に変換（ブロックをまたぐ場合は最初のブロック内に収める）
+ */
+export function createChatQuote(bookData: BookData, range: ContentRange): ChatQuote | null {
+  const { chapterId, blockId, characterOffset: start } = range.start
+  const block = bookData.content.chapters
+    .find((chapter) => chapter.id === chapterId)
+    ?.blocks.find((b) => b.id === blockId)
+  if (!block) return null
+
+  const isSameBlock = range.end.chapterId === chapterId && range.end.blockId === blockId
+  const end = Math.min(
+    isSameBlock ? range.end.characterOffset : block.text.length,
+    start + MAX_QUOTE_LENGTH,
+  )
+  const text = block.text.slice(start, end)
+  if (!text.trim()) return null
+
+  return { chapterId, blockId, start, end, text }
+}
@@ -0,0 +1,161 @@
+/**
+ * /api/chat のリクエストの検証
+ * 形式が不正な項目が1つでもあれば、上流には問い合わせずにリクエスト全体を拒否する
+ * 書籍・キャラクターが存在するかは、データを読み込むルート側で確かめる
+ */
+
+import {
+  addIssue,
+  isNonEmptyString,
+  isNonNegativeInteger,
+  isPositiveInteger,
+  isRecord,
+  parseList,
+} from './schema-validation'
+
+// 質問の最大文字数
+export const MAX_QUESTION_LENGTH = 1000
+// 会話履歴として送る最大件数（クライアントは直近の発言だけを送る）
+export const MAX_HISTORY_LENGTH = 50
+// 会話履歴の1件あたりの最大文字数（クライアントは長い発言の末尾を切り詰めて送る）
+export const MAX_HISTORY_MESSAGE_LENGTH = 4000
+// 引用の最大文字数（chat-quote で切り詰める長さに余裕を持たせる）
+const MAX_QUOTE_TEXT_LENGTH = 1000
+
+export interface ChatRequest {
+  book_id: string
+  character_id: number | null
+  // グループ会話で招待したキャラクター（キャラクターごとに上流へ問い合わせる）
+  character_ids?: number[]
+  pos: number
+  question: string
+  // 読者が選択した本文の引用（ブロック本文上の範囲）。そのまま上流に渡す
+  quote?: {
+    chapterId: number
+    blockId: number
+    start: number
+    end: number
+    text: string
+  }
+  history: {
+    character_id: number // ユーザーの発言は0
+    message: string
+  }[]
+}
+
+function parseQuote(value: unknown, issues: string[]): ChatRequest['quote'] | null {
+  if (
+    !isRecord(value) ||
+    !isPositiveInteger(value.chapterId) ||
+    !isPositiveInteger(value.blockId) ||
+    !isNonNegativeInteger(value.start) ||
+    !isNonNegativeInteger(value.end) ||
+    value.start >= value.end
+  ) {
+    addIssue(issues, 'quote', 'chapterId・blockId と start < end の範囲を指定してください')
+    return null
+  }
+  if (!isNonEmptyString(value.text) || value.text.length > MAX_QUOTE_TEXT_LENGTH) {
+    addIssue(issues, 'quote.text', `1〜${MAX_QUOTE_TEXT_LENGTH}文字で指定してください`)
+    return null
+  }
+  return {
+    chapterId: value.chapterId,
+    blockId: value.blockId,
+    start: value.start,
+    end: value.end,
+    text: value.text,
+  }
+}
+
+function parseHistoryItem(
+  value: unknown,
+  path: string,
+  issues: string[],
+): ChatRequest['history'][number] | null {
+  if (
+    !isRecord(value) ||
+    !isNonNegativeInteger(value.character_id) ||
+    typeof value.message !== 'string' ||
+    value.message.length > MAX_HISTORY_MESSAGE_LENGTH
+  ) {
+    addIssue(
+      issues,
+      path,
+      `character_id（0以上の整数）と${MAX_HISTORY_MESSAGE_LENGTH}文字以内の message を指定してください`,
+    )
+    return null
+  }
+  return { character_id: value.character_id, message: value.message }
+}
+
+function parseCharacterIds(value: unknown, issues: string[]): number[] | undefined | null {
+  if (value === undefined) return undefined
+  if (!Array.isArray(value) || !value.every(isPositiveInteger)) {
+    addIssue(issues, 'character_ids', '1以上の整数の配列で指定してください')
+    return null
+  }
+  return [...new Set(value)]
+}
+
+function parseHistory(value: unknown, issues: string[]): ChatRequest['history'] {
+  if (!Array.isArray(value)) {
+    addIssue(issues, 'history', '配列で指定してください')
+    return []
+  }
+  if (value.length > MAX_HISTORY_LENGTH) {
+    addIssue(issues, 'history', `${MAX_HISTORY_LENGTH}件以内で指定してください`)
+    return []
+  }
+  return parseList(value, 'history', issues, parseHistoryItem)
+}
+
+/**
+ * リクエストの本文を検証（不正な場合は request が null で、issues に理由が入る）
+ */
+export function parseChatRequest(data: unknown): {
+  request: ChatRequest | null
+  issues: string[]
+} {
+  const issues: string[] = []
+  if (!isRecord(data)) {
+    return { request: null, issues: ['オブジェクトで指定してください'] }
+  }
+
+  if (!isNonEmptyString(data.book_id)) {
+    addIssue(issues, 'book_id', '書籍IDを指定してください')
+  }
+  if (typeof data.question !== 'string' || !data.question.trim()) {
+    addIssue(issues, 'question', '質問を入力してください')
+  } else if (data.question.length > MAX_QUESTION_LENGTH) {
+    addIssue(issues, 'question', `${MAX_QUESTION_LENGTH}文字以内で入力してください`)
+  }
+  if (!isNonNegativeInteger(data.pos)) {
+    addIssue(issues, 'pos', '0以上の整数で指定してください')
+  }
+
+  const characterIds = parseCharacterIds(data.character_ids, issues)
+  const isGroup = !!characterIds && characterIds.length > 0
+  if (!isGroup && !isPositiveInteger(data.character_id)) {
+    addIssue(issues, 'character_id', '1以上の整数で指定してください')
+  }
+
+  const quote = data.quote === undefined ? undefined : parseQuote(data.quote, issues)
+  const history = parseHistory(data.history, issues)
+
+  if (issues.length > 0) {
+    return { request: null, issues }
+  }
+  return {
+    request: {
+      book_id: data.book_id as string,
+      character_id: isGroup ? null : (data.character_id as number),
+      ...(isGroup ? { character_ids: characterIds } : {}),
+      pos: data.pos as number,
+      question: data.question as string,
+      ...(quote ? { quote } : {}),
+      history,
+    },
+    issues,
+  }
+}
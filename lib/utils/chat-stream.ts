@@ -0,0 +1,73 @@
+/**
+ * チャット応答ストリームのユーティリティ
+ * /api/chat とクライアント間は NDJSON（1行1イベント）で応答を逐次送る
+ */
+
+import type { ChatErrorCode } from './chat-errors'
+
+// 応答の途中で起きるエラー（各コードの意味は chat-errors を参照）
+export type ChatStreamErrorCode = Extract<ChatErrorCode, 'spoiler_blocked' | 'upstream_error'>
+
+export type ChatStreamEvent =
+  | { type: 'answer'; text: string; characterId?: number } // characterId: グループ会話で応答したキャラクター
+  | { type: 'error'; error: string; code: ChatStreamErrorCode }
+  | { type: 'done' }
+
+export const CHAT_STREAM_CONTENT_TYPE = 'application/x-ndjson; charset=utf-8'
+
+/**
+ * イベントを NDJSON の1行にエンコード
+ */
+export function encodeChatStreamEvent(event: ChatStreamEvent): string {
+  return `${JSON.stringify(event)}\n`
+}
+
+/**
+ * バイトストリームを行単位で読み出す（チャンク境界をまたぐ行も復元）
+ */
+export async function* readLines(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<string, void, unknown> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      let newlineIndex = buffer.indexOf('\n')
+      while (newlineIndex !== -1) {
+        yield buffer.slice(0, newlineIndex).replace(/\r$/, '')
+        buffer = buffer.slice(newlineIndex + 1)
+        newlineIndex = buffer.indexOf('\n')
+      }
+    }
+
+    buffer += decoder.decode()
+    if (buffer) {
+      yield buffer.replace(/\r$/, '')
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/**
+ * /api/chat のストリーム応答をイベント単位で読み出す
+ */
+export async function* readChatStream(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<ChatStreamEvent, void, unknown> {
+  for await (const line of readLines(body)) {
+    if (!line.trim()) continue
+
+    try {
+      yield JSON.parse(line) as ChatStreamEvent
+    } catch {
+      console.warn('Invalid chat stream line:', line)
+    }
+  }
+}
@@ -0,0 +1,265 @@
+import { once } from 'node:events'
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import {
+  ChatUpstreamClient,
+  type ChatUpstreamConfig,
+  ChatUpstreamError,
+  CircuitBreaker,
+  getChatUpstreamConfig,
+  getRetryDelayMs,
+} from './chat-upstream'
+
+type StubHandler = (request: IncomingMessage, response: ServerResponse) => void
+
+// 上流のスタブサーバー（テストごとに応答を差し替える）
+let server: Server
+let baseUrl: string
+let handler: StubHandler
+let received: IncomingMessage[]
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    received.push(request)
+    handler(request, response)
+  })
+  server.listen(0, '127.0.0.1')
+  await once(server, 'listening')
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  server.closeAllConnections()
+  server.close()
+  await once(server, 'close')
+})
+
+beforeEach(() => {
+  received = []
+  handler = (_request, response) => response.end('{}')
+})
+
+function createClient(overrides: Partial<ChatUpstreamConfig> = {}): ChatUpstreamClient {
+  return new ChatUpstreamClient({
+    ...getChatUpstreamConfig({ EXTERNAL_API_URL: baseUrl }),
+    retryBaseDelayMs: 1,
+    retryMaxDelayMs: 1,
+    ...overrides,
+  })
+}
+
+// 指定した順にステータスを返す（使い切ったら最後のステータスを返し続ける）
+function respondWith(...statuses: number[]): StubHandler {
+  let index = 0
+  return (_request, response) => {
+    response.statusCode = statuses[Math.min(index++, statuses.length - 1)]
+    response.end('{}')
+  }
+}
+
+async function sendExpectingError(client: ChatUpstreamClient): Promise<ChatUpstreamError> {
+  const error = await client.send({}, new AbortController().signal).catch((e: unknown) => e)
+  expect(error).toBeInstanceOf(ChatUpstreamError)
+  return error as ChatUpstreamError
+}
+
+describe('getChatUpstreamConfig', () => {
+  it('環境変数を読み込み、不正な値は既定値にする', () => {
+    const config = getChatUpstreamConfig({
+      EXTERNAL_API_URL: 'https://example.com/api/',
+      EXTERNAL_API_KEY: 'secret',
+      EXTERNAL_API_TIMEOUT_MS: 'abc',
+      EXTERNAL_API_MAX_RETRIES: '0',
+    })
+    expect(config.baseUrl).toBe('https://example.com/api')
+    expect(config.apiKey).toBe('secret')
+    expect(config.timeoutMs).toBe(30_000)
+    expect(config.maxRetries).toBe(0)
+  })
+})
+
+describe('getRetryDelayMs', () => {
+  const config = { retryBaseDelayMs: 200, retryMaxDelayMs: 1_000 }
+
+  it('指数バックオフの上限までの範囲で揺らぐ', () => {
+    expect(getRetryDelayMs(0, config, () => 0)).toBe(0)
+    expect(getRetryDelayMs(0, config, () => 0.5)).toBe(100)
+    expect(getRetryDelayMs(1, config, () => 0.5)).toBe(200)
+    expect(getRetryDelayMs(2, config, () => 0.999)).toBeLessThan(800)
+  })
+
+  it('上限を超えない', () => {
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const delay = getRetryDelayMs(attempt, config, Math.random)
+      expect(delay).toBeGreaterThanOrEqual(0)
+      expect(delay).toBeLessThan(config.retryMaxDelayMs)
+    }
+  })
+})
+
+describe('ChatUpstreamClient', () => {
+  it('API キーを Authorization ヘッダーに付けて /chat に送る', async () => {
+    const client = createClient({ apiKey: 'secret' })
+    const response = await client.send({ question: 'q' }, new AbortController().signal)
+
+    expect(response.status).toBe(200)
+    expect(received).toHaveLength(1)
+    expect(received[0].url).toBe('/chat')
+    expect(received[0].method).toBe('POST')
+    expect(received[0].headers.authorization).toBe('Bearer secret')
+  })
+
+  it('API キーがなければ Authorization ヘッダーを付けない', async () => {
+    await createClient().send({}, new AbortController().signal)
+    expect(received[0].headers.authorization).toBeUndefined()
+  })
+
+  it('応答ヘッダーが制限時間内に届かなければ timeout になる', async () => {
+    handler = (_request, response) => {
+      setTimeout(() => response.end('{}'), 500)
+    }
+    const error = await sendExpectingError(createClient({ timeoutMs: 50, maxRetries: 1 }))
+
+    expect(error.code).toBe('timeout')
+    expect(received).toHaveLength(2)
+  })
+
+  it('5xx は再試行し、成功した応答を返す', async () => {
+    handler = respondWith(503, 500, 200)
+    const response = await createClient({ maxRetries: 2 }).send({}, new AbortController().signal)
+
+    expect(response.status).toBe(200)
+    expect(received).toHaveLength(3)
+  })
+
+  it('再試行を使い切ったら最後の 5xx の応答を返す', async () => {
+    handler = respondWith(502)
+    const response = await createClient({ maxRetries: 1 }).send({}, new AbortController().signal)
+
+    expect(response.status).toBe(502)
+    expect(received).toHaveLength(2)
+  })
+
+  it('ネットワークエラーは再試行してから network になる', async () => {
+    handler = (request) => request.socket.destroy()
+    const error = await sendExpectingError(createClient({ maxRetries: 2 }))
+
+    expect(error.code).toBe('network')
+    expect(received).toHaveLength(3)
+  })
+
+  it('4xx は再試行しない', async () => {
+    handler = respondWith(429, 200)
+    const response = await createClient({ maxRetries: 2 }).send({}, new AbortController().signal)
+
+    expect(response.status).toBe(429)
+    expect(received).toHaveLength(1)
+  })
+
+  it('呼び出し側の中断はそのまま投げる', async () => {
+    handler = () => {}
+    const controller = new AbortController()
+    const sending = createClient().send({}, controller.signal)
+    setTimeout(() => controller.abort(), 20)
+
+    await expect(sending).rejects.not.toBeInstanceOf(ChatUpstreamError)
+  })
+
+  it('連続した失敗で遮断し、遮断中は問い合わせない', async () => {
+    handler = respondWith(500)
+    const client = createClient({ maxRetries: 0, circuitFailureThreshold: 2 })
+    await client.send({}, new AbortController().signal)
+    await client.send({}, new AbortController().signal)
+
+    const error = await sendExpectingError(client)
+    expect(error.code).toBe('circuit_open')
+    expect(received).toHaveLength(2)
+  })
+
+  it('まとめて送った問い合わせは half-open の試しの1件を共有する', async () => {
+    handler = respondWith(500, 200)
+    const client = createClient({
+      maxRetries: 0,
+      circuitFailureThreshold: 1,
+      circuitResetMs: 0,
+    })
+    await client.send({}, new AbortController().signal)
+
+    // 遮断時間が 0 なので次は half-open。グループ会話の全員分が送られる
+    const responses = await client.sendAll([{}, {}, {}], new AbortController().signal)
+    expect(responses.map((response) => response.status)).toEqual([200, 200, 200])
+    expect(received).toHaveLength(4)
+  })
+
+  it('まとめて送った問い合わせの1件が接続できなければ全体が失敗する', async () => {
+    let count = 0
+    handler = (request, response) => {
+      if (count++ === 0) {
+        request.socket.destroy()
+        return
+      }
+      response.end('{}')
+    }
+    const client = createClient({ maxRetries: 0 })
+    const error = await client
+      .sendAll([{}, {}], new AbortController().signal)
+      .catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(ChatUpstreamError)
+    expect((error as ChatUpstreamError).code).toBe('network')
+  })
+})
+
+describe('CircuitBreaker', () => {
+  it('closed → open → half-open → closed と遷移する', () => {
+    let now = 0
+    const breaker = new CircuitBreaker(2, 1_000, () => now)
+
+    expect(breaker.state).toBe('closed')
+    expect(breaker.tryAcquire()).toBe(true)
+    breaker.recordFailure()
+    expect(breaker.state).toBe('closed')
+    breaker.recordFailure()
+    expect(breaker.state).toBe('open')
+    expect(breaker.tryAcquire()).toBe(false)
+
+    now = 1_000
+    expect(breaker.state).toBe('half-open')
+    expect(breaker.tryAcquire()).toBe(true)
+    // 試しの1件が終わるまでは他の問い合わせを通さない
+    expect(breaker.tryAcquire()).toBe(false)
+
+    breaker.recordSuccess()
+    expect(breaker.state).toBe('closed')
+    expect(breaker.tryAcquire()).toBe(true)
+  })
+
+  it('half-open の試しが失敗したら再び遮断時間を数え直す', () => {
+    let now = 0
+    const breaker = new CircuitBreaker(1, 1_000, () => now)
+    breaker.recordFailure()
+
+    now = 1_500
+    expect(breaker.tryAcquire()).toBe(true)
+    breaker.recordFailure()
+    expect(breaker.state).toBe('open')
+
+    now = 2_400
+    expect(breaker.state).toBe('open')
+    now = 2_500
+    expect(breaker.state).toBe('half-open')
+  })
+
+  it('成否が分からないまま終わった試しは枠を返す', () => {
+    let now = 0
+    const breaker = new CircuitBreaker(1, 1_000, () => now)
+    breaker.recordFailure()
+
+    now = 1_000
+    expect(breaker.tryAcquire()).toBe(true)
+    breaker.release()
+    expect(breaker.state).toBe('half-open')
+    expect(breaker.tryAcquire()).toBe(true)
+  })
+})
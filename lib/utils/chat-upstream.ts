@@ -0,0 +1,270 @@
+/**
+ * 上流のチャットAPIクライアント（サーバー側で使用）
+ * 接続先と API キーを環境変数から読み込み、タイムアウト・再試行・サーキットブレーカーを備える
+ */
+
+export interface ChatUpstreamConfig {
+  baseUrl: string
+  apiKey: string | null // 指定すると Authorization: Bearer ヘッダーに付ける
+  timeoutMs: number // 応答ヘッダーが届くまでの制限時間（ストリーミング中の本文には適用しない）
+  maxRetries: number // 5xx・ネットワークエラー時に再試行する回数
+  retryBaseDelayMs: number
+  retryMaxDelayMs: number
+  circuitFailureThreshold: number // 連続してこの回数失敗したら遮断する
+  circuitResetMs: number // 遮断してからこの時間が経ったら1件だけ試す
+}
+
+// timeout: 制限時間内に応答がない / network: 接続できない / circuit_open: 遮断中のため問い合わせていない
+export type ChatUpstreamErrorCode = 'timeout' | 'network' | 'circuit_open'
+
+export class ChatUpstreamError extends Error {
+  readonly code: ChatUpstreamErrorCode
+
+  constructor(code: ChatUpstreamErrorCode, message: string, options?: { cause?: unknown }) {
+    super(message, options)
+    this.name = 'ChatUpstreamError'
+    this.code = code
+  }
+}
+
+export const CHAT_UPSTREAM_PATH = '/chat'
+
+const DEFAULT_CONFIG: ChatUpstreamConfig = {
+  baseUrl: 'http://localhost:8000',
+  apiKey: null,
+  timeoutMs: 30_000,
+  maxRetries: 2,
+  retryBaseDelayMs: 200,
+  retryMaxDelayMs: 2_000,
+  circuitFailureThreshold: 5,
+  circuitResetMs: 30_000,
+}
+
+function readNonNegativeInteger(value: string | undefined, fallback: number): number {
+  const parsed = Number(value)
+  return value && Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback
+}
+
+/**
+ * 環境変数から接続設定を読み込む
+ * EXTERNAL_API_URL / EXTERNAL_API_KEY / EXTERNAL_API_TIMEOUT_MS / EXTERNAL_API_MAX_RETRIES
+ */
+export function getChatUpstreamConfig(
+  env: Record<string, string | undefined> = process.env,
+): ChatUpstreamConfig {
+  return {
+    ...DEFAULT_CONFIG,
+    baseUrl: (env.EXTERNAL_API_URL || DEFAULT_CONFIG.baseUrl).replace(/\/+$/, ''),
+    apiKey: env.EXTERNAL_API_KEY || null,
+    timeoutMs: readNonNegativeInteger(env.EXTERNAL_API_TIMEOUT_MS, DEFAULT_CONFIG.timeoutMs),
+    maxRetries: readNonNegativeInteger(env.EXTERNAL_API_MAX_RETRIES, DEFAULT_CONFIG.maxRetries),
+  }
+}
+
+/**
+ * 再試行までの待ち時間（指数バックオフの上限までの一様乱数）
+ * @param attempt 何回目の再試行か（0 始まり）
+ */
+export function getRetryDelayMs(
+  attempt: number,
+  config: Pick<ChatUpstreamConfig, 'retryBaseDelayMs' | 'retryMaxDelayMs'>,
+  random: () => number = Math.random,
+): number {
+  const ceiling = Math.min(config.retryMaxDelayMs, config.retryBaseDelayMs * 2 ** attempt)
+  return Math.floor(random() * ceiling)
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status >= 500
+}
+
+async function discardBody(response: Response): Promise<void> {
+  await response.body?.cancel().catch(() => {})
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal.reason)
+    }
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * 連続した失敗で上流への問い合わせを一時的に止めるサーキットブレーカー
+ * closed（通常）→ open（遮断）→ half-open（1件だけ試す）→ 成功で closed / 失敗で open
+ */
+export class CircuitBreaker {
+  private failureCount = 0
+  private openedAt: number | null = null
+  private isTrialInFlight = false
+
+  constructor(
+    private readonly failureThreshold: number,
+    private readonly resetMs: number,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  get state(): 'closed' | 'open' | 'half-open' {
+    if (this.openedAt === null) return 'closed'
+    return this.now() - this.openedAt >= this.resetMs ? 'half-open' : 'open'
+  }
+
+  /**
+   * 問い合わせてよいか（half-open では最初の1件だけ許可する）
+   */
+  tryAcquire(): boolean {
+    const state = this.state
+    if (state === 'closed') return true
+    if (state === 'open' || this.isTrialInFlight) return false
+    this.isTrialInFlight = true
+    return true
+  }
+
+  recordSuccess(): void {
+    this.failureCount = 0
+    this.openedAt = null
+    this.isTrialInFlight = false
+  }
+
+  recordFailure(): void {
+    this.failureCount++
+    // 試しの1件が失敗した場合も、再び遮断時間を数え直す
+    if (this.isTrialInFlight || this.failureCount >= this.failureThreshold) {
+      this.openedAt = this.now()
+    }
+    this.isTrialInFlight = false
+  }
+
+  /**
+   * 呼び出し側の中断などで成否が分からないまま終わった場合に、試しの枠を返す
+   */
+  release(): void {
+    this.isTrialInFlight = false
+  }
+}
+
+export class ChatUpstreamClient {
+  private readonly circuitBreaker: CircuitBreaker
+
+  constructor(private readonly config: ChatUpstreamConfig = getChatUpstreamConfig()) {
+    this.circuitBreaker = new CircuitBreaker(config.circuitFailureThreshold, config.circuitResetMs)
+  }
+
+  get url(): string {
+    return `${this.config.baseUrl}${CHAT_UPSTREAM_PATH}`
+  }
+
+  /**
+   * チャットの問い合わせを送信
+   * 5xx の応答は再試行し、使い切った場合は最後の応答をそのまま返す（4xx は再試行しない）
+   * @param signal 呼び出し側の中断（クライアントの切断など）。再試行も止める
+   */
+  async send(body: unknown, signal: AbortSignal): Promise<Response> {
+    const [response] = await this.sendAll([body], signal)
+    return response
+  }
+
+  /**
+   * 1つのリクエストから複数の問い合わせを並行して送信（グループ会話で使用）
+   * サーキットブレーカーはまとめて1回だけ通し、half-open の試しの1件もまとめて扱う
+   * いずれかが接続できなかった場合は、他の応答を破棄して ChatUpstreamError を投げる
+   */
+  async sendAll(bodies: unknown[], signal: AbortSignal): Promise<Response[]> {
+    if (!this.circuitBreaker.tryAcquire()) {
+      throw new ChatUpstreamError('circuit_open', 'Chat API is temporarily unavailable')
+    }
+
+    let results: (Response | ChatUpstreamError)[]
+    try {
+      results = await Promise.all(bodies.map((body) => this.sendWithRetries(body, signal)))
+    } catch (error) {
+      this.circuitBreaker.release()
+      throw error
+    }
+
+    const failure = results.find((result) => result instanceof ChatUpstreamError)
+    if (failure) {
+      this.circuitBreaker.recordFailure()
+      await Promise.all(
+        results.map((result) => (result instanceof Response ? discardBody(result) : undefined)),
+      )
+      throw failure
+    }
+
+    const responses = results as Response[]
+    if (responses.some((response) => isRetryableStatus(response.status))) {
+      this.circuitBreaker.recordFailure()
+    } else {
+      this.circuitBreaker.recordSuccess()
+    }
+    return responses
+  }
+
+  private async sendWithRetries(
+    body: unknown,
+    signal: AbortSignal,
+  ): Promise<Response | ChatUpstreamError> {
+    for (let attempt = 0; ; attempt++) {
+      const result = await this.fetchOnce(body, signal)
+      const isRetryable = result instanceof ChatUpstreamError || isRetryableStatus(result.status)
+      if (!isRetryable || attempt >= this.config.maxRetries) return result
+
+      // 再試行する応答の本文は読まずに破棄
+      if (result instanceof Response) {
+        await discardBody(result)
+      }
+      await wait(getRetryDelayMs(attempt, this.config), signal)
+    }
+  }
+
+  /**
+   * 1回だけ送信（タイムアウトとネットワークエラーは ChatUpstreamError として返し、呼び出し側の中断は投げる）
+   */
+  private async fetchOnce(
+    body: unknown,
+    signal: AbortSignal,
+  ): Promise<Response | ChatUpstreamError> {
+    const timeoutController = new AbortController()
+    const timer = setTimeout(() => timeoutController.abort(), this.config.timeoutMs)
+
+    try {
+      return await fetch(this.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'text/event-stream, application/x-ndjson, application/json',
+          ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+        },
+        body: JSON.stringify(body),
+        signal: AbortSignal.any([signal, timeoutController.signal]),
+      })
+    } catch (error) {
+      if (signal.aborted) throw error
+      if (timeoutController.signal.aborted) {
+        return new ChatUpstreamError(
+          'timeout',
+          `Chat API did not respond within ${this.config.timeoutMs}ms`,
+          { cause: error },
+        )
+      }
+      const message = error instanceof Error ? error.message : String(error)
+      return new ChatUpstreamError('network', `Failed to connect to chat API: ${message}`, {
+        cause: error,
+      })
+    } finally {
+      // 応答ヘッダーが届いた後のストリーミングは打ち切らない
+      clearTimeout(timer)
+    }
+  }
+}
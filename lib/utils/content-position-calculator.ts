@@ -1,62 +1,129 @@
 import type { BookContent } from '@/types/pagination'
+import {
+  type BlockPositionData,
+  createBlockPositions,
+  fromCumulativePosition,
+  toCumulativePosition
+} from './content-position'
+import type { PageData } from './content-position-finder'
+import { getPageEndPosition, getPageStartPosition } from './page-segments'
+import type { ContentPosition } from './reading-state'
+
+export type { BlockPositionData }
 
 export interface PagePositionData {
   pageIndex: number
   chapterId: number
-  blockId: number
+  chapterTitle?: string
+  blockId: number // ページの先頭のブロック
   pageStartPosition: number
-  pageEndPosition: number
+  pageEndPosition: number // ページの最後の文字の次の累積文字位置
   pageCharacterCount: number
 }
 
 export interface PositionCalculatorResult {
   totalCharacters: number
   pagePositions: PagePositionData[]
+  blockPositions: BlockPositionData[]
 }
 
+/**
+ * 本文の累積文字位置の計算
+ * ブロック単位の位置は書籍データから求め、ページ単位の位置は実際のページ分割結果（updatePages）から求める
+ */
 export class ContentPositionCalculator {
   private bookContent: BookContent
+  private pages: PageData[]
   private positionData: PositionCalculatorResult | null = null
 
-  constructor(bookContent: BookContent) {
+  constructor(bookContent: BookContent, pages: PageData[] = []) {
     this.bookContent = bookContent
+    this.pages = pages
     this.calculatePositions()
   }
 
   /**
-   * 全ページの累積文字位置を事前計算
+   * ブロックと全ページの累積文字位置を事前計算
    */
   private calculatePositions(): void {
+    const blockPositions = createBlockPositions(this.bookContent.chapters)
     const pagePositions: PagePositionData[] = []
-    let cumulativePosition = 0
-    let pageIndex = 0
-
-    for (const chapter of this.bookContent.chapters) {
-      for (const block of chapter.blocks) {
-        const blockLength = block.text.length
-
-        // このブロックが1ページに収まるかチェック
-        // 簡単のため、ここでは各ブロック = 1ページとして扱う
-        // 実際の実装では、PaginationCalculatorと連携する必要がある
-        const pageData: PagePositionData = {
-          pageIndex,
-          chapterId: chapter.id,
-          blockId: block.id,
-          pageStartPosition: cumulativePosition,
-          pageEndPosition: cumulativePosition + blockLength,
-          pageCharacterCount: blockLength
-        }
-
-        pagePositions.push(pageData)
-        cumulativePosition += blockLength
-        pageIndex++
-      }
-    }
+    let previousEnd = 0
+
+    this.pages.forEach((page, pageIndex) => {
+      const range = this.getPageRange(blockPositions, page)
+      // 本文を含まないページは直前のページの末尾に置く
+      const pageStartPosition = range?.start ?? previousEnd
+      const pageEndPosition = Math.max(range?.end ?? previousEnd, pageStartPosition)
+      const chapterId = page.metadata?.chapterId ?? pagePositions[pageIndex - 1]?.chapterId ?? 1
+
+      pagePositions.push({
+        pageIndex,
+        chapterId,
+        chapterTitle: page.chapterTitle ?? this.bookContent.chapters.find(chapter => chapter.id === chapterId)?.title,
+        blockId: page.metadata?.startBlockId ?? fromCumulativePosition(blockPositions, pageStartPosition)?.blockId ?? 1,
+        pageStartPosition,
+        pageEndPosition,
+        pageCharacterCount: pageEndPosition - pageStartPosition
+      })
+      previousEnd = pageEndPosition
+    })
 
     this.positionData = {
-      totalCharacters: cumulativePosition,
-      pagePositions
+      totalCharacters: blockPositions[blockPositions.length - 1]?.blockEndPosition ?? 0,
+      pagePositions,
+      blockPositions
+    }
+  }
+
+  /**
+   * ページの累積文字位置の範囲をページのメタデータから求める
+   * 本文との対応（segments）がない古いページは先頭・末尾のブロックと末尾のオフセットから求める
+   */
+  private getPageRange(
+    blockPositions: BlockPositionData[],
+    page: PageData
+  ): { start: number; end: number } | null {
+    const startPosition = getPageStartPosition(page)
+    const endPosition = getPageEndPosition(page)
+    if (startPosition && endPosition) {
+      const start = toCumulativePosition(blockPositions, startPosition)
+      const end = toCumulativePosition(blockPositions, endPosition)
+      if (start !== null && end !== null) return { start, end }
     }
+
+    const metadata = page.metadata
+    const startBlockId = metadata?.startBlockId ?? metadata?.blockIds[0]
+    const endBlockId = metadata?.endBlockId ?? metadata?.blockIds[metadata.blockIds.length - 1]
+    if (!metadata || startBlockId === undefined || endBlockId === undefined) return null
+
+    const start = toCumulativePosition(blockPositions, {
+      chapterId: metadata.chapterId,
+      blockId: startBlockId,
+      characterOffset: 0
+    })
+    // 末尾のオフセットがない場合はブロックの最後まで（ブロックの長さに丸められる）
+    const end = toCumulativePosition(blockPositions, {
+      chapterId: metadata.chapterId,
+      blockId: endBlockId,
+      characterOffset: metadata.endBlockCharacterOffset ?? Number.MAX_SAFE_INTEGER
+    })
+    return start === null || end === null ? null : { start, end }
+  }
+
+  /**
+   * ページ分割の結果が更新された時の再計算（段階的に計算されたページの追加を含む）
+   */
+  updatePages(pages: PageData[]): void {
+    this.pages = pages
+    this.calculatePositions()
+  }
+
+  /**
+   * ブロックとページの累積文字位置の計算結果を取得
+   */
+  getPositionData(): PositionCalculatorResult | null {
+    return this.positionData
   }
 
   /**
@@ -76,11 +143,22 @@ export class ContentPositionCalculator {
   findPageByPosition(position: number): PagePositionData | null {
     if (!this.positionData) return null
 
-    for (const pageData of this.positionData.pagePositions) {
-      if (position >= pageData.pageStartPosition && position < pageData.pageEndPosition) {
-        return pageData
+    // 累積位置は単調増加なので、開始位置が position 以下の最後のページを二分探索
+    const pagePositions = this.positionData.pagePositions
+    let low = 0
+    let high = pagePositions.length - 1
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2)
+      if (pagePositions[mid].pageStartPosition <= position) {
+        low = mid
+      } else {
+        high = mid - 1
       }
     }
+    const pageData = pagePositions[low]
+    if (pageData && position >= pageData.pageStartPosition && position < pageData.pageEndPosition) {
+      return pageData
+    }
 
     // 最後のページを超えている場合は最後のページを返す
     if (this.positionData.pagePositions.length > 0) {
@@ -90,6 +168,21 @@ export class ContentPositionCalculator {
     return null
   }
 
+  /**
+   * 累積文字位置をチャプター・ブロック・ブロック内オフセットに変換
+   * 範囲外の位置は先頭・末尾に丸める
+   */
+  getContentPositionAt(position: number): ContentPosition | null {
+    return fromCumulativePosition(this.positionData?.blockPositions ?? [], position)
+  }
+
+  /**
+   * チャプター・ブロック・オフセットから累積文字位置を取得
+   */
+  getCumulativePosition(position: ContentPosition): number {
+    return toCumulativePosition(this.positionData?.blockPositions ?? [], position) ?? 0
+  }
+
   /**
    * 指定されたページの位置情報を取得
    */
@@ -101,6 +194,29 @@ export class ContentPositionCalculator {
     return this.positionData.pagePositions[pageIndex]
   }
 
+  /**
+   * 章の本文の累積文字位置の範囲（存在しない章なら null）
+   */
+  getChapterRange(chapterId: number): { start: number; end: number } | null {
+    const chapterBlocks = (this.positionData?.blockPositions ?? []).filter(
+      block => block.chapterId === chapterId
+    )
+    if (chapterBlocks.length === 0) return null
+
+    return {
+      start: chapterBlocks[0].blockStartPosition,
+      end: chapterBlocks[chapterBlocks.length - 1].blockEndPosition
+    }
+  }
+
+  /**
+   * 指定されたページの末尾までに読んだ割合（0〜1）
+   */
+  getReadingProgress(pageIndex: number): number {
+    const totalCharacters = this.getTotalCharacters()
+    return totalCharacters > 0 ? this.getPageEndPosition(pageIndex) / totalCharacters : 0
+  }
+
   /**
    * 全ページ数を取得
    */
@@ -162,7 +278,9 @@ export class ContentPositionCalculator {
     return {
       totalPages: this.positionData.pagePositions.length,
       totalCharacters: this.positionData.totalCharacters,
-      averageCharactersPerPage: this.positionData.totalCharacters / this.positionData.pagePositions.length,
+      averageCharactersPerPage: this.positionData.pagePositions.length > 0
+        ? this.positionData.totalCharacters / this.positionData.pagePositions.length
+        : 0,
       chapters
     }
   }
@@ -3,6 +3,7 @@
  * ブロックID、チャプターID、テキスト内容などから該当ページを特定
  */
 
+import { findPageBySegmentPosition, type PageSegment } from './page-segments'
 import type { ContentPosition } from './reading-state'
 
 export interface PageData {
@@ -17,10 +18,12 @@ export interface PageData {
     startBlockId?: number
     endBlockId?: number
     endBlockCharacterOffset?: number
+    // 書籍先頭からの累積文字位置の範囲（end はページの最後の文字の次）
     characterRange?: {
       start: number
       end: number
     }
+    segments?: PageSegment[]
   }
 }
 
@@ -159,13 +162,22 @@ export function findNearestPageToPosition(
   pages: PageData[],
   position: ContentPosition
 ): FindResult | null {
-  // まずブロックIDで完全一致を探す
-  const exactMatch = findPageByBlockId(pages, position.blockId)
-  if (exactMatch) {
-    return exactMatch
+  // ページ本文とブロックの対応があれば、文字位置まで一致するページを探す
+  const segmentPageIndex = findPageBySegmentPosition(pages, position)
+  if (segmentPageIndex >= 0) {
+    return { pageIndex: segmentPageIndex, page: pages[segmentPageIndex], exactMatch: true }
   }
 
-  // 次にチャプターID一致のページを探す
+  // 次に同じチャプターでブロックIDが一致するページを探す（ブロックIDはチャプターごとの連番）
+  const blockPageIndex = pages.findIndex(page =>
+    page.metadata?.chapterId === position.chapterId &&
+    page.metadata.blockIds?.includes(position.blockId)
+  )
+  if (blockPageIndex >= 0) {
+    return { pageIndex: blockPageIndex, page: pages[blockPageIndex], exactMatch: true }
+  }
+
+  // チャプターID一致のページを探す
   const chapterMatches = pages
     .map((page, index) => ({ page, index }))
     .filter(({ page }) => page.metadata?.chapterId === position.chapterId)
@@ -207,7 +219,8 @@ export function enrichPageWithMetadata(
   blockIds: number[],
   isChapterStart: boolean = false,
   isChapterEnd: boolean = false,
-  endBlockCharacterOffset?: number
+  endBlockCharacterOffset?: number,
+  characterRange?: { start: number; end: number }
 ): Omit<PageData, 'id'> {
   return {
     content: pageContent,
@@ -220,10 +233,7 @@ export function enrichPageWithMetadata(
       startBlockId: blockIds[0],
       endBlockId: blockIds[blockIds.length - 1],
       endBlockCharacterOffset,
-      characterRange: {
-        start: 0,
-        end: pageContent.length - 1
-      }
+      ...(characterRange ? { characterRange } : {})
     }
   }
 }
@@ -0,0 +1,206 @@
+import fc from 'fast-check'
+import { describe, expect, it } from 'vitest'
+import {
+  clampPosition,
+  comparePositions,
+  createBlockPositions,
+  fromCumulativePosition,
+  intersectRanges,
+  isEmptyRange,
+  isPositionInRange,
+  positionDistance,
+  toCumulativePosition,
+} from './content-position'
+import type { ContentPosition, ContentRange } from './reading-state'
+
+const positionArb: fc.Arbitrary<ContentPosition> = fc.record({
+  chapterId: fc.integer({ min: 1, max: 3 }),
+  blockId: fc.integer({ min: 1, max: 3 }),
+  characterOffset: fc.integer({ min: 0, max: 5 }),
+})
+
+const rangeArb: fc.Arbitrary<ContentRange> = fc
+  .tuple(positionArb, positionArb)
+  .map(([a, b]) => (comparePositions(a, b) <= 0 ? { start: a, end: b } : { start: b, end: a }))
+
+// 章ごとのブロックの文字数（空のブロックも含める）
+const chaptersArb = fc
+  .array(fc.array(fc.integer({ min: 0, max: 8 }), { minLength: 1, maxLength: 4 }), {
+    minLength: 1,
+    maxLength: 4,
+  })
+  .map((chapters) =>
+    chapters.map((lengths, chapterIndex) => ({
+      id: chapterIndex + 1,
+      blocks: lengths.map((length, blockIndex) => ({
+        id: chapterIndex * 10 + blockIndex + 1,
+        text: 'あ'.repeat(length),
+      })),
+    })),
+  )
+
+function sign(value: number): number {
+  return value > 0 ? 1 : value < 0 ? -1 : 0
+}
+
+describe('comparePositions', () => {
+  it('反対称である', () => {
+    fc.assert(
+      fc.property(positionArb, positionArb, (a, b) => {
+        expect(sign(comparePositions(a, b)) + sign(comparePositions(b, a))).toBe(0)
+      }),
+    )
+  })
+
+  it('推移的である', () => {
+    fc.assert(
+      fc.property(positionArb, positionArb, positionArb, (a, b, c) => {
+        fc.pre(comparePositions(a, b) <= 0 && comparePositions(b, c) <= 0)
+        expect(comparePositions(a, c)).toBeLessThanOrEqual(0)
+      }),
+    )
+  })
+
+  it('章・ブロック・オフセットの順に比較する', () => {
+    const position = { chapterId: 2, blockId: 2, characterOffset: 2 }
+    expect(comparePositions(position, { ...position, chapterId: 3, blockId: 1 })).toBeLessThan(0)
+    expect(
+      comparePositions(position, { ...position, blockId: 1, characterOffset: 9 }),
+    ).toBeGreaterThan(0)
+    expect(comparePositions(position, { ...position })).toBe(0)
+  })
+})
+
+describe('clampPosition', () => {
+  it('範囲の先頭〜末尾に収まり、範囲内の位置は変えない', () => {
+    fc.assert(
+      fc.property(positionArb, rangeArb, (position, range) => {
+        const clamped = clampPosition(position, range)
+        expect(comparePositions(range.start, clamped)).toBeLessThanOrEqual(0)
+        expect(comparePositions(clamped, range.end)).toBeLessThanOrEqual(0)
+        if (isPositionInRange(position, range)) {
+          expect(clamped).toEqual(position)
+        }
+      }),
+    )
+  })
+})
+
+describe('isPositionInRange', () => {
+  it('先頭を含み、末尾を含まない', () => {
+    fc.assert(
+      fc.property(rangeArb, (range) => {
+        expect(isPositionInRange(range.start, range)).toBe(!isEmptyRange(range))
+        expect(isPositionInRange(range.end, range)).toBe(false)
+      }),
+    )
+  })
+
+  it('先頭以降かつ末尾より前の位置だけを含む', () => {
+    fc.assert(
+      fc.property(positionArb, rangeArb, (position, range) => {
+        const expected =
+          comparePositions(range.start, position) <= 0 && comparePositions(position, range.end) < 0
+        expect(isPositionInRange(position, range)).toBe(expected)
+      }),
+    )
+  })
+})
+
+describe('intersectRanges', () => {
+  it('両方の範囲に含まれる位置だけを含む', () => {
+    fc.assert(
+      fc.property(rangeArb, rangeArb, positionArb, (a, b, position) => {
+        const intersection = intersectRanges(a, b)
+        const inBoth = isPositionInRange(position, a) && isPositionInRange(position, b)
+        expect(intersection ? isPositionInRange(position, intersection) : false).toBe(inBoth)
+      }),
+    )
+  })
+
+  it('交換しても同じ結果になる', () => {
+    fc.assert(
+      fc.property(rangeArb, rangeArb, (a, b) => {
+        expect(intersectRanges(a, b)).toEqual(intersectRanges(b, a))
+      }),
+    )
+  })
+
+  it('重ならなければ null', () => {
+    const range = (start: number, end: number): ContentRange => ({
+      start: { chapterId: 1, blockId: 1, characterOffset: start },
+      end: { chapterId: 1, blockId: 1, characterOffset: end },
+    })
+    expect(intersectRanges(range(0, 3), range(3, 5))).toBeNull()
+    expect(intersectRanges(range(0, 4), range(3, 5))).toEqual(range(3, 4))
+  })
+})
+
+describe('toCumulativePosition / fromCumulativePosition', () => {
+  it('累積文字位置 → 本文上の位置 → 累積文字位置で元に戻る', () => {
+    fc.assert(
+      fc.property(chaptersArb, fc.nat(), (chapters, seed) => {
+        const blockPositions = createBlockPositions(chapters)
+        const total = blockPositions[blockPositions.length - 1].blockEndPosition
+        const position = seed % (total + 1)
+
+        const contentPosition = fromCumulativePosition(blockPositions, position)
+        expect(contentPosition).not.toBeNull()
+        expect(toCumulativePosition(blockPositions, contentPosition as ContentPosition)).toBe(
+          position,
+        )
+      }),
+    )
+  })
+
+  it('本文上の位置の前後関係を保つ', () => {
+    fc.assert(
+      fc.property(chaptersArb, fc.nat(), fc.nat(), (chapters, seedA, seedB) => {
+        const blockPositions = createBlockPositions(chapters)
+        const total = blockPositions[blockPositions.length - 1].blockEndPosition
+        const a = fromCumulativePosition(blockPositions, seedA % (total + 1)) as ContentPosition
+        const b = fromCumulativePosition(blockPositions, seedB % (total + 1)) as ContentPosition
+
+        expect(sign(comparePositions(a, b))).toBe(
+          sign((seedA % (total + 1)) - (seedB % (total + 1))),
+        )
+        expect(positionDistance(blockPositions, a, b)).toBe(
+          (seedB % (total + 1)) - (seedA % (total + 1)),
+        )
+      }),
+    )
+  })
+
+  it('ブロックの境界は次のブロックの先頭として表す', () => {
+    const blockPositions = createBlockPositions([
+      {
+        id: 1,
+        blocks: [
+          { id: 1, text: 'あいう' },
+          { id: 2, text: 'えお' },
+        ],
+      },
+    ])
+    expect(fromCumulativePosition(blockPositions, 3)).toEqual({
+      chapterId: 1,
+      blockId: 2,
+      characterOffset: 0,
+    })
+    expect(
+      toCumulativePosition(blockPositions, { chapterId: 1, blockId: 1, characterOffset: 3 }),
+    ).toBe(3)
+  })
+
+  it('範囲外の位置は丸め、存在しないブロックは null', () => {
+    const blockPositions = createBlockPositions([{ id: 1, blocks: [{ id: 1, text: 'あいう' }] }])
+    expect(fromCumulativePosition(blockPositions, -1)?.characterOffset).toBe(0)
+    expect(fromCumulativePosition(blockPositions, 10)?.characterOffset).toBe(3)
+    expect(
+      toCumulativePosition(blockPositions, { chapterId: 1, blockId: 1, characterOffset: 9 }),
+    ).toBe(3)
+    expect(
+      toCumulativePosition(blockPositions, { chapterId: 2, blockId: 1, characterOffset: 0 }),
+    ).toBeNull()
+    expect(fromCumulativePosition([], 0)).toBeNull()
+  })
+})
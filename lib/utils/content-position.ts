@@ -0,0 +1,155 @@
+/**
+ * 本文上の位置（ContentPosition）の演算
+ * 位置の比較・範囲判定と、書籍先頭からの累積文字位置（pos）との相互変換をまとめる
+ * 累積文字位置はブロック本文の文字数を本文の順に足し合わせたもの
+ */
+
+import type { ContentPosition, ContentRange } from './reading-state'
+
+/**
+ * ブロックの累積文字位置の範囲（blockEndPosition は含まない）
+ */
+export interface BlockPositionData {
+  chapterId: number
+  blockId: number
+  blockStartPosition: number
+  blockEndPosition: number
+}
+
+/**
+ * 本文上の位置の前後を比較（a が前なら負、後なら正、同じ位置なら 0）
+ */
+export function comparePositions(a: ContentPosition, b: ContentPosition): number {
+  return a.chapterId - b.chapterId || a.blockId - b.blockId || a.characterOffset - b.characterOffset
+}
+
+/**
+ * 2つの位置のうち前にある方
+ */
+export function minPosition(a: ContentPosition, b: ContentPosition): ContentPosition {
+  return comparePositions(a, b) <= 0 ? a : b
+}
+
+/**
+ * 2つの位置のうち後にある方
+ */
+export function maxPosition(a: ContentPosition, b: ContentPosition): ContentPosition {
+  return comparePositions(a, b) >= 0 ? a : b
+}
+
+/**
+ * 位置を範囲の先頭〜末尾に収める（末尾ちょうどの位置も許す）
+ */
+export function clampPosition(position: ContentPosition, range: ContentRange): ContentPosition {
+  return minPosition(maxPosition(position, range.start), range.end)
+}
+
+/**
+ * 位置が範囲に含まれるか（end の位置は含まない）
+ */
+export function isPositionInRange(position: ContentPosition, range: ContentRange): boolean {
+  return comparePositions(range.start, position) <= 0 && comparePositions(position, range.end) < 0
+}
+
+/**
+ * 範囲が1文字も含まないか
+ */
+export function isEmptyRange(range: ContentRange): boolean {
+  return comparePositions(range.start, range.end) >= 0
+}
+
+/**
+ * 2つの範囲の重なり（重ならなければ null）
+ */
+export function intersectRanges(a: ContentRange, b: ContentRange): ContentRange | null {
+  const range = { start: maxPosition(a.start, b.start), end: minPosition(a.end, b.end) }
+  return isEmptyRange(range) ? null : range
+}
+
+/**
+ * 本文のブロックごとの累積文字位置の範囲を作成
+ */
+export function createBlockPositions(
+  chapters: {
+    id: number
+    blocks: { id: number; text: string }[]
+  }[],
+): BlockPositionData[] {
+  const blockPositions: BlockPositionData[] = []
+  let cumulativePosition = 0
+
+  for (const chapter of chapters) {
+    for (const block of chapter.blocks) {
+      blockPositions.push({
+        chapterId: chapter.id,
+        blockId: block.id,
+        blockStartPosition: cumulativePosition,
+        blockEndPosition: cumulativePosition + block.text.length,
+      })
+      cumulativePosition += block.text.length
+    }
+  }
+
+  return blockPositions
+}
+
+/**
+ * 本文上の位置を累積文字位置に変換（ブロック内のオフセットはブロックの長さに丸める）
+ * 存在しないブロックの位置は null
+ */
+export function toCumulativePosition(
+  blockPositions: BlockPositionData[],
+  position: ContentPosition,
+): number | null {
+  const block = blockPositions.find(
+    (data) => data.chapterId === position.chapterId && data.blockId === position.blockId,
+  )
+  if (!block) return null
+
+  const blockLength = block.blockEndPosition - block.blockStartPosition
+  return block.blockStartPosition + Math.max(0, Math.min(position.characterOffset, blockLength))
+}
+
+/**
+ * 累積文字位置を本文上の位置に変換（範囲外の位置は先頭・末尾に丸める）
+ * ブロックの境界はブロック末尾ではなく次のブロックの先頭として表す
+ */
+export function fromCumulativePosition(
+  blockPositions: BlockPositionData[],
+  position: number,
+): ContentPosition | null {
+  if (blockPositions.length === 0) return null
+
+  // 累積位置は単調増加なので、開始位置が position 以下の最後のブロックを二分探索
+  let low = 0
+  let high = blockPositions.length - 1
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2)
+    if (blockPositions[mid].blockStartPosition <= position) {
+      low = mid
+    } else {
+      high = mid - 1
+    }
+  }
+
+  const block = blockPositions[low]
+  const blockLength = block.blockEndPosition - block.blockStartPosition
+  return {
+    chapterId: block.chapterId,
+    blockId: block.blockId,
+    characterOffset: Math.max(0, Math.min(position - block.blockStartPosition, blockLength)),
+  }
+}
+
+/**
+ * 位置 a から b までの文字数（b が前にあれば負、どちらかが存在しない位置なら null）
+ */
+export function positionDistance(
+  blockPositions: BlockPositionData[],
+  a: ContentPosition,
+  b: ContentPosition,
+): number | null {
+  const start = toCumulativePosition(blockPositions, a)
+  const end = toCumulativePosition(blockPositions, b)
+  return start === null || end === null ? null : end - start
+}
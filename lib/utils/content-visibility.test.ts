@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+import type { GlossaryEntry } from '@/types/glossary'
+import { filterRevealed, isRevealed, toContentPosition } from './content-visibility'
+import { getRevealedEntries } from './glossary'
+import type { ContentPosition } from './reading-state'
+
+const position = (
+  chapterId: number,
+  blockId: number,
+  characterOffset: number,
+): ContentPosition => ({
+  chapterId,
+  blockId,
+  characterOffset,
+})
+
+describe('toContentPosition', () => {
+  it('chapter / block を chapterId / blockId に変換する', () => {
+    expect(toContentPosition({ chapter: 2, block: 5, characterOffset: 7 })).toEqual(
+      position(2, 5, 7),
+    )
+  })
+
+  it('characterOffset を省略した位置はブロックの先頭とみなす', () => {
+    expect(toContentPosition({ chapter: 2, block: 5 })).toEqual(position(2, 5, 0))
+  })
+})
+
+describe('isRevealed', () => {
+  const revealedAt = position(2, 5, 10)
+
+  it('現在位置がちょうど公開位置なら公開する', () => {
+    expect(isRevealed(revealedAt, position(2, 5, 10))).toBe(true)
+  })
+
+  it('公開位置の1文字前では公開しない', () => {
+    expect(isRevealed(revealedAt, position(2, 5, 9))).toBe(false)
+  })
+
+  it('公開位置の1文字後では公開する', () => {
+    expect(isRevealed(revealedAt, position(2, 5, 11))).toBe(true)
+  })
+
+  it('オフセットより章・ブロックの前後を優先する', () => {
+    expect(isRevealed(revealedAt, position(2, 4, 999))).toBe(false)
+    expect(isRevealed(revealedAt, position(1, 99, 999))).toBe(false)
+    expect(isRevealed(revealedAt, position(2, 6, 0))).toBe(true)
+    expect(isRevealed(revealedAt, position(3, 1, 0))).toBe(true)
+  })
+
+  it('ブロックの先頭で明かされる記述は、そのブロックに入った時点で公開する', () => {
+    const blockStart = toContentPosition({ chapter: 2, block: 5 })
+    expect(isRevealed(blockStart, position(2, 4, 50))).toBe(false)
+    expect(isRevealed(blockStart, position(2, 5, 0))).toBe(true)
+  })
+
+  it('現在位置がなければ全て公開する', () => {
+    expect(isRevealed(revealedAt, null)).toBe(true)
+    expect(isRevealed(revealedAt, undefined)).toBe(true)
+  })
+})
+
+describe('filterRevealed', () => {
+  const items = [
+    { id: 'before', revealedAt: position(1, 1, 0) },
+    { id: 'exact', revealedAt: position(2, 5, 10) },
+    { id: 'after', revealedAt: position(2, 5, 11) },
+  ]
+
+  it('現在位置までに明かされた項目だけを元の順序で取り出す', () => {
+    const revealed = filterRevealed(items, (item) => item.revealedAt, position(2, 5, 10))
+    expect(revealed.map((item) => item.id)).toEqual(['before', 'exact'])
+  })
+
+  it('現在位置がなければ全ての項目を取り出す', () => {
+    expect(filterRevealed(items, (item) => item.revealedAt, null)).toEqual(items)
+  })
+})
+
+describe('getRevealedEntries', () => {
+  const entry: GlossaryEntry = {
+    id: 'meitei',
+    name: '迷亭',
+    category: 'character',
+    revealedAt: position(2, 10, 0),
+    summary: '',
+    facts: [
+      { text: '公開位置の指定がない記述' },
+      { text: '登場と同時に明かされる記述', revealedAt: position(2, 10, 0) },
+      { text: '後で明かされる記述', revealedAt: position(3, 1, 0) },
+    ],
+  }
+
+  it('公開位置の指定がない記述は、項目の登場と同時に公開する', () => {
+    const [revealed] = getRevealedEntries([entry], position(2, 10, 0))
+    expect(revealed.facts.map((fact) => fact.text)).toEqual([
+      '公開位置の指定がない記述',
+      '登場と同時に明かされる記述',
+    ])
+  })
+
+  it('登場より前では、公開位置の指定がない記述ごと項目を隠す', () => {
+    expect(getRevealedEntries([entry], position(2, 9, 999))).toEqual([])
+  })
+})
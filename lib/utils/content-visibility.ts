@@ -0,0 +1,41 @@
+/**
+ * 本文の公開範囲の判定
+ * 登場人物や事典の記述のうち、読者の現在位置までに本文で明かされたものだけを表示するために使う
+ */
+
+import type { CharacterTextPosition } from '@/types/character'
+import { comparePositions } from './content-position'
+import type { ContentPosition } from './reading-state'
+
+/**
+ * 登場人物データの位置（chapter / block）を ContentPosition に変換
+ * characterOffset を省略した位置はブロックの先頭とみなす
+ */
+export function toContentPosition(position: CharacterTextPosition): ContentPosition {
+  return {
+    chapterId: position.chapter,
+    blockId: position.block,
+    characterOffset: position.characterOffset ?? 0,
+  }
+}
+
+/**
+ * 本文の位置が読者の現在位置までに含まれるか（現在位置がない場合は全て公開）
+ */
+export function isRevealed(
+  revealedAt: ContentPosition,
+  currentPosition?: ContentPosition | null,
+): boolean {
+  return !currentPosition || comparePositions(revealedAt, currentPosition) <= 0
+}
+
+/**
+ * 現在位置までに明かされた項目だけを取り出す
+ */
+export function filterRevealed<T>(
+  items: T[],
+  getRevealedAt: (item: T) => ContentPosition,
+  currentPosition?: ContentPosition | null,
+): T[] {
+  return items.filter((item) => isRevealed(getRevealedAt(item), currentPosition))
+}
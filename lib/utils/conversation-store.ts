@@ -0,0 +1,195 @@
+/**
+ * 会話スレッドの永続化ユーティリティ
+ * IndexedDB に書籍・キャラクターごとの会話を保存する
+ */
+
+import type { Conversation } from '@/types/conversation'
+
+const DB_NAME = 'chavel-conversations'
+const DB_VERSION = 1
+const STORE_NAME = 'conversations'
+const BOOK_CHARACTER_INDEX = 'bookId_characterId'
+const SESSION_ID_KEY = 'chavel-session-id'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+/**
+ * データベースを開く（バージョンごとにスキーマを移行）
+ */
+function openConversationDB(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result
+
+      // v1: 会話ストアと書籍×キャラクターのインデックスを作成
+      if (event.oldVersion < 1) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' })
+        store.createIndex(BOOK_CHARACTER_INDEX, ['bookId', 'characterId'])
+        store.createIndex('bookId', 'bookId')
+      }
+    }
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+
+  return dbPromise
+}
+
+/**
+ * IDBRequest を Promise に変換
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * ブラウザセッション識別子を取得（なければ発行）
+ */
+export function getSessionId(): string {
+  if (typeof window === 'undefined') return ''
+
+  try {
+    const stored = sessionStorage.getItem(SESSION_ID_KEY)
+    if (stored) return stored
+
+    const sessionId = `${Date.now()}_${Math.random().toString(36).slice(2, 10)}`
+    sessionStorage.setItem(SESSION_ID_KEY, sessionId)
+    return sessionId
+  } catch {
+    return ''
+  }
+}
+
+/**
+ * 新しい会話を作成（保存はしない）
+ */
+export function createConversation(
+  bookId: string,
+  characterId: string,
+  chapter?: number,
+): Conversation {
+  const now = new Date()
+  return {
+    id: `${now.getTime()}_${Math.random().toString(36).slice(2, 10)}`,
+    sessionId: getSessionId(),
+    characterId,
+    bookId,
+    messages: [],
+    context: { chapter },
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+/**
+ * 書籍・キャラクターの会話一覧を取得（更新日時の新しい順）
+ */
+export async function getConversations(
+  bookId: string,
+  characterId: string,
+): Promise<Conversation[]> {
+  if (typeof window === 'undefined' || !window.indexedDB) return []
+
+  try {
+    const db = await openConversationDB()
+    const index = db
+      .transaction(STORE_NAME, 'readonly')
+      .objectStore(STORE_NAME)
+      .index(BOOK_CHARACTER_INDEX)
+    const conversations = await promisifyRequest<Conversation[]>(
+      index.getAll([bookId, characterId]),
+    )
+
+    return conversations.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+  } catch (error) {
+    console.warn('Failed to load conversations from IndexedDB:', error)
+    return []
+  }
+}
+
+/**
+ * 全ての会話を取得（バックアップ用）
+ */
+export async function getAllConversations(): Promise<Conversation[]> {
+  if (typeof window === 'undefined' || !window.indexedDB) return []
+
+  try {
+    const db = await openConversationDB()
+    return await promisifyRequest<Conversation[]>(
+      db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll(),
+    )
+  } catch (error) {
+    console.warn('Failed to load conversations from IndexedDB:', error)
+    return []
+  }
+}
+
+/**
+ * 会話を保存（同じIDがあれば上書き）
+ */
+export async function saveConversation(conversation: Conversation): Promise<void> {
+  if (typeof window === 'undefined' || !window.indexedDB) return
+
+  try {
+    const db = await openConversationDB()
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME)
+    await promisifyRequest(store.put(conversation))
+  } catch (error) {
+    console.warn('Failed to save conversation to IndexedDB:', error)
+  }
+}
+
+/**
+ * 保存済みの会話を読み込んで更新（保存されていなければ何もしない）
+ * 読み込みと書き込みを同じトランザクションで行い、続けて届いた更新と混ざらないようにする
+ */
+export async function updateConversation(
+  conversationId: string,
+  updater: (conversation: Conversation) => Conversation,
+): Promise<void> {
+  if (typeof window === 'undefined' || !window.indexedDB) return
+
+  try {
+    const db = await openConversationDB()
+    const transaction = db.transaction(STORE_NAME, 'readwrite')
+    const store = transaction.objectStore(STORE_NAME)
+    const request = store.get(conversationId)
+    request.onsuccess = () => {
+      const stored = request.result as Conversation | undefined
+      if (stored) store.put(updater(stored))
+    }
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  } catch (error) {
+    console.warn('Failed to update conversation in IndexedDB:', error)
+  }
+}
+
+/**
+ * 会話を削除
+ */
+export async function deleteConversation(conversationId: string): Promise<void> {
+  if (typeof window === 'undefined' || !window.indexedDB) return
+
+  try {
+    const db = await openConversationDB()
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME)
+    await promisifyRequest(store.delete(conversationId))
+  } catch (error) {
+    console.warn('Failed to delete conversation from IndexedDB:', error)
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * 事典データの検証
+ * `<key>.glossary.json` を読み込み時に検証し、不正な項目は警告を出して取り除く
+ */
+
+import type { GlossaryCategory, GlossaryEntry, GlossaryFact } from '@/types/glossary'
+import type { ContentPosition } from './reading-state'
+import {
+  addIssue,
+  isNonEmptyString,
+  isNonNegativeInteger,
+  isPositiveInteger,
+  isRecord,
+  parseList,
+} from './schema-validation'
+
+const GLOSSARY_CATEGORIES: GlossaryCategory[] = ['character', 'place', 'term']
+
+function isGlossaryCategory(value: unknown): value is GlossaryCategory {
+  return GLOSSARY_CATEGORIES.includes(value as GlossaryCategory)
+}
+
+function parseContentPosition(
+  value: unknown,
+  path: string,
+  issues: string[],
+): ContentPosition | null {
+  if (
+    !isRecord(value) ||
+    !isPositiveInteger(value.chapterId) ||
+    !isPositiveInteger(value.blockId) ||
+    !isNonNegativeInteger(value.characterOffset)
+  ) {
+    addIssue(issues, path, 'chapterId・blockId・characterOffset を指定してください')
+    return null
+  }
+  return {
+    chapterId: value.chapterId,
+    blockId: value.blockId,
+    characterOffset: value.characterOffset,
+  }
+}
+
+function parseFact(value: unknown, path: string, issues: string[]): GlossaryFact | null {
+  if (!isRecord(value) || !isNonEmptyString(value.text)) {
+    addIssue(issues, path, 'text を指定してください')
+    return null
+  }
+  if (value.revealedAt === undefined) {
+    return { text: value.text }
+  }
+
+  const revealedAt = parseContentPosition(value.revealedAt, `${path}.revealedAt`, issues)
+  return revealedAt ? { text: value.text, revealedAt } : null
+}
+
+function parseEntry(value: unknown, path: string, issues: string[]): GlossaryEntry | null {
+  if (
+    !isRecord(value) ||
+    !isNonEmptyString(value.id) ||
+    !isNonEmptyString(value.name) ||
+    !isGlossaryCategory(value.category) ||
+    !isNonEmptyString(value.summary)
+  ) {
+    addIssue(
+      issues,
+      path,
+      `id・name・summary と category（${GLOSSARY_CATEGORIES.join(' / ')}）を指定してください`,
+    )
+    return null
+  }
+
+  const revealedAt = parseContentPosition(value.revealedAt, `${path}.revealedAt`, issues)
+  if (!revealedAt) return null
+
+  const entry: GlossaryEntry = {
+    id: value.id,
+    name: value.name,
+    category: value.category,
+    revealedAt,
+    summary: value.summary,
+    facts: parseList(value.facts, `${path}.facts`, issues, parseFact),
+  }
+  if (isNonEmptyString(value.reading)) {
+    entry.reading = value.reading
+  }
+  return entry
+}
+
+/**
+ * 事典ファイルの内容を検証して GlossaryEntry の配列に変換
+ * @param source 警告に表示するファイル名
+ */
+export function parseBookGlossary(data: unknown, source = 'glossary.json'): GlossaryEntry[] {
+  const issues: string[] = []
+  const entries: GlossaryEntry[] = []
+
+  if (!isRecord(data)) {
+    addIssue(issues, 'entries', '配列で指定してください')
+  } else {
+    parseList(data.entries, 'entries', issues, parseEntry).forEach((entry) => {
+      if (entries.some((existing) => existing.id === entry.id)) {
+        addIssue(issues, `entries(id=${entry.id})`, 'id が重複しています')
+        return
+      }
+      entries.push(entry)
+    })
+  }
+
+  if (issues.length > 0) {
+    console.warn(`Invalid glossary data in ${source}:\n${issues.join('\n')}`)
+  }
+  return entries
+}
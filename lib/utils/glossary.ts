@@ -0,0 +1,52 @@
+/**
+ * 事典（人物・場所・用語）のユーティリティ
+ * 登場人物データと事典データをまとめ、読者の現在位置までに明かされた記述だけを取り出す
+ */
+
+import type { Character, RevealedFact } from '@/types/character'
+import type { GlossaryEntry, GlossaryFact } from '@/types/glossary'
+import { filterRevealed, isRevealed, toContentPosition } from './content-visibility'
+import type { ContentPosition } from './reading-state'
+
+function toGlossaryFact(fact: RevealedFact): GlossaryFact {
+  return fact.revealedAt
+    ? { text: fact.text, revealedAt: toContentPosition(fact.revealedAt) }
+    : { text: fact.text }
+}
+
+/**
+ * 登場人物データから人物の項目を作成（プロフィールの職業・性格・経歴を記述にする）
+ */
+export function createCharacterEntries(characters: Character[]): GlossaryEntry[] {
+  return characters.map((character) => {
+    const profile = character.profile
+    const facts = [
+      ...(profile?.occupation ? [profile.occupation] : []),
+      ...(profile?.personality ?? []),
+      ...(profile?.background ?? []),
+    ]
+    return {
+      id: `character-${character.id}`,
+      name: character.name,
+      category: 'character',
+      revealedAt: toContentPosition(character.appearance),
+      summary: profile?.description ?? '',
+      facts: facts.map(toGlossaryFact),
+    }
+  })
+}
+
+/**
+ * 現在位置までに登場した項目を、明かされた記述だけに絞って取得
+ */
+export function getRevealedEntries(
+  entries: GlossaryEntry[],
+  currentPosition?: ContentPosition | null,
+): GlossaryEntry[] {
+  return filterRevealed(entries, (entry) => entry.revealedAt, currentPosition).map((entry) => ({
+    ...entry,
+    facts: entry.facts.filter((fact) =>
+      isRevealed(fact.revealedAt ?? entry.revealedAt, currentPosition),
+    ),
+  }))
+}
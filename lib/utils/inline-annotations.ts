@@ -0,0 +1,62 @@
+/**
+ * インライン注記（ルビ・傍点・外字）の表示用ユーティリティ
+ */
+
+import type { InlineAnnotation } from '@/types/book'
+
+export interface AnnotatedTextPiece {
+  start: number
+  text: string
+  annotation?: InlineAnnotation
+}
+
+/**
+ * テキストを注記の有無で区切る
+ * 重なり合う注記は先に始まるものを優先する
+ */
+export function splitAnnotatedText(
+  text: string,
+  annotations: InlineAnnotation[] = [],
+): AnnotatedTextPiece[] {
+  const sorted = annotations
+    .filter((annotation) => annotation.start < annotation.end && annotation.end <= text.length)
+    .sort((a, b) => a.start - b.start)
+
+  const pieces: AnnotatedTextPiece[] = []
+  let cursor = 0
+
+  for (const annotation of sorted) {
+    if (annotation.start < cursor) continue
+
+    if (annotation.start > cursor) {
+      pieces.push({ start: cursor, text: text.slice(cursor, annotation.start) })
+    }
+    pieces.push({
+      start: annotation.start,
+      text: text.slice(annotation.start, annotation.end),
+      annotation,
+    })
+    cursor = annotation.end
+  }
+
+  if (cursor < text.length) {
+    pieces.push({ start: cursor, text: text.slice(cursor) })
+  }
+
+  return pieces
+}
+
+/**
+ * 指定位置で区切るとルビの親文字が分断される場合、そのルビを返す
+ */
+export function findRubySplitAt(
+  annotations: InlineAnnotation[],
+  index: number,
+): InlineAnnotation | null {
+  return (
+    annotations.find(
+      (annotation) =>
+        annotation.type === 'ruby' && annotation.start < index && index < annotation.end,
+    ) || null
+  )
+}
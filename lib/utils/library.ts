@@ -0,0 +1,80 @@
+/**
+ * 本棚のユーティリティ
+ * 保存している読書状態から書籍ごとの読書状況を求め、検索・絞り込み・並べ替えを行う
+ */
+
+import type { BookCatalogEntry } from '@/types/book'
+import type { ReadingStateStore } from './reading-state'
+
+// unread: 未読 / reading: 読書中 / finished: 読了
+export type ReadingStatus = 'unread' | 'reading' | 'finished'
+
+export type LibrarySort = 'recent' | 'title' | 'progress'
+
+export type LibraryFilter = 'all' | ReadingStatus
+
+export interface LibraryBook {
+  book: BookCatalogEntry
+  status: ReadingStatus
+  progress: number // 読んだ割合（0〜1）
+  lastReadAt: number | null // 読書位置を保存した日時（未読なら null）
+}
+
+export interface LibraryQuery {
+  search: string
+  filter: LibraryFilter
+  sort: LibrarySort
+}
+
+/**
+ * 書籍ごとの読書状況を求める
+ */
+export function buildLibrary(books: BookCatalogEntry[], store: ReadingStateStore): LibraryBook[] {
+  return books.map((book) => {
+    const state = store.books[book.id]
+    if (!state) {
+      return { book, status: 'unread', progress: 0, lastReadAt: null }
+    }
+    // 読んだ割合を保存する前の読書状態は、読書中として扱う
+    const progress = Math.max(0, Math.min(1, state.progress ?? 0))
+    return {
+      book,
+      status: progress >= 1 ? 'finished' : 'reading',
+      progress,
+      lastReadAt: state.timestamp,
+    }
+  })
+}
+
+// 全角・半角や大文字・小文字の違いを無視して比較する
+function normalizeSearchText(text: string): string {
+  return text.normalize('NFKC').toLowerCase().replace(/\s+/g, '')
+}
+
+function compareLibraryBooks(a: LibraryBook, b: LibraryBook, sort: LibrarySort): number {
+  switch (sort) {
+    case 'recent':
+      // 未読の書籍は後ろに並べる
+      return (b.lastReadAt ?? -1) - (a.lastReadAt ?? -1)
+    case 'title':
+      return a.book.title.localeCompare(b.book.title, 'ja')
+    case 'progress':
+      return b.progress - a.progress || (b.lastReadAt ?? -1) - (a.lastReadAt ?? -1)
+  }
+}
+
+/**
+ * 書名・著者名で検索し、読書状況で絞り込んで並べ替える（同順位は本棚の順序を保つ）
+ */
+export function queryLibrary(library: LibraryBook[], query: LibraryQuery): LibraryBook[] {
+  const keyword = normalizeSearchText(query.search)
+  return library
+    .filter((item) => query.filter === 'all' || item.status === query.filter)
+    .filter(
+      (item) =>
+        !keyword ||
+        normalizeSearchText(item.book.title).includes(keyword) ||
+        normalizeSearchText(item.book.author).includes(keyword),
+    )
+    .sort((a, b) => compareLibraryBooks(a, b, query.sort))
+}
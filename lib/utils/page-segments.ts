@@ -0,0 +1,163 @@
+/**
+ * ページ本文とブロック本文の対応付け
+ * ページ本文は「段落は全角スペースで字下げしたブロック本文の断片」を改行で連結したもので、
+ * ページネーション時に各断片がどのブロックのどの範囲に当たるかを PageSegment として記録する
+ */
+
+import type { BookData, InlineAnnotation } from '@/types/book'
+import { intersectRanges, isPositionInRange } from './content-position'
+import type { ContentPosition, ContentRange } from './reading-state'
+
+export interface PageSegment {
+  chapterId: number
+  blockId: number
+  pageStart: number // ページ本文内の開始位置
+  blockStart: number // ブロック本文内の開始位置（字下げを除く）
+  length: number
+}
+
+export class PageSegmentMapper {
+  // `${chapterId}-${blockId}` → ブロックの注記
+  private annotationsByBlock = new Map<string, InlineAnnotation[]>()
+  readonly hasAnnotations: boolean
+
+  constructor(bookData: BookData) {
+    for (const chapter of bookData.content.chapters) {
+      for (const block of chapter.blocks) {
+        if (block.annotations && block.annotations.length > 0) {
+          this.annotationsByBlock.set(`${chapter.id}-${block.id}`, block.annotations)
+        }
+      }
+    }
+    this.hasAnnotations = this.annotationsByBlock.size > 0
+  }
+
+  /**
+   * ブロック断片に含まれる注記をページ本文上の位置に変換
+   * ルビは親文字がすべてページ内にある場合のみ含める
+   */
+  getAnnotations(segments: PageSegment[]): InlineAnnotation[] {
+    const annotations: InlineAnnotation[] = []
+
+    for (const segment of segments) {
+      const blockAnnotations = this.annotationsByBlock.get(
+        `${segment.chapterId}-${segment.blockId}`,
+      )
+      if (!blockAnnotations) continue
+
+      const segmentEnd = segment.blockStart + segment.length
+      for (const annotation of blockAnnotations) {
+        const start = Math.max(annotation.start, segment.blockStart)
+        const end = Math.min(annotation.end, segmentEnd)
+        if (start >= end) continue
+        if (annotation.type === 'ruby' && (start !== annotation.start || end !== annotation.end)) {
+          continue
+        }
+
+        annotations.push({
+          ...annotation,
+          start: segment.pageStart + start - segment.blockStart,
+          end: segment.pageStart + end - segment.blockStart,
+        })
+      }
+    }
+
+    return annotations
+  }
+}
+
+type SegmentedPage = { metadata?: { segments?: PageSegment[] } }
+
+/**
+ * ページの先頭の文字の位置
+ */
+export function getPageStartPosition(page: SegmentedPage): ContentPosition | null {
+  const segment = page.metadata?.segments?.[0]
+  return segment ? getSegmentRange(segment).start : null
+}
+
+/**
+ * ページの末尾の位置（最後の文字の次の位置）
+ */
+export function getPageEndPosition(page: SegmentedPage): ContentPosition | null {
+  const segments = page.metadata?.segments
+  const segment = segments?.[segments.length - 1]
+  return segment ? getSegmentRange(segment).end : null
+}
+
+/**
+ * ブロック断片が表す本文上の範囲
+ */
+function getSegmentRange(segment: PageSegment): ContentRange {
+  const { chapterId, blockId } = segment
+  return {
+    start: { chapterId, blockId, characterOffset: segment.blockStart },
+    end: { chapterId, blockId, characterOffset: segment.blockStart + segment.length },
+  }
+}
+
+/**
+ * 指定した位置の文字を含むページのインデックス（見つからなければ -1）
+ */
+export function findPageBySegmentPosition(
+  pages: SegmentedPage[],
+  position: ContentPosition,
+): number {
+  return pages.findIndex((page) =>
+    (page.metadata?.segments || []).some((segment) =>
+      isPositionInRange(position, getSegmentRange(segment)),
+    ),
+  )
+}
+
+/**
+ * ページ本文上の範囲を本文上の範囲に変換（字下げや改行だけの範囲は null）
+ */
+export function mapPageRangeToContentRange(
+  segments: PageSegment[],
+  start: number,
+  end: number,
+): ContentRange | null {
+  const overlapping = segments.filter(
+    (segment) => start < segment.pageStart + segment.length && end > segment.pageStart,
+  )
+  const first = overlapping[0]
+  const last = overlapping[overlapping.length - 1]
+  if (!first || !last) return null
+
+  return {
+    start: {
+      chapterId: first.chapterId,
+      blockId: first.blockId,
+      characterOffset: first.blockStart + Math.max(0, start - first.pageStart),
+    },
+    end: {
+      chapterId: last.chapterId,
+      blockId: last.blockId,
+      characterOffset: last.blockStart + Math.min(last.length, end - last.pageStart),
+    },
+  }
+}
+
+/**
+ * 本文上の範囲をページ本文上の範囲に変換
+ * ブロックをまたぐ範囲は断片ごとに分かれ、ページに含まれない部分は除く
+ */
+export function mapContentRangeToPage(
+  segments: PageSegment[],
+  range: ContentRange,
+): { start: number; end: number }[] {
+  const pageRanges: { start: number; end: number }[] = []
+
+  for (const segment of segments) {
+    const overlap = intersectRanges(range, getSegmentRange(segment))
+    if (!overlap) continue
+
+    pageRanges.push({
+      start: segment.pageStart + overlap.start.characterOffset - segment.blockStart,
+      end: segment.pageStart + overlap.end.characterOffset - segment.blockStart,
+    })
+  }
+
+  return pageRanges
+}
@@ -0,0 +1,260 @@
+/**
+ * ページネーション結果のキャッシュ
+ * 書籍・本文・レイアウト条件ごとにページ境界を IndexedDB に保存し、同じ条件での再計算を省く
+ */
+
+import type { BookData } from '@/types/book'
+import type { PageSegment } from './page-segments'
+import { PAGINATION_ENGINE_VERSION, type Page } from './vertical-pagination'
+
+const DB_NAME = 'chavel-pagination-cache'
+const DB_VERSION = 1
+const STORE_NAME = 'paginations'
+const BOOK_INDEX = 'bookId'
+// 段落の字下げ（ページネーションと同じ全角スペース）
+const INDENT = '　'
+
+export interface PaginationCacheKey {
+  bookId: number
+  contentHash: string
+  fontSize: number
+  lineHeight: number
+  containerWidth: number
+  containerHeight: number
+  fontFamily: string
+  letterSpacing: number
+}
+
+// ページ境界（本文はブロックから復元できるので保存しない）
+type CachedPage = Omit<Page, 'id' | 'content'>
+type Block = BookData['content']['chapters'][number]['blocks'][number]
+
+interface PaginationCacheEntry {
+  key: string
+  bookId: number
+  contentHash: string
+  pages: CachedPage[]
+  createdAt: Date
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+const contentHashes = new WeakMap<BookData, string>()
+
+/**
+ * データベースを開く（バージョンごとにスキーマを移行）
+ */
+function openPaginationCacheDB(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result
+
+      // v1: ページネーション結果のストアと書籍IDのインデックスを作成
+      if (event.oldVersion < 1) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' })
+        store.createIndex(BOOK_INDEX, 'bookId')
+      }
+    }
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+
+  return dbPromise
+}
+
+/**
+ * IDBRequest を Promise に変換
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function isIndexedDBAvailable(): boolean {
+  return typeof window !== 'undefined' && !!window.indexedDB
+}
+
+/**
+ * 書籍本文のハッシュ（FNV-1a 32bit）
+ * 本文・ブロック種別・注記のいずれかが変われば別の値になる
+ */
+export function hashBookContent(bookData: BookData): string {
+  const cached = contentHashes.get(bookData)
+  if (cached) return cached
+
+  const source = JSON.stringify(bookData.content)
+  let hash = 0x811c9dc5
+  for (let i = 0; i < source.length; i++) {
+    hash ^= source.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+
+  const contentHash = (hash >>> 0).toString(16).padStart(8, '0')
+  contentHashes.set(bookData, contentHash)
+  return contentHash
+}
+
+/**
+ * キャッシュキーを文字列化（エンジンの版が変われば別のキーになる）
+ */
+function serializeCacheKey(key: PaginationCacheKey): string {
+  return [
+    `v${PAGINATION_ENGINE_VERSION}`,
+    key.bookId,
+    key.contentHash,
+    key.fontSize,
+    key.lineHeight,
+    `${key.containerWidth}x${key.containerHeight}`,
+    key.fontFamily,
+    key.letterSpacing,
+  ].join(':')
+}
+
+/**
+ * ブロックの断片をページ本文の offset の位置に置く文字列として復元
+ */
+function restorePiece(block: Block, segment: PageSegment, offset: number): string {
+  const text = block.text.slice(segment.blockStart, segment.blockStart + segment.length)
+  // 断片の前に1文字分の余白があれば、字下げから始まる断片
+  const includesIndent = block.type === 'paragraph' && segment.pageStart === offset + 1
+  return includesIndent ? `${INDENT}${text}` : text
+}
+
+/**
+ * ページ境界からページ本文を復元
+ * 各ブロックの断片は PageSegment から、字下げのみ・空のブロックは blockIds から組み立てる
+ */
+function restorePages(bookData: BookData, cachedPages: CachedPage[]): Page[] {
+  const blocks = new Map<string, Block>()
+  for (const chapter of bookData.content.chapters) {
+    for (const block of chapter.blocks) {
+      blocks.set(`${chapter.id}-${block.id}`, block)
+    }
+  }
+
+  return cachedPages.map((cachedPage, index) => {
+    const chapterId = cachedPage.metadata?.chapterId
+    const segments = cachedPage.metadata?.segments || []
+    const pieces: string[] = []
+    let offset = 0
+
+    for (const blockId of cachedPage.metadata?.blockIds || []) {
+      const block = blocks.get(`${chapterId}-${blockId}`)
+      const indent = block?.type === 'paragraph' ? INDENT : ''
+      const segment = segments.find((s) => s.blockId === blockId)
+      const piece = block && segment ? restorePiece(block, segment, offset) : indent
+
+      pieces.push(piece)
+      offset += piece.length + 1
+    }
+
+    return {
+      ...cachedPage,
+      id: `page-${index}`,
+      content: pieces.join('\n'),
+    }
+  })
+}
+
+/**
+ * キャッシュ済みのページを取得
+ * 同じ書籍で本文のハッシュが異なるキャッシュは古いものとして削除する
+ */
+export async function getCachedPagination(
+  bookData: BookData,
+  key: PaginationCacheKey,
+): Promise<Page[] | null> {
+  if (!isIndexedDBAvailable()) return null
+
+  try {
+    await invalidateStalePaginations(key.bookId, key.contentHash)
+
+    const db = await openPaginationCacheDB()
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME)
+    const entry = await promisifyRequest<PaginationCacheEntry | undefined>(
+      store.get(serializeCacheKey(key)),
+    )
+    if (!entry || entry.pages.length === 0) return null
+
+    return restorePages(bookData, entry.pages)
+  } catch (error) {
+    console.warn('Failed to load pagination cache from IndexedDB:', error)
+    return null
+  }
+}
+
+/**
+ * ページネーション結果を保存
+ */
+export async function saveCachedPagination(key: PaginationCacheKey, pages: Page[]): Promise<void> {
+  if (!isIndexedDBAvailable()) return
+
+  try {
+    const entry: PaginationCacheEntry = {
+      key: serializeCacheKey(key),
+      bookId: key.bookId,
+      contentHash: key.contentHash,
+      pages: pages.map(({ id: _id, content: _content, ...cachedPage }) => cachedPage),
+      createdAt: new Date(),
+    }
+
+    const db = await openPaginationCacheDB()
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME)
+    await promisifyRequest(store.put(entry))
+  } catch (error) {
+    console.warn('Failed to save pagination cache to IndexedDB:', error)
+  }
+}
+
+/**
+ * 本文が変わった書籍のキャッシュを削除
+ */
+export async function invalidateStalePaginations(
+  bookId: number,
+  contentHash: string,
+): Promise<void> {
+  if (!isIndexedDBAvailable()) return
+
+  const db = await openPaginationCacheDB()
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME)
+  const entries = await promisifyRequest<PaginationCacheEntry[]>(
+    store.index(BOOK_INDEX).getAll(bookId),
+  )
+
+  await Promise.all(
+    entries
+      .filter((entry) => entry.contentHash !== contentHash)
+      .map((entry) => promisifyRequest(store.delete(entry.key))),
+  )
+}
+
+/**
+ * ページネーションのキャッシュを削除（書籍IDを省略すると全書籍）
+ */
+export async function clearPaginationCache(bookId?: number): Promise<void> {
+  if (!isIndexedDBAvailable()) return
+
+  try {
+    const db = await openPaginationCacheDB()
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME)
+
+    if (bookId === undefined) {
+      await promisifyRequest(store.clear())
+      return
+    }
+
+    const keys = await promisifyRequest(store.index(BOOK_INDEX).getAllKeys(bookId))
+    await Promise.all(keys.map((key) => promisifyRequest(store.delete(key))))
+  } catch (error) {
+    console.warn('Failed to clear pagination cache:', error)
+  }
+}
@@ -0,0 +1,164 @@
+import { readFileSync } from 'node:fs'
+import { describe, expect, it } from 'vitest'
+import { importPlainText, isConversationLine } from './plain-text-importer'
+
+const WAGAHAI_TEXT = readFileSync(
+  new URL('../../original/吾輩は猫である.txt', import.meta.url),
+  'utf-8',
+)
+
+describe('importPlainText（吾輩は猫である）', () => {
+  const bookData = importPlainText(WAGAHAI_TEXT)
+  const chapters = bookData.content.chapters
+  const blocks = chapters.flatMap((chapter) => chapter.blocks)
+
+  it('1行目をタイトル、2行目を著者とする', () => {
+    expect(bookData.metadata).toEqual({ id: 1, title: '吾輩は猫である', author: '夏目漱石' })
+  })
+
+  it('漢数字の見出しで11章に分ける', () => {
+    expect(chapters.map((chapter) => chapter.title)).toEqual([
+      '一',
+      '二',
+      '三',
+      '四',
+      '五',
+      '六',
+      '七',
+      '八',
+      '九',
+      '十',
+      '十一',
+    ])
+    expect(chapters.map((chapter) => chapter.id)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11])
+  })
+
+  it('章ごとのブロック数が変わらない（ブロックIDはキャラクターの公開位置などから参照される）', () => {
+    expect(chapters.map((chapter) => chapter.blocks.length)).toEqual([
+      33, 152, 31, 208, 215, 48, 59, 183, 230, 418, 668,
+    ])
+    for (const chapter of chapters) {
+      expect(chapter.blocks.map((block) => block.id)).toEqual(
+        chapter.blocks.map((_, index) => index + 1),
+      )
+    }
+  })
+
+  it('字下げを除いた本文をブロックにし、会話文を判定する', () => {
+    expect(chapters[0].blocks[0]).toEqual({
+      id: 1,
+      type: 'paragraph',
+      text: '吾輩は猫である。名前はまだ無い。',
+    })
+    expect(blocks.filter((block) => block.type === 'conversation')).toHaveLength(1499)
+    for (const block of blocks) {
+      expect(block.text).not.toBe('')
+      expect(block.text).toBe(block.text.trim())
+    }
+  })
+
+  it('注記を本文に残さず、底本情報より後は取り込まない', () => {
+    const text = blocks.map((block) => block.text).join('\n')
+    expect(text).not.toContain('［＃')
+    expect(text).not.toContain('《')
+    expect(text).not.toContain('底本：')
+    expect(text).not.toContain('※(')
+    // 校訂の注記は読み捨てる
+    expect(chapters[3].blocks[161].text).toContain('曾呂崎の親友')
+    expect(chapters[3].blocks[161].text).not.toContain('底本では')
+  })
+
+  it('括弧書きの外字注記を外字の注記にする', () => {
+    const gaiji = blocks.flatMap((block) =>
+      (block.annotations ?? []).filter((annotation) => annotation.type === 'gaiji'),
+    )
+    expect(gaiji).toHaveLength(35)
+    expect(gaiji).toContainEqual(
+      expect.objectContaining({ description: '「火＋（麈－鹿）」、第3水準1-87-40' }),
+    )
+  })
+})
+
+describe('importPlainText（注記）', () => {
+  const importBody = (body: string) =>
+    importPlainText(`題名\n著者\n\n一\n\n${body}\n`).content.chapters[0].blocks
+
+  it('ルビを親文字の範囲の注記にする', () => {
+    const [block] = importBody('　吾輩《わがはい》は｜猫である《ねこ》。')
+    expect(block.text).toBe('吾輩は猫である。')
+    expect(block.annotations).toEqual([
+      { type: 'ruby', start: 0, end: 2, text: 'わがはい' },
+      { type: 'ruby', start: 3, end: 7, text: 'ねこ' },
+    ])
+  })
+
+  it('傍点と外字注記を注記にする', () => {
+    const [block] = importBody(
+      '名前はまだ無い［＃「無い」に傍点］。※［＃「口＋世」、第3水準1-14-85］※［＃「木＋吶のつくり」、U+6798、123-4］',
+    )
+    expect(block.text).toBe('名前はまだ無い。※枘')
+    expect(block.annotations).toEqual([
+      { type: 'emphasis', start: 5, end: 7, style: 'sesame' },
+      { type: 'gaiji', start: 8, end: 9, description: '「口＋世」、第3水準1-14-85' },
+    ])
+  })
+
+  it('括弧書きの外字注記（※(…)）も注記にする', () => {
+    const [block] = importBody(
+      '※(「彑／（「比」の間に「矢」）」、第3水準1-84-28)と※(リガチャAE小文字)(括弧)',
+    )
+    expect(block.text).toBe('※と※(括弧)')
+    expect(block.annotations).toEqual([
+      {
+        type: 'gaiji',
+        start: 0,
+        end: 1,
+        description: '「彑／（「比」の間に「矢」）」、第3水準1-84-28',
+      },
+      { type: 'gaiji', start: 2, end: 3, description: 'リガチャAE小文字' },
+    ])
+  })
+
+  it('字下げの注記やルビのない行には注記を付けない', () => {
+    const [block] = importBody('［＃３字下げ］見出しのような行')
+    expect(block.text).toBe('見出しのような行')
+    expect(block.annotations).toBeUndefined()
+  })
+
+  it('記号の説明・BOM・CRLF を扱う', () => {
+    const text = [
+      '\uFEFF題名',
+      '著者',
+      '-------------------------------------------------------',
+      '【テキスト中に現れる記号について】',
+      '一',
+      '-------------------------------------------------------',
+      '一',
+      '「会話」',
+      '地の文',
+      '底本：どこかの全集',
+      '二',
+    ].join('\r\n')
+    const bookData = importPlainText(text, { bookId: 7 })
+
+    expect(bookData.metadata).toEqual({ id: 7, title: '題名', author: '著者' })
+    expect(bookData.content.chapters).toEqual([
+      {
+        id: 1,
+        title: '一',
+        blocks: [
+          { id: 1, type: 'conversation', text: '「会話」' },
+          { id: 2, type: 'paragraph', text: '地の文' },
+        ],
+      },
+    ])
+  })
+})
+
+describe('isConversationLine', () => {
+  it('「で始まり」で終わる行だけを会話文とする', () => {
+    expect(isConversationLine('「そうか」')).toBe(true)
+    expect(isConversationLine('「そうか」と言った')).toBe(false)
+    expect(isConversationLine('そうか')).toBe(false)
+  })
+})
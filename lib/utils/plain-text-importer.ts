@@ -0,0 +1,164 @@
+/**
+ * プレーンテキスト（青空文庫形式）を BookData に変換するインポーター
+ * 1行目をタイトル、2行目を著者とし、章見出し行で章を区切る
+ * ルビ・傍点・外字注記はブロックのインライン注記として保持する
+ */
+
+import type { BookData } from '@/types/book'
+import { parseAozoraLine } from './aozora-markup'
+
+type Chapter = BookData['content']['chapters'][number]
+type Block = Chapter['blocks'][number]
+
+export interface PlainTextImportOptions {
+  // 書籍ID（metadata.id）
+  bookId?: number
+  // 章見出しとして扱う行のパターン（前後の空白を除いた1行全体に対して判定）
+  chapterHeadingPattern?: RegExp
+  // 本文として扱わない行のパターン
+  ignoredLinePatterns?: RegExp[]
+  // この行以降は本文として扱わない（底本情報など）
+  endMarkerPattern?: RegExp
+}
+
+// 漢数字のみの行（一, 二, …, 十一, 百二十など）を章見出しとみなす
+export const DEFAULT_CHAPTER_HEADING_PATTERN = /^[一二三四五六七八九十百千〇]+$/
+export const DEFAULT_IGNORED_LINE_PATTERNS = [/^\+?目次$/]
+export const DEFAULT_END_MARKER_PATTERN = /^底本[:：]/
+// 冒頭の【テキスト中に現れる記号について】を囲む区切り線
+const NOTATION_SEPARATOR_PATTERN = /^-{10,}$/
+
+/**
+ * 会話文かどうかを判定（「で始まり」で終わる行のみ）
+ */
+export function isConversationLine(line: string): boolean {
+  return line.startsWith('「') && line.endsWith('」')
+}
+
+// 注記を取り除いた1行の本文と、その本文上の注記
+interface BodyLine {
+  text: string
+  annotations: NonNullable<Block['annotations']>
+}
+
+/**
+ * 記号の説明と底本情報を除いた本文の行を読み出す
+ */
+function* readBodyLines(lines: string[], endMarkerPattern: RegExp): Generator<string> {
+  let inNotationSection = false
+
+  for (const rawLine of lines) {
+    if (NOTATION_SEPARATOR_PATTERN.test(rawLine.trim())) {
+      inNotationSection = !inNotationSection
+      continue
+    }
+    if (inNotationSection) continue
+
+    if (endMarkerPattern.test(rawLine.trim())) return
+    yield rawLine
+  }
+}
+
+/**
+ * 注記を取り除き、全角スペースの字下げも含めて前後の空白を除去
+ */
+function parseBodyLine(rawLine: string): BodyLine {
+  const parsed = parseAozoraLine(rawLine)
+  const leadingSpaces = parsed.text.length - parsed.text.trimStart().length
+  const text = parsed.text.trim()
+
+  // 字下げ分を差し引いて注記の位置をブロック本文に合わせる
+  const annotations = parsed.annotations
+    .map((annotation) => ({
+      ...annotation,
+      start: annotation.start - leadingSpaces,
+      end: annotation.end - leadingSpaces,
+    }))
+    .filter((annotation) => annotation.start >= 0 && annotation.end <= text.length)
+
+  return { text, annotations }
+}
+
+function createBlock(id: number, { text, annotations }: BodyLine): Block {
+  const block: Block = {
+    id,
+    type: isConversationLine(text) ? 'conversation' : 'paragraph',
+    text,
+  }
+  if (annotations.length > 0) {
+    block.annotations = annotations
+  }
+  return block
+}
+
+/**
+ * 本文の行を章見出しで章に分け、各章のブロックにする
+ */
+function splitChapters(
+  bodyLines: Iterable<string>,
+  chapterHeadingPattern: RegExp,
+  ignoredLinePatterns: RegExp[],
+): Chapter[] {
+  const chapters: Chapter[] = []
+  let currentChapter: Chapter | null = null
+
+  for (const rawLine of bodyLines) {
+    const line = parseBodyLine(rawLine)
+    if (!line.text) continue
+
+    // 章の開始を検出
+    if (chapterHeadingPattern.test(line.text)) {
+      currentChapter = {
+        id: chapters.length + 1,
+        title: line.text,
+        blocks: [],
+      }
+      chapters.push(currentChapter)
+      continue
+    }
+
+    // 本文は章が始まった後のみ処理
+    if (!currentChapter) continue
+    if (ignoredLinePatterns.some((pattern) => pattern.test(line.text))) continue
+
+    currentChapter.blocks.push(createBlock(currentChapter.blocks.length + 1, line))
+  }
+
+  return chapters
+}
+
+/**
+ * プレーンテキストを BookData に変換
+ */
+export function importPlainText(text: string, options: PlainTextImportOptions = {}): BookData {
+  const {
+    bookId = 1,
+    chapterHeadingPattern = DEFAULT_CHAPTER_HEADING_PATTERN,
+    ignoredLinePatterns = DEFAULT_IGNORED_LINE_PATTERNS,
+    endMarkerPattern = DEFAULT_END_MARKER_PATTERN,
+  } = options
+
+  // BOM と改行コードの差異を吸収
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/)
+
+  // メタデータを抽出
+  const title = (lines[0] || '').trim()
+  const author = (lines[1] || '').trim()
+
+  const chapters = splitChapters(
+    readBodyLines(lines.slice(2), endMarkerPattern),
+    chapterHeadingPattern,
+    ignoredLinePatterns,
+  )
+
+  return {
+    metadata: {
+      id: bookId,
+      title,
+      author,
+    },
+    content: {
+      chapters,
+    },
+  }
+}
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest'
+import {
+  addPageView,
+  estimateTimeLeftMs,
+  formatDuration,
+  getCharactersPerMinute,
+  getReadingStreak,
+  getRecentDailyDurations,
+  type PageView,
+  type ReadingAnalytics,
+} from './reading-analytics'
+
+const SECOND = 1000
+const MINUTE = 60 * SECOND
+
+// ローカル時刻の日時
+const at = (month: number, day: number, hour = 12, minute = 0) =>
+  new Date(2024, month - 1, day, hour, minute).getTime()
+
+const emptyAnalytics = (): ReadingAnalytics => ({ books: {}, dailyDurationMs: {} })
+
+const pageView = (enteredAt: number, dwellMs: number, overrides: Partial<PageView> = {}) => ({
+  bookId: '1',
+  enteredAt,
+  leftAt: enteredAt + dwellMs,
+  characters: 400,
+  isSequential: true,
+  ...overrides,
+})
+
+// 日付ごとに読書時間のある記録
+const analyticsWithDays = (...dateKeys: string[]): ReadingAnalytics => ({
+  books: {},
+  dailyDurationMs: Object.fromEntries(dateKeys.map((dateKey) => [dateKey, MINUTE])),
+})
+
+describe('addPageView', () => {
+  it('滞在時間と文字数を書籍と日付ごとに加え、元の記録は変更しない', () => {
+    const analytics = emptyAnalytics()
+    const next = addPageView(analytics, pageView(at(3, 1, 21), MINUTE))
+
+    expect(next.books['1']).toEqual({
+      bookId: '1',
+      totalDurationMs: MINUTE,
+      speedDurationMs: MINUTE,
+      speedCharacters: 400,
+      sessionCount: 1,
+      lastReadAt: at(3, 1, 21, 1),
+    })
+    expect(next.dailyDurationMs).toEqual({ '2024-03-01': MINUTE })
+    expect(analytics).toEqual(emptyAnalytics())
+  })
+
+  it('5分を超える滞在は5分までを読書時間とし、読む速さには含めない', () => {
+    const next = addPageView(emptyAnalytics(), pageView(at(3, 1), 20 * MINUTE))
+
+    expect(next.books['1'].totalDurationMs).toBe(5 * MINUTE)
+    expect(next.books['1'].speedDurationMs).toBe(0)
+    expect(next.books['1'].speedCharacters).toBe(0)
+  })
+
+  it('3秒未満の滞在や順にめくっていないページは読む速さに含めない', () => {
+    let analytics = addPageView(emptyAnalytics(), pageView(at(3, 1), 2 * SECOND))
+    analytics = addPageView(analytics, pageView(at(3, 1, 13), MINUTE, { isSequential: false }))
+
+    expect(analytics.books['1'].totalDurationMs).toBe(MINUTE + 2 * SECOND)
+    expect(analytics.books['1'].speedDurationMs).toBe(0)
+  })
+
+  it('滞在時間が 0 以下なら記録しない', () => {
+    const analytics = emptyAnalytics()
+    expect(addPageView(analytics, pageView(at(3, 1), 0))).toBe(analytics)
+    expect(addPageView(analytics, pageView(at(3, 1), -MINUTE))).toBe(analytics)
+  })
+
+  it('前回の記録から30分を超えて空いたら新しいセッションとして数える', () => {
+    let analytics = addPageView(emptyAnalytics(), pageView(at(3, 1, 12, 0), MINUTE))
+    // 前回の記録（12:01）からちょうど30分後は同じセッション
+    analytics = addPageView(analytics, pageView(at(3, 1, 12, 31), MINUTE))
+    expect(analytics.books['1'].sessionCount).toBe(1)
+
+    analytics = addPageView(analytics, pageView(at(3, 1, 13, 3), MINUTE))
+    expect(analytics.books['1'].sessionCount).toBe(2)
+  })
+})
+
+describe('getCharactersPerMinute / estimateTimeLeftMs', () => {
+  it('読む速さの記録から1分あたりの文字数を求める', () => {
+    let analytics = addPageView(emptyAnalytics(), pageView(at(3, 1), 2 * MINUTE))
+    analytics = addPageView(analytics, pageView(at(3, 1), MINUTE, { bookId: '2', characters: 100 }))
+
+    expect(getCharactersPerMinute(analytics, '1')).toBe(200)
+    expect(getCharactersPerMinute(analytics)).toBeCloseTo(500 / 3)
+    expect(getCharactersPerMinute(analytics, '3')).toBeNull()
+    expect(getCharactersPerMinute(emptyAnalytics())).toBeNull()
+  })
+
+  it('残りの文字数を読み終えるまでの時間を求める', () => {
+    expect(estimateTimeLeftMs(1000, 500)).toBe(2 * MINUTE)
+    expect(estimateTimeLeftMs(0, 500)).toBe(0)
+    expect(estimateTimeLeftMs(1000, 0)).toBe(0)
+  })
+})
+
+describe('getReadingStreak', () => {
+  it('今日まで続いている日数と最長の日数を数える（月をまたぐ）', () => {
+    const analytics = analyticsWithDays(
+      '2024-02-10',
+      '2024-02-11',
+      '2024-02-12',
+      '2024-02-13',
+      '2024-02-28',
+      '2024-02-29',
+      '2024-03-01',
+    )
+    expect(getReadingStreak(analytics, at(3, 1))).toEqual({ current: 3, longest: 4 })
+  })
+
+  it('今日まだ読んでいなければ昨日まで続いている日数を数える', () => {
+    const analytics = analyticsWithDays('2024-02-29', '2024-03-01')
+    expect(getReadingStreak(analytics, at(3, 2)).current).toBe(2)
+    expect(getReadingStreak(analytics, at(3, 3)).current).toBe(0)
+  })
+
+  it('読書時間が 0 の日は数えない', () => {
+    const analytics = analyticsWithDays('2024-02-29', '2024-03-01')
+    analytics.dailyDurationMs['2024-02-29'] = 0
+    expect(getReadingStreak(analytics, at(3, 1))).toEqual({ current: 1, longest: 1 })
+    expect(getReadingStreak(emptyAnalytics(), at(3, 1))).toEqual({ current: 0, longest: 0 })
+  })
+})
+
+describe('getRecentDailyDurations', () => {
+  it('今日を含む直近の日を古い順に並べる', () => {
+    const analytics = analyticsWithDays('2024-02-29')
+    expect(getRecentDailyDurations(analytics, 3, at(3, 1, 0, 30))).toEqual([
+      { dateKey: '2024-02-28', durationMs: 0 },
+      { dateKey: '2024-02-29', durationMs: MINUTE },
+      { dateKey: '2024-03-01', durationMs: 0 },
+    ])
+  })
+})
+
+describe('formatDuration', () => {
+  it('分に丸めて時間と分で表す', () => {
+    expect(formatDuration(29 * SECOND)).toBe('1分未満')
+    expect(formatDuration(30 * SECOND)).toBe('1分')
+    expect(formatDuration(59 * MINUTE + 40 * SECOND)).toBe('1時間')
+    expect(formatDuration(65 * MINUTE)).toBe('1時間5分')
+    expect(formatDuration(120 * MINUTE)).toBe('2時間')
+  })
+})
@@ -0,0 +1,239 @@
+/**
+ * 読書記録のユーティリティ
+ * ページごとの滞在時間と読んだ文字数を localStorage に記録し、読書時間・読む速さ・連続読書日数を求める
+ */
+
+export interface BookReadingStats {
+  bookId: string
+  totalDurationMs: number // ページに滞在した時間の合計
+  speedDurationMs: number // 読む速さの計算に使う、順にページをめくった時の滞在時間の合計
+  speedCharacters: number // 同じく、その間に読んだ文字数の合計
+  sessionCount: number
+  lastReadAt: number
+}
+
+export interface ReadingAnalytics {
+  books: Record<string, BookReadingStats>
+  dailyDurationMs: Record<string, number> // 日付（YYYY-MM-DD）ごとの読書時間
+}
+
+// ページの閲覧（ページを離れた時点で記録する）
+export interface PageView {
+  bookId: string
+  enteredAt: number
+  leftAt: number
+  characters: number // ページの文字数
+  isSequential: boolean // 次のページへ順にめくったか（シークや前のページへの移動は含まない）
+}
+
+export interface ReadingStreak {
+  current: number // 今日（今日まだ読んでいなければ昨日）まで続いている日数
+  longest: number
+}
+
+const STORAGE_KEY = 'chavel-reading-analytics'
+
+// 1ページにこれより長く留まった分は離席とみなして数えない
+const MAX_PAGE_DWELL_MS = 5 * 60 * 1000
+// これより短い滞在は読み飛ばしとみなし、読む速さの計算に含めない
+const MIN_READING_DWELL_MS = 3 * 1000
+// 前回の記録からこれだけ空いたら新しい読書セッションとみなす
+const SESSION_GAP_MS = 30 * 60 * 1000
+// 記録がまだない場合の読む速さ（1分あたりの文字数）
+export const DEFAULT_CHARACTERS_PER_MINUTE = 500
+
+function createEmptyAnalytics(): ReadingAnalytics {
+  return { books: {}, dailyDurationMs: {} }
+}
+
+/**
+ * 日付のキー（ローカル時刻の YYYY-MM-DD）
+ */
+export function toDateKey(time: number): string {
+  const date = new Date(time)
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * localStorage から読書記録を取得
+ */
+export function getReadingAnalytics(): ReadingAnalytics {
+  if (typeof window === 'undefined') return createEmptyAnalytics()
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (!stored) return createEmptyAnalytics()
+
+    const analytics = JSON.parse(stored) as Partial<ReadingAnalytics>
+    return {
+      books: analytics.books ?? {},
+      dailyDurationMs: analytics.dailyDurationMs ?? {},
+    }
+  } catch (error) {
+    console.warn('Failed to parse reading analytics from localStorage:', error)
+    return createEmptyAnalytics()
+  }
+}
+
+/**
+ * localStorage に読書記録を保存
+ */
+export function saveReadingAnalytics(analytics: ReadingAnalytics): void {
+  if (typeof window === 'undefined') return
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(analytics))
+  } catch (error) {
+    console.warn('Failed to save reading analytics to localStorage:', error)
+  }
+}
+
+/**
+ * ページの閲覧を読書記録に加える（元の記録は変更しない）
+ */
+export function addPageView(analytics: ReadingAnalytics, view: PageView): ReadingAnalytics {
+  const elapsedMs = Math.max(0, view.leftAt - view.enteredAt)
+  const dwellMs = Math.min(elapsedMs, MAX_PAGE_DWELL_MS)
+  if (dwellMs === 0) return analytics
+
+  const previous = analytics.books[view.bookId]
+  const isNewSession = !previous || view.enteredAt - previous.lastReadAt > SESSION_GAP_MS
+  // 離席を含む滞在は読む速さの計算に含めない
+  const countsForSpeed =
+    view.isSequential &&
+    view.characters > 0 &&
+    elapsedMs >= MIN_READING_DWELL_MS &&
+    elapsedMs <= MAX_PAGE_DWELL_MS
+  const dateKey = toDateKey(view.enteredAt)
+
+  return {
+    books: {
+      ...analytics.books,
+      [view.bookId]: {
+        bookId: view.bookId,
+        totalDurationMs: (previous?.totalDurationMs ?? 0) + dwellMs,
+        speedDurationMs: (previous?.speedDurationMs ?? 0) + (countsForSpeed ? dwellMs : 0),
+        speedCharacters: (previous?.speedCharacters ?? 0) + (countsForSpeed ? view.characters : 0),
+        sessionCount: (previous?.sessionCount ?? 0) + (isNewSession ? 1 : 0),
+        lastReadAt: view.leftAt,
+      },
+    },
+    dailyDurationMs: {
+      ...analytics.dailyDurationMs,
+      [dateKey]: (analytics.dailyDurationMs[dateKey] ?? 0) + dwellMs,
+    },
+  }
+}
+
+/**
+ * ページの閲覧を記録して保存
+ */
+export function recordPageView(view: PageView): ReadingAnalytics {
+  const analytics = addPageView(getReadingAnalytics(), view)
+  saveReadingAnalytics(analytics)
+  return analytics
+}
+
+/**
+ * 1分あたりに読む文字数（記録がなければ null）
+ * bookId を省略すると全ての書籍の記録から求める
+ */
+export function getCharactersPerMinute(
+  analytics: ReadingAnalytics,
+  bookId?: string,
+): number | null {
+  const stats = bookId
+    ? [analytics.books[bookId]].filter((book): book is BookReadingStats => !!book)
+    : Object.values(analytics.books)
+  const durationMs = stats.reduce((sum, book) => sum + book.speedDurationMs, 0)
+  const characters = stats.reduce((sum, book) => sum + book.speedCharacters, 0)
+  return durationMs > 0 ? characters / (durationMs / 60000) : null
+}
+
+/**
+ * 残りの文字数を読み終えるまでの時間の目安(ms)
+ */
+export function estimateTimeLeftMs(
+  remainingCharacters: number,
+  charactersPerMinute: number,
+): number {
+  if (remainingCharacters <= 0 || charactersPerMinute <= 0) return 0
+  return (remainingCharacters / charactersPerMinute) * 60000
+}
+
+/**
+ * 連続して読書した日数
+ */
+export function getReadingStreak(analytics: ReadingAnalytics, now = Date.now()): ReadingStreak {
+  const days = new Set(
+    Object.entries(analytics.dailyDurationMs)
+      .filter(([, durationMs]) => durationMs > 0)
+      .map(([dateKey]) => dateKey),
+  )
+
+  // 前日の日付キー（夏時間でも日付がずれないよう正午を基準にする）
+  const previousDay = (dateKey: string) => {
+    const [year, month, day] = dateKey.split('-').map(Number)
+    return toDateKey(new Date(year, month - 1, day - 1, 12).getTime())
+  }
+
+  let longest = 0
+  for (const dateKey of days) {
+    // 連続する日の最初の日から数える
+    if (days.has(previousDay(dateKey))) continue
+    let length = 1
+    let next = dateKey
+    for (;;) {
+      const [year, month, day] = next.split('-').map(Number)
+      next = toDateKey(new Date(year, month - 1, day + 1, 12).getTime())
+      if (!days.has(next)) break
+      length++
+    }
+    longest = Math.max(longest, length)
+  }
+
+  const today = toDateKey(now)
+  let current = 0
+  let dateKey = days.has(today) ? today : previousDay(today)
+  while (days.has(dateKey)) {
+    current++
+    dateKey = previousDay(dateKey)
+  }
+
+  return { current, longest }
+}
+
+/**
+ * 直近の日ごとの読書時間（古い日から順に、今日を含む）
+ */
+export function getRecentDailyDurations(
+  analytics: ReadingAnalytics,
+  dayCount: number,
+  now = Date.now(),
+): { dateKey: string; durationMs: number }[] {
+  const date = new Date(now)
+  return Array.from({ length: dayCount }, (_, index) => {
+    const dateKey = toDateKey(
+      new Date(
+        date.getFullYear(),
+        date.getMonth(),
+        date.getDate() - (dayCount - 1 - index),
+        12,
+      ).getTime(),
+    )
+    return { dateKey, durationMs: analytics.dailyDurationMs[dateKey] ?? 0 }
+  })
+}
+
+/**
+ * 読書時間の表示（例: 1時間5分、3分、1分未満）
+ */
+export function formatDuration(durationMs: number): string {
+  const minutes = Math.round(durationMs / 60000)
+  if (minutes < 1) return '1分未満'
+  const hours = Math.floor(minutes / 60)
+  if (hours === 0) return `${minutes}分`
+  return minutes % 60 === 0 ? `${hours}時間` : `${hours}時間${minutes % 60}分`
+}
@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { type BookReadingState, getReadingStateStore, migrateReadingState } from './reading-state'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const bookState = (timestamp: number): BookReadingState => ({
+  currentPosition: { chapterId: 2, blockId: 3, characterOffset: 4 },
+  viewSettings: { fontSize: 24, lineHeight: 2 },
+  progress: 0.25,
+  timestamp,
+})
+
+const emptyStore = { version: 2, lastOpenedBookId: null, books: {} }
+
+describe('migrateReadingState', () => {
+  it('version 1 の読書状態を、その書籍の読書状態として引き継ぐ', () => {
+    expect(migrateReadingState({ selectedBookId: '1', ...bookState(1_000) })).toEqual({
+      version: 2,
+      lastOpenedBookId: '1',
+      books: { 1: bookState(1_000) },
+    })
+  })
+
+  it('30日以上前の読書状態も引き継ぐ', () => {
+    const timestamp = Date.now() - 90 * DAY_MS
+    expect(
+      migrateReadingState({ selectedBookId: '1', ...bookState(timestamp) }).books['1'],
+    ).toEqual(bookState(timestamp))
+  })
+
+  it('壊れたデータは空のストアにする', () => {
+    for (const data of [null, undefined, 'state', 42, [], {}]) {
+      expect(migrateReadingState(data)).toEqual(emptyStore)
+    }
+    expect(migrateReadingState({ selectedBookId: '', ...bookState(1_000) })).toEqual(emptyStore)
+    expect(
+      migrateReadingState({ selectedBookId: '1', ...bookState(1_000), currentPosition: null }),
+    ).toEqual(emptyStore)
+    expect(migrateReadingState({ version: 2, books: 'books' })).toEqual(emptyStore)
+  })
+
+  it('version 2 のデータは形式の正しい書籍だけを残す', () => {
+    const store = migrateReadingState({
+      version: 2,
+      lastOpenedBookId: '2',
+      books: {
+        1: { ...bookState(1_000), extra: 'dropped' },
+        2: { ...bookState(2_000), timestamp: 'yesterday' },
+      },
+    })
+
+    expect(store).toEqual({ version: 2, lastOpenedBookId: null, books: { 1: bookState(1_000) } })
+  })
+
+  it('version 2 のデータはそのまま読み込む', () => {
+    const store = {
+      version: 2,
+      lastOpenedBookId: '2',
+      books: { 1: bookState(1_000), 2: bookState(2_000) },
+    }
+    expect(migrateReadingState(store)).toEqual(store)
+  })
+})
+
+describe('getReadingStateStore', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('version 1 のデータは変換して保存し直す', () => {
+    const storage = new Map([
+      ['chavel-reading-state', JSON.stringify({ selectedBookId: '1', ...bookState(1_000) })],
+    ])
+    vi.stubGlobal('window', {})
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+    })
+
+    const store = getReadingStateStore()
+    expect(store.lastOpenedBookId).toBe('1')
+    expect(JSON.parse(storage.get('chavel-reading-state') ?? '')).toEqual(store)
+  })
+})
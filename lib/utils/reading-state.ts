@@ -1,6 +1,7 @@
 /**
  * 読書状態管理のユーティリティ
  * localStorage を活用した読書位置の永続化
+ * 書籍ごとの読書位置・表示設定と、最後に開いた書籍を1つのストアにまとめて保存する
  */
 
 export interface ContentPosition {
@@ -9,9 +10,21 @@ export interface ContentPosition {
   characterOffset: number
 }
 
+// 本文上の範囲（end の文字は含まない）
+export interface ContentRange {
+  start: ContentPosition
+  end: ContentPosition
+}
+
+// 本文の書体（serif: Noto Serif JP, sans: Noto Sans JP）
+export type ReaderFontFamily = 'serif' | 'sans'
+
 export interface ViewSettings {
   fontSize: number
   lineHeight: number
+  letterSpacing?: number // 字間(em)
+  fontFamily?: ReaderFontFamily
+  margin?: number // 本文の左右の余白(px)
   containerWidth?: number
   containerHeight?: number
 }
@@ -20,64 +33,171 @@ export interface ReadingState {
   selectedBookId: string
   currentPosition: ContentPosition
   viewSettings: ViewSettings
+  progress?: number // 読書位置までに読んだ割合（0〜1、本棚の表示用）
   timestamp: number
 }
 
+// 書籍ごとの読書状態
+export type BookReadingState = Omit<ReadingState, 'selectedBookId'>
+
+// localStorage に保存する形式（version 1 は最後に開いた書籍の ReadingState だけを保存していた）
+export interface ReadingStateStore {
+  version: 2
+  lastOpenedBookId: string | null
+  books: Record<string, BookReadingState>
+}
+
 const STORAGE_KEY = 'chavel-reading-state'
+const STORE_VERSION = 2
+
+// 利用者が変更できる書式（コンテナサイズ以外の表示設定）
+export type TypographySettings = Required<Omit<ViewSettings, 'containerWidth' | 'containerHeight'>>
 
 /**
- * localStorage から読書状態を取得
+ * リーダーの表示設定の既定値
  */
-export function getReadingState(): ReadingState | null {
-  if (typeof window === 'undefined') return null
+export const DEFAULT_VIEW_SETTINGS: TypographySettings = {
+  fontSize: 24,
+  lineHeight: 2,
+  letterSpacing: 0.1,
+  fontFamily: 'serif',
+  margin: 40
+}
+
+function createEmptyStore(): ReadingStateStore {
+  return { version: STORE_VERSION, lastOpenedBookId: null, books: {} }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// データの整合性チェック
+function isBookReadingState(value: unknown): value is BookReadingState {
+  if (!isRecord(value) || !isRecord(value.currentPosition) || !isRecord(value.viewSettings)) {
+    return false
+  }
+  const position = value.currentPosition
+  return (
+    typeof position.chapterId === 'number' &&
+    typeof position.blockId === 'number' &&
+    typeof position.characterOffset === 'number' &&
+    typeof value.timestamp === 'number' &&
+    (value.progress === undefined || typeof value.progress === 'number')
+  )
+}
+
+function toBookReadingState(state: ReadingState | BookReadingState): BookReadingState {
+  return {
+    currentPosition: state.currentPosition,
+    viewSettings: state.viewSettings,
+    progress: state.progress,
+    timestamp: state.timestamp
+  }
+}
+
+/**
+ * 保存されていたデータを現在の形式に変換
+ * version 1（最後に開いた書籍の ReadingState のみ）はその書籍の読書状態として引き継ぐ
+ * 古い読書状態も破棄しない（以前は30日で無効にしていたが、書籍ごとに位置を残すようになったため、
+ * しばらく読んでいなかった書籍も本棚の進捗どおり続きから開けるようにする）
+ */
+export function migrateReadingState(data: unknown): ReadingStateStore {
+  if (!isRecord(data)) return createEmptyStore()
+
+  if (data.version === STORE_VERSION && isRecord(data.books)) {
+    const books: Record<string, BookReadingState> = {}
+    for (const [bookId, state] of Object.entries(data.books)) {
+      if (isBookReadingState(state)) {
+        books[bookId] = toBookReadingState(state)
+      }
+    }
+    const lastOpenedBookId =
+      typeof data.lastOpenedBookId === 'string' && books[data.lastOpenedBookId]
+        ? data.lastOpenedBookId
+        : null
+    return { version: STORE_VERSION, lastOpenedBookId, books }
+  }
+
+  const selectedBookId = data.selectedBookId
+  if (typeof selectedBookId === 'string' && selectedBookId && isBookReadingState(data)) {
+    return {
+      version: STORE_VERSION,
+      lastOpenedBookId: selectedBookId,
+      books: { [selectedBookId]: toBookReadingState(data) }
+    }
+  }
+
+  return createEmptyStore()
+}
+
+/**
+ * localStorage から全書籍の読書状態を取得（古い形式は変換して保存し直す）
+ */
+export function getReadingStateStore(): ReadingStateStore {
+  if (typeof window === 'undefined') return createEmptyStore()
 
   try {
     const stored = localStorage.getItem(STORAGE_KEY)
-    if (!stored) return null
-
-    const state = JSON.parse(stored) as ReadingState
-
-    // データの整合性チェック
-    if (
-      !state.selectedBookId ||
-      !state.currentPosition ||
-      typeof state.currentPosition.chapterId !== 'number' ||
-      typeof state.currentPosition.blockId !== 'number' ||
-      typeof state.currentPosition.characterOffset !== 'number'
-    ) {
-      return null
-    }
+    if (!stored) return createEmptyStore()
 
-    return state
+    const data: unknown = JSON.parse(stored)
+    const store = migrateReadingState(data)
+    if (!isRecord(data) || data.version !== STORE_VERSION) {
+      saveReadingStateStore(store)
+    }
+    return store
   } catch (error) {
     console.warn('Failed to parse reading state from localStorage:', error)
-    return null
+    return createEmptyStore()
   }
 }
 
 /**
- * localStorage に読書状態を保存
+ * localStorage に全書籍の読書状態を保存
  */
-export function saveReadingState(state: ReadingState): void {
+export function saveReadingStateStore(store: ReadingStateStore): void {
   if (typeof window === 'undefined') return
 
   try {
-    state.timestamp = Date.now()
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store))
   } catch (error) {
     console.warn('Failed to save reading state to localStorage:', error)
   }
 }
 
+/**
+ * 最後に開いた書籍の読書状態を取得
+ */
+export function getReadingState(): ReadingState | null {
+  const store = getReadingStateStore()
+  return store.lastOpenedBookId ? getBookReadingState(store.lastOpenedBookId, store) : null
+}
+
+/**
+ * 書籍の読書状態を保存し、最後に開いた書籍にする
+ */
+export function saveReadingState(state: ReadingState): void {
+  if (typeof window === 'undefined') return
+
+  state.timestamp = Date.now()
+  const store = getReadingStateStore()
+  saveReadingStateStore({
+    ...store,
+    lastOpenedBookId: state.selectedBookId,
+    books: { ...store.books, [state.selectedBookId]: toBookReadingState(state) }
+  })
+}
+
 /**
  * 特定の書籍の読書状態を取得
  */
-export function getBookReadingState(bookId: string): ReadingState | null {
-  const state = getReadingState()
-  if (!state || state.selectedBookId !== bookId) {
-    return null
-  }
-  return state
+export function getBookReadingState(
+  bookId: string,
+  store: ReadingStateStore = getReadingStateStore()
+): ReadingState | null {
+  const state = store.books[bookId]
+  return state ? { selectedBookId: bookId, ...state } : null
 }
 
 /**
@@ -88,7 +208,7 @@ export function updateReadingPosition(
   position: ContentPosition,
   viewSettings?: Partial<ViewSettings>
 ): void {
-  const currentState = getReadingState()
+  const currentState = getBookReadingState(bookId)
 
   const newState: ReadingState = {
     selectedBookId: bookId,
@@ -97,10 +217,14 @@ export function updateReadingPosition(
       ? {
           fontSize: viewSettings.fontSize ?? currentState?.viewSettings?.fontSize ?? 16,
           lineHeight: viewSettings.lineHeight ?? currentState?.viewSettings?.lineHeight ?? 1.6,
+          letterSpacing: viewSettings.letterSpacing ?? currentState?.viewSettings?.letterSpacing,
+          fontFamily: viewSettings.fontFamily ?? currentState?.viewSettings?.fontFamily,
+          margin: viewSettings.margin ?? currentState?.viewSettings?.margin,
           containerWidth: viewSettings.containerWidth ?? currentState?.viewSettings?.containerWidth,
           containerHeight: viewSettings.containerHeight ?? currentState?.viewSettings?.containerHeight,
         }
       : currentState?.viewSettings || { fontSize: 16, lineHeight: 1.6 },
+    progress: currentState?.progress,
     timestamp: Date.now()
   }
 
@@ -108,11 +232,22 @@ export function updateReadingPosition(
 }
 
 /**
- * 読書状態をクリア
+ * 読書状態をクリア（bookId を指定するとその書籍の読書状態だけを削除）
  */
-export function clearReadingState(): void {
+export function clearReadingState(bookId?: string): void {
   if (typeof window === 'undefined') return
 
+  if (bookId) {
+    const store = getReadingStateStore()
+    const { [bookId]: _removed, ...books } = store.books
+    saveReadingStateStore({
+      ...store,
+      lastOpenedBookId: store.lastOpenedBookId === bookId ? null : store.lastOpenedBookId,
+      books
+    })
+    return
+  }
+
   try {
     localStorage.removeItem(STORAGE_KEY)
   } catch (error) {
@@ -120,6 +255,16 @@ export function clearReadingState(): void {
   }
 }
 
+/**
+ * 最後に開いた書籍の記録だけを消す（書籍ごとの読書位置は残す）
+ */
+export function clearLastOpenedBook(): void {
+  const store = getReadingStateStore()
+  if (store.lastOpenedBookId !== null) {
+    saveReadingStateStore({ ...store, lastOpenedBookId: null })
+  }
+}
+
 /**
  * 読書状態が有効かチェック
  * 古すぎる状態（30日以上）は無効とする
@@ -154,6 +299,9 @@ export function shouldRecalculatePagination(
   return (
     previous.fontSize !== current.fontSize ||
     previous.lineHeight !== current.lineHeight ||
+    previous.letterSpacing !== current.letterSpacing ||
+    previous.fontFamily !== current.fontFamily ||
+    previous.margin !== current.margin ||
     previous.containerWidth !== current.containerWidth ||
     previous.containerHeight !== current.containerHeight
   )
@@ -0,0 +1,49 @@
+/**
+ * JSON データ検証の共通処理
+ * 問題は `path: 内容` の形で issues に集め、呼び出し側でまとめて警告する
+ */
+
+export type UnknownRecord = Record<string, unknown>
+
+export function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export function isPositiveInteger(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0
+}
+
+export function isNonNegativeInteger(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0
+}
+
+export function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0
+}
+
+/**
+ * 検証中に見つかった問題を `path: 内容` の形で記録
+ */
+export function addIssue(issues: string[], path: string, message: string): void {
+  issues.push(`${path}: ${message}`)
+}
+
+/**
+ * 配列の各要素を検証し、不正な要素だけを除外
+ */
+export function parseList<T>(
+  value: unknown,
+  path: string,
+  issues: string[],
+  parseItem: (item: unknown, itemPath: string, issues: string[]) => T | null,
+): T[] {
+  if (value === undefined) return []
+  if (!Array.isArray(value)) {
+    addIssue(issues, path, '配列で指定してください')
+    return []
+  }
+  return value.flatMap((item, index) => {
+    const parsed = parseItem(item, `${path}[${index}]`, issues)
+    return parsed ? [parsed] : []
+  })
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import type { BookData } from '@/types/book'
+import { BookSearchIndex, normalizeForSearch } from './search-index'
+
+const createBook = (...texts: string[]): BookData => ({
+  metadata: { id: 1, title: '題名', author: '著者' },
+  content: {
+    chapters: [
+      {
+        id: 1,
+        title: '一',
+        blocks: texts.map((text, index) => ({ id: index + 1, type: 'paragraph', text })),
+      },
+    ],
+  },
+})
+
+// 一致箇所の元の本文上の範囲と、その範囲の本文
+const searchRanges = (text: string, query: string) =>
+  new BookSearchIndex(createBook(text))
+    .search(query)
+    .map((hit) => ({ start: hit.start, end: hit.end, match: text.slice(hit.start, hit.end) }))
+
+describe('normalizeForSearch', () => {
+  it('全角・半角、カタカナ・ひらがな、大文字・小文字の違いを揃える', () => {
+    expect(normalizeForSearch('ＡＢＣ１２３')).toBe('abc123')
+    expect(normalizeForSearch('ネコ')).toBe('ねこ')
+    expect(normalizeForSearch('ｶﾞｯｺｳ')).toBe('がっこう')
+    expect(normalizeForSearch('か\u3099')).toBe('が')
+  })
+})
+
+describe('BookSearchIndex.search', () => {
+  it('全角英数字の本文を半角の検索語で見つけ、元の本文上の位置を返す', () => {
+    expect(searchRanges('あいＡＢＣ１２３う', 'abc123')).toEqual([
+      { start: 2, end: 8, match: 'ＡＢＣ１２３' },
+    ])
+  })
+
+  it('半角英字の本文を全角の検索語で見つける', () => {
+    expect(searchRanges('いまはTokyoにいる', 'ｔｏｋｙｏ')).toEqual([
+      { start: 3, end: 8, match: 'Tokyo' },
+    ])
+  })
+
+  it('カタカナの本文をひらがなの検索語で見つける', () => {
+    expect(searchRanges('吾輩はネコである', 'ねこ')).toEqual([{ start: 3, end: 5, match: 'ネコ' }])
+  })
+
+  it('半角カナの濁点は直前の文字と合わせて1文字として扱う', () => {
+    expect(searchRanges('ｶﾞｯｺｳへ行く', 'がっこう')).toEqual([{ start: 0, end: 5, match: 'ｶﾞｯｺｳ' }])
+    expect(searchRanges('ｶﾞｯｺｳへ行く', 'こう')).toEqual([{ start: 3, end: 5, match: 'ｺｳ' }])
+  })
+
+  it('結合用の濁点を含む本文も、濁点まで含めて一致させる', () => {
+    const text = 'きか\u3099みえる'
+    expect(searchRanges(text, 'が')).toEqual([{ start: 1, end: 3, match: 'か\u3099' }])
+    expect(searchRanges(text, 'ガみ')).toEqual([{ start: 1, end: 4, match: 'か\u3099み' }])
+  })
+
+  it('1文字が複数の文字に展開される場合は元の1文字全体を返す', () => {
+    expect(searchRanges('それは㍻の話', '成')).toEqual([{ start: 3, end: 4, match: '㍻' }])
+  })
+
+  it('前後の文脈と章を返し、件数を制限する', () => {
+    const index = new BookSearchIndex(createBook('ねこねこ', 'こねこ'))
+    const hits = index.search('ねこ')
+
+    expect(hits.map((hit) => [hit.blockId, hit.start])).toEqual([
+      [1, 0],
+      [1, 2],
+      [2, 1],
+    ])
+    expect(hits[2]).toMatchObject({
+      chapterId: 1,
+      chapterTitle: '一',
+      context: { before: 'こ', match: 'ねこ', after: '' },
+    })
+    expect(index.search('ねこ', 2)).toHaveLength(2)
+    expect(index.search('  ')).toEqual([])
+  })
+})
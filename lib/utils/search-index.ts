@@ -0,0 +1,160 @@
+/**
+ * 書籍の全文検索
+ * ブロック本文を正規化（全角・半角、カタカナ・ひらがな、大文字・小文字の違いを吸収）して索引を作り、
+ * 一致した箇所を元の本文上の位置で返す
+ */
+
+import type { BookData } from '@/types/book'
+
+export interface SearchHit {
+  chapterId: number
+  chapterTitle: string
+  blockId: number
+  start: number // ブロック本文内の開始位置
+  end: number
+  context: {
+    before: string
+    match: string
+    after: string
+  }
+}
+
+interface IndexedBlock {
+  chapterId: number
+  chapterTitle: string
+  blockId: number
+  text: string
+  normalized: string
+  // 正規化後の各文字に対応する元の本文上の位置（末尾に本文の長さを追加）
+  offsets: number[]
+}
+
+// 前後の文脈として表示する文字数
+const CONTEXT_LENGTH = 20
+const DEFAULT_SEARCH_LIMIT = 100
+
+// 結合用の濁点・半濁点
+const COMBINING_SOUND_MARKS = new Set(['゙', '゚'])
+
+const searchIndexes = new WeakMap<BookData, BookSearchIndex>()
+
+/**
+ * 1文字を検索用に正規化（NFKC・カタカナをひらがなに・小文字に）
+ */
+function normalizeCharacter(char: string): string {
+  return Array.from(char.normalize('NFKC'))
+    .map((c) => {
+      const codePoint = c.codePointAt(0) || 0
+      // カタカナ（ァ〜ヶ）はひらがなに揃える
+      return codePoint >= 0x30a1 && codePoint <= 0x30f6 ? String.fromCodePoint(codePoint - 0x60) : c
+    })
+    .join('')
+    .toLowerCase()
+}
+
+/**
+ * 文字列を検索用に正規化し、正規化後の各文字の元の位置を返す
+ */
+function normalizeWithOffsets(text: string): { normalized: string; offsets: number[] } {
+  const chars: string[] = []
+  const offsets: number[] = []
+
+  let index = 0
+  for (const char of text) {
+    for (const normalizedChar of normalizeCharacter(char)) {
+      // 半角カナの濁点・半濁点は直前の文字と合成する（ｶﾞ → が）
+      const previous = chars[chars.length - 1]
+      if (COMBINING_SOUND_MARKS.has(normalizedChar) && previous) {
+        const composed = (previous + normalizedChar).normalize('NFC')
+        if (composed.length === 1) {
+          chars[chars.length - 1] = composed
+          continue
+        }
+      }
+      chars.push(normalizedChar)
+      offsets.push(index)
+    }
+    index += char.length
+  }
+  offsets.push(text.length)
+
+  return { normalized: chars.join(''), offsets }
+}
+
+/**
+ * 検索語を正規化
+ */
+export function normalizeForSearch(text: string): string {
+  return normalizeWithOffsets(text).normalized
+}
+
+export class BookSearchIndex {
+  private blocks: IndexedBlock[] = []
+
+  constructor(bookData: BookData) {
+    for (const chapter of bookData.content.chapters) {
+      for (const block of chapter.blocks) {
+        this.blocks.push({
+          chapterId: chapter.id,
+          chapterTitle: chapter.title,
+          blockId: block.id,
+          text: block.text,
+          ...normalizeWithOffsets(block.text),
+        })
+      }
+    }
+  }
+
+  /**
+   * 本文の出現順に一致箇所を返す（limit 件まで）
+   */
+  search(query: string, limit = DEFAULT_SEARCH_LIMIT): SearchHit[] {
+    const normalizedQuery = normalizeForSearch(query.trim())
+    if (!normalizedQuery) return []
+
+    const hits: SearchHit[] = []
+    for (const block of this.blocks) {
+      let index = block.normalized.indexOf(normalizedQuery)
+      while (index !== -1) {
+        hits.push(this.createHit(block, index, index + normalizedQuery.length))
+        if (hits.length >= limit) return hits
+        index = block.normalized.indexOf(normalizedQuery, index + normalizedQuery.length)
+      }
+    }
+    return hits
+  }
+
+  private createHit(
+    block: IndexedBlock,
+    normalizedStart: number,
+    normalizedEnd: number,
+  ): SearchHit {
+    const start = block.offsets[normalizedStart]
+    const end = block.offsets[normalizedEnd]
+
+    return {
+      chapterId: block.chapterId,
+      chapterTitle: block.chapterTitle,
+      blockId: block.blockId,
+      start,
+      end,
+      context: {
+        before: block.text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+        match: block.text.slice(start, end),
+        after: block.text.slice(end, end + CONTEXT_LENGTH),
+      },
+    }
+  }
+}
+
+/**
+ * 書籍の検索索引を取得（書籍データごとに一度だけ作成）
+ */
+export function getBookSearchIndex(bookData: BookData): BookSearchIndex {
+  let index = searchIndexes.get(bookData)
+  if (!index) {
+    index = new BookSearchIndex(bookData)
+    searchIndexes.set(bookData, index)
+  }
+  return index
+}
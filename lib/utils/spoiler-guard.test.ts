@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+import type { Character } from '@/types/character'
+import type { BookContent } from '@/types/pagination'
+import { SpoilerGuard } from './spoiler-guard'
+
+const bookContent: BookContent = {
+  id: 1,
+  title: '題名',
+  author: '著者',
+  chapters: [
+    {
+      id: 1,
+      title: '一',
+      blocks: [
+        { id: 1, type: 'paragraph', text: '吾輩は猫である。名前はまだ無い。' },
+        { id: 2, type: 'paragraph', text: '主人は毎日書斎に籠もって昼寝ばかりしている。' },
+      ],
+    },
+    {
+      id: 2,
+      title: '二',
+      blocks: [{ id: 1, type: 'paragraph', text: '迷亭は金縁の眼鏡をかけた美学者である。' }],
+    },
+  ],
+}
+
+const characters: Character[] = [
+  { id: 1, name: '吾輩', appearance: { chapter: 1, block: 1 } },
+  { id: 2, name: '迷亭', appearance: { chapter: 2, block: 1 } },
+]
+
+// 1章の途中（「主人は」の後）まで読んだ位置
+const READ_POSITION = '吾輩は猫である。名前はまだ無い。主人は'.length
+// 未読部分の12文字
+const UNREAD_QUOTE = '毎日書斎に籠もって昼寝ば'
+
+const REDACTED_NAME = '（まだ登場していない人物）'
+
+describe('SpoilerGuard.check', () => {
+  const guard = new SpoilerGuard(bookContent, characters)
+
+  it('既読部分だけに触れる応答はそのまま返す', () => {
+    expect(guard.check('吾輩は猫である。名前はまだ無い。', READ_POSITION)).toEqual({
+      status: 'safe',
+      text: '吾輩は猫である。名前はまだ無い。',
+      reasons: [],
+    })
+  })
+
+  it('未登場キャラクターの名前を伏せる', () => {
+    const result = guard.check('迷亭が来るよ。', READ_POSITION)
+    expect(result.status).toBe('rewritten')
+    expect(result.text).toBe(`${REDACTED_NAME}が来るよ。`)
+  })
+
+  it('登場位置まで読めば名前を伏せない', () => {
+    const pos = READ_POSITION + '毎日書斎に籠もって昼寝ばかりしている。'.length
+    expect(guard.check('迷亭が来るよ。', pos).status).toBe('safe')
+  })
+
+  it('未読部分の本文を含む応答はブロックする（空白は無視する）', () => {
+    const result = guard.check(
+      `実は${UNREAD_QUOTE.slice(0, 6)} ${UNREAD_QUOTE.slice(6)}`,
+      READ_POSITION,
+    )
+    expect(result.status).toBe('blocked')
+    expect(result.text).toBe('')
+  })
+})
+
+describe('SpoilerGuardStream', () => {
+  const guard = new SpoilerGuard(bookContent, characters)
+
+  it('文の区切りまで溜めてから返す', () => {
+    const stream = guard.createStream(READ_POSITION)
+    expect(stream.push('吾輩は').text).toBe('')
+    expect(stream.push('猫だ。名前は').text).toBe('吾輩は猫だ。')
+    expect(stream.flush().text).toBe('名前は')
+  })
+
+  it('断片の境目で分かれた名前も伏せる', () => {
+    const stream = guard.createStream(READ_POSITION)
+    const texts = ['迷', '亭が', '来るよ。'].map((chunk) => stream.push(chunk))
+
+    expect(texts.map((result) => result.text).join('')).toBe(`${REDACTED_NAME}が来るよ。`)
+    expect(texts[2].status).toBe('rewritten')
+  })
+
+  it('断片の境目で分かれた未読部分の引用もブロックする', () => {
+    const stream = guard.createStream(READ_POSITION)
+    expect(stream.push(`実は${UNREAD_QUOTE.slice(0, 6)}`).status).toBe('safe')
+
+    const result = stream.push(UNREAD_QUOTE.slice(6))
+    expect(result.status).toBe('blocked')
+    expect(result.text).toBe('')
+  })
+
+  it('ブロックした後の断片は返さない', () => {
+    const stream = guard.createStream(READ_POSITION)
+    stream.push(`${UNREAD_QUOTE}。`)
+
+    expect(stream.push('続き。').status).toBe('blocked')
+    expect(stream.flush()).toEqual({ status: 'blocked', text: '', reasons: [] })
+  })
+})
@@ -0,0 +1,227 @@
+/**
+ * ネタバレ防止ガード
+ * 読者の現在位置（累積文字位置 pos）より先の本文に依存する応答を検出し、書き換えまたはブロックする
+ */
+
+import type { Character } from '@/types/character'
+import type { BookContent } from '@/types/pagination'
+import { ContentPositionCalculator } from './content-position-calculator'
+import { isRevealed, toContentPosition } from './content-visibility'
+import type { ContentPosition } from './reading-state'
+
+export type SpoilerCheckStatus = 'safe' | 'rewritten' | 'blocked'
+
+export interface SpoilerCheckResult {
+  status: SpoilerCheckStatus
+  text: string
+  reasons: string[]
+}
+
+// 未読部分と一致したらブロックする連続文字数（引用・あらすじの漏洩検出用）
+const SPOILER_QUOTE_LENGTH = 12
+// 未登場キャラクター名の置換文字列
+const REDACTED_NAME = '（まだ登場していない人物）'
+
+/**
+ * キャラクター名から本文中で使われる呼び名を列挙
+ * 例: 「珍野苦沙弥（主人）」→ 珍野苦沙弥 / 主人 / 苦沙弥
+ */
+function getCharacterAliases(name: string): string[] {
+  const aliases = new Set<string>()
+  const match = name.match(/^(.+?)（(.+)）$/)
+  const baseName = match ? match[1] : name
+
+  aliases.add(baseName)
+  if (match) {
+    aliases.add(match[2])
+  }
+
+  // 漢字4文字の氏名は名前部分（下2文字）でも呼ばれる
+  if (/^[一-鿿]{4}$/.test(baseName)) {
+    aliases.add(baseName.slice(2))
+  }
+
+  // 1文字の呼び名は一般語と衝突するため除外
+  return [...aliases].filter((alias) => alias.length >= 2)
+}
+
+// 伏せ字・ブロックの判定に使う、現在位置までの本文
+export interface SpoilerReadingContext {
+  position: ContentPosition
+  readText: string
+  unreadText: string
+}
+
+// 逐次検査で、ここまで溜めてから返す文の区切り
+const SENTENCE_END_PATTERN = /[。！？!?」\n]/
+
+export class SpoilerGuard {
+  private calculator: ContentPositionCalculator
+  private characters: Character[]
+  private fullText: string
+
+  constructor(bookContent: BookContent, characters: Character[]) {
+    this.calculator = new ContentPositionCalculator(bookContent)
+    this.characters = characters
+    // 累積文字位置と一致するよう、ブロック本文を区切りなしで連結
+    this.fullText = bookContent.chapters
+      .flatMap((chapter) => chapter.blocks.map((block) => block.text))
+      .join('')
+  }
+
+  /**
+   * 応答が現在位置より先の内容に触れていないか検査
+   */
+  check(answer: string, pos: number): SpoilerCheckResult {
+    const context = this.getReadingContext(pos)
+    if (!context) {
+      return { status: 'safe', text: answer, reasons: [] }
+    }
+
+    const quoted = this.findUnreadQuote(answer.replace(/\s/g, ''), context)
+    if (quoted) {
+      return blockedResult(quoted)
+    }
+    return this.redactCharacters(answer, context)
+  }
+
+  /**
+   * 1人の話者の応答を、届いた断片ごとに検査するストリームを作る
+   */
+  createStream(pos: number): SpoilerGuardStream {
+    return new SpoilerGuardStream(this, this.getReadingContext(pos))
+  }
+
+  /**
+   * 現在位置までの本文（位置が本文の外なら null）
+   */
+  private getReadingContext(pos: number): SpoilerReadingContext | null {
+    const position = this.calculator.getContentPositionAt(pos)
+    if (!position) return null
+
+    return {
+      position,
+      readText: this.fullText.slice(0, pos),
+      unreadText: this.fullText.slice(pos),
+    }
+  }
+
+  /**
+   * 既読部分には無く未読部分にだけ現れる連続文字列を探す
+   * normalized は空白を除いた応答。fromIndex より前から始まる文字列は検査済みとして飛ばす
+   */
+  findUnreadQuote(normalized: string, context: SpoilerReadingContext, fromIndex = 0): string | null {
+    const checked = new Set<string>()
+
+    for (let i = fromIndex; i + SPOILER_QUOTE_LENGTH <= normalized.length; i++) {
+      const gram = normalized.slice(i, i + SPOILER_QUOTE_LENGTH)
+      if (checked.has(gram)) continue
+      checked.add(gram)
+
+      if (!context.readText.includes(gram) && context.unreadText.includes(gram)) {
+        return gram
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * 未登場キャラクターの名前を伏せる
+   */
+  redactCharacters(answer: string, context: SpoilerReadingContext): SpoilerCheckResult {
+    const reasons: string[] = []
+    let text = answer
+    for (const character of this.characters) {
+      if (isRevealed(toContentPosition(character.appearance), context.position)) continue
+
+      for (const alias of getCharacterAliases(character.name)) {
+        // 登場前でも既読部分で言及済みの呼び名は伏せない
+        if (context.readText.includes(alias) || !text.includes(alias)) continue
+
+        text = text.split(alias).join(REDACTED_NAME)
+        reasons.push(`unrevealed character: ${character.name}`)
+      }
+    }
+
+    return {
+      status: reasons.length > 0 ? 'rewritten' : 'safe',
+      text,
+      reasons,
+    }
+  }
+}
+
+function blockedResult(quoted: string): SpoilerCheckResult {
+  return { status: 'blocked', text: '', reasons: [`unread passage: ${quoted}`] }
+}
+
+/**
+ * 1人の話者の応答を逐次検査する
+ * 上流はトークン単位などで応答を分けて送るため、名前や未読部分の引用が断片の境目で分かれても見逃さないよう、
+ * これまでの応答全体で未読部分の引用を探し、名前は文の区切りまで溜めてから伏せる
+ */
+export class SpoilerGuardStream {
+  private answer = ''
+  private normalized = ''
+  // 返した応答の長さ
+  private emittedLength = 0
+  private isBlocked = false
+
+  constructor(
+    private guard: SpoilerGuard,
+    private context: SpoilerReadingContext | null,
+  ) {}
+
+  /**
+   * 届いた断片を加え、返せるところまでの検査結果を返す（文の途中までは返さない）
+   */
+  push(chunk: string): SpoilerCheckResult {
+    this.answer += chunk
+    return this.take(false)
+  }
+
+  /**
+   * 応答の終わりに、溜めている残りの検査結果を返す
+   */
+  flush(): SpoilerCheckResult {
+    return this.take(true)
+  }
+
+  private take(isEnd: boolean): SpoilerCheckResult {
+    if (this.isBlocked) {
+      return { status: 'blocked', text: '', reasons: [] }
+    }
+
+    const quoted = this.findNewUnreadQuote()
+    if (quoted) {
+      this.isBlocked = true
+      return blockedResult(quoted)
+    }
+
+    const end = isEnd ? this.answer.length : this.findSentenceEnd()
+    const pending = this.answer.slice(this.emittedLength, end)
+    this.emittedLength = end
+    if (!this.context) {
+      return { status: 'safe', text: pending, reasons: [] }
+    }
+    return this.guard.redactCharacters(pending, this.context)
+  }
+
+  // 追加された断片にかかる連続文字列だけを検査
+  private findNewUnreadQuote(): string | null {
+    if (!this.context) return null
+
+    const fromIndex = Math.max(0, this.normalized.length - SPOILER_QUOTE_LENGTH + 1)
+    this.normalized = this.answer.replace(/\s/g, '')
+    return this.guard.findUnreadQuote(this.normalized, this.context, fromIndex)
+  }
+
+  // 返していない部分のうち、最後の文の区切りの直後の位置
+  private findSentenceEnd(): number {
+    for (let i = this.answer.length - 1; i >= this.emittedLength; i--) {
+      if (SENTENCE_END_PATTERN.test(this.answer[i])) return i + 1
+    }
+    return this.emittedLength
+  }
+}
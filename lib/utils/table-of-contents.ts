@@ -0,0 +1,158 @@
+/**
+ * 目次のユーティリティ
+ * 書籍の章ごとに、ページの範囲と読んだ割合をまとめる
+ * シークバーの位置と目盛りも、同じ累積文字位置から求める
+ */
+
+import {
+  type BlockPositionData,
+  createBlockPositions,
+  fromCumulativePosition,
+  toCumulativePosition,
+} from './content-position'
+import type { PageData } from './content-position-finder'
+import type { ContentPosition } from './reading-state'
+
+export interface TableOfContentsEntry {
+  chapterId: number
+  title: string
+  startPageIndex: number | null // 章の最初のページがまだ計算されていなければ null
+  endPageIndex: number | null // 章の最後のページがまだ計算されていなければ null
+  progress: number // 章の本文のうち読んだ割合（0〜1）
+}
+
+// シークバーに目盛りとして表示する章の始まり
+export interface ChapterMark {
+  chapterId: number
+  pageIndex: number
+  title: string
+}
+
+// シークバーの位置の基準（本文のブロックと、計算済みのページの先頭の累積文字位置）
+export interface SeekbarScale {
+  blockPositions: BlockPositionData[]
+  pageStartPositions: number[]
+}
+
+type Chapter = { id: number; title: string; blocks: { id: number; text: string }[] }
+
+/**
+ * 章ごとのページの範囲と読んだ割合を求める
+ * @param currentPosition 現在のページの末尾の累積文字位置
+ */
+export function buildTableOfContents(
+  chapters: Chapter[],
+  pages: PageData[],
+  currentPosition: number,
+): TableOfContentsEntry[] {
+  const pageRanges = new Map<number, { start: number | null; end: number | null }>()
+  pages.forEach((page, index) => {
+    const chapterId = page.metadata?.chapterId
+    if (chapterId === undefined) return
+    const range = pageRanges.get(chapterId) ?? { start: null, end: null }
+    if (page.isChapterStart) range.start = index
+    if (page.isChapterEnd) range.end = index
+    pageRanges.set(chapterId, range)
+  })
+
+  const blockPositions = createBlockPositions(chapters)
+  return chapters.map((chapter) => {
+    const chapterBlocks = blockPositions.filter((block) => block.chapterId === chapter.id)
+    const start = chapterBlocks[0]?.blockStartPosition ?? 0
+    const end = chapterBlocks[chapterBlocks.length - 1]?.blockEndPosition ?? start
+    const range = pageRanges.get(chapter.id)
+
+    return {
+      chapterId: chapter.id,
+      title: chapter.title,
+      startPageIndex: range?.start ?? null,
+      endPageIndex: range?.end ?? null,
+      progress:
+        end > start ? Math.max(0, Math.min(1, (currentPosition - start) / (end - start))) : 0,
+    }
+  })
+}
+
+/**
+ * 計算済みのページから章の始まりの一覧を作成
+ */
+export function getChapterMarks(pages: PageData[]): ChapterMark[] {
+  return pages.flatMap((page, pageIndex) =>
+    page.isChapterStart && page.chapterTitle && page.metadata
+      ? [{ chapterId: page.metadata.chapterId, pageIndex, title: page.chapterTitle }]
+      : [],
+  )
+}
+
+/**
+ * ページが含まれる章の始まり（章の始まりより前のページなら null）
+ */
+export function findChapterMark(marks: ChapterMark[], pageIndex: number): ChapterMark | null {
+  let found: ChapterMark | null = null
+  for (const mark of marks) {
+    if (mark.pageIndex > pageIndex) break
+    found = mark
+  }
+  return found
+}
+
+function getTotalCharacters(scale: SeekbarScale): number {
+  return scale.blockPositions[scale.blockPositions.length - 1]?.blockEndPosition ?? 0
+}
+
+/**
+ * ページの先頭までに読んだ割合（0〜1。本文がなければ null）
+ */
+export function getPageRatio(scale: SeekbarScale, pageIndex: number): number | null {
+  const total = getTotalCharacters(scale)
+  const start = scale.pageStartPositions[pageIndex]
+  if (total === 0 || start === undefined) return null
+  return Math.max(0, Math.min(1, start / total))
+}
+
+/**
+ * 章の始まりの割合（0〜1。存在しない章なら null）
+ */
+export function getChapterStartRatio(scale: SeekbarScale, chapterId: number): number | null {
+  const total = getTotalCharacters(scale)
+  const firstBlock = scale.blockPositions.find((block) => block.chapterId === chapterId)
+  if (total === 0 || !firstBlock) return null
+  const start = toCumulativePosition(scale.blockPositions, {
+    chapterId,
+    blockId: firstBlock.blockId,
+    characterOffset: 0,
+  })
+  return start === null ? null : start / total
+}
+
+/**
+ * 読んだ割合の位置にある本文上の位置と、その位置を含むページ
+ * まだ計算されていないページの位置は、計算済みの最後のページに丸める
+ */
+export function locateRatio(
+  scale: SeekbarScale,
+  ratio: number,
+): { position: ContentPosition; pageIndex: number } | null {
+  const total = getTotalCharacters(scale)
+  if (total === 0 || scale.pageStartPositions.length === 0) return null
+
+  const position = fromCumulativePosition(
+    scale.blockPositions,
+    Math.round(Math.max(0, Math.min(1, ratio)) * total),
+  )
+  const cumulative = position && toCumulativePosition(scale.blockPositions, position)
+  if (!position || cumulative === null) return null
+
+  // ページの先頭は単調増加なので、先頭が位置以前の最後のページを二分探索
+  let low = 0
+  let high = scale.pageStartPositions.length - 1
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2)
+    if (scale.pageStartPositions[mid] <= cumulative) {
+      low = mid
+    } else {
+      high = mid - 1
+    }
+  }
+  return { position, pageIndex: low }
+}
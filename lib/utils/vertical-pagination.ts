@@ -0,0 +1,432 @@
+/**
+ * 縦書きページネーションエンジン
+ * DOM を使わず、文字ごとの送り幅（グリフメトリクス）から列とページを組み立てる
+ * Web Worker 内でもメインスレッドでも同じ結果になるよう、DOM に依存しない純粋な処理のみで構成する
+ */
+
+import type { BookData, InlineAnnotation } from '@/types/book'
+import {
+  type BlockPositionData,
+  createBlockPositions,
+  toCumulativePosition,
+} from './content-position'
+import { enrichPageWithMetadata } from './content-position-finder'
+import { getPageEndPosition, getPageStartPosition, type PageSegment } from './page-segments'
+
+export interface Page {
+  id: string
+  content: string
+  chapterTitle?: string
+  isChapterStart?: boolean
+  isChapterEnd?: boolean
+  metadata?: {
+    chapterId: number
+    blockIds: number[]
+    startBlockId?: number
+    endBlockId?: number
+    endBlockCharacterOffset?: number
+    // 書籍先頭からの累積文字位置の範囲（end はページの最後の文字の次）
+    characterRange?: {
+      start: number
+      end: number
+    }
+    // ページ本文とブロック本文の対応（注記の表示に使用）
+    segments?: PageSegment[]
+  }
+}
+
+/**
+ * DOM の測定（キャリブレーション）で得たレイアウト値
+ */
+export interface VerticalLayoutMetrics {
+  columnCapacity: number // 1列に収まる送り幅の合計(px)
+  columnsPerPage: number // 1ページに収まる列数
+  uprightAdvance: number // 正立する全角文字1字分の送り(px、字間を含む)
+  letterSpacing: number // 字間(px)
+  fontSize: number
+  font: string // CanvasRenderingContext2D.font 形式
+  // 横倒しになる文字（欧文など）の実測値。Canvas の測定値を実際のフォントに合わせる補正に使う
+  sidewaysSample: {
+    text: string
+    advance: number
+  }
+}
+
+export interface PaginationProgress {
+  current: number
+  total: number
+}
+
+export interface PaginationBatch {
+  pages: Page[]
+  progress: PaginationProgress
+}
+
+// Worker とのメッセージ
+export type PaginationWorkerRequest = {
+  type: 'paginate'
+  bookData: BookData
+  metrics: VerticalLayoutMetrics
+}
+
+export type PaginationWorkerResponse =
+  | ({ type: 'batch' } & PaginationBatch)
+  | { type: 'done' }
+  | { type: 'error'; message: string }
+
+interface LayoutUnit {
+  start: number
+  end: number
+  advance: number
+}
+
+// 行頭禁則文字（この文字の前では改行しない）
+const LINE_START_PROHIBITED = new Set(
+  Array.from('、。，．,.・：；？！?!)）］｝〕〉》」』】〙〗〟’”ゝゞヽヾ々ー'),
+)
+// 行末禁則文字（この文字の後では改行しない）
+const LINE_END_PROHIBITED = new Set(Array.from('(（［｛〔〈《「『【〘〖〝‘“'))
+// 連続している間は分割しない文字（……・――）
+const INSEPARABLE = new Set(Array.from('…‥―'))
+
+// ページの組み立て方を変えたら上げる（ページネーションのキャッシュを無効化する）
+export const PAGINATION_ENGINE_VERSION = 4
+
+// 最初のページを表示したあとは、この枚数ごとにまとめて返す
+const PAGE_BATCH_SIZE = 20
+// 浮動小数点の誤差の許容量(px)
+const FIT_EPSILON = 0.01
+
+/**
+ * 縦書きで正立する文字かどうか（text-orientation: mixed 相当の近似）
+ */
+function isUprightCharacter(char: string): boolean {
+  const codePoint = char.codePointAt(0) || 0
+  // 半角カナ・半角記号は横倒し
+  if (codePoint >= 0xff61 && codePoint <= 0xffdc) return false
+  return codePoint >= 0x2e80
+}
+
+/**
+ * 1文字の送り幅を返す関数を作成
+ * 正立する文字は DOM で実測した値、横倒しの文字は Canvas の測定値を補正して使う
+ */
+export function createAdvanceMeasurer(
+  metrics: VerticalLayoutMetrics,
+  measureText: (text: string) => number,
+): (char: string) => number {
+  const sampleLength = Array.from(metrics.sidewaysSample.text).length
+  const canvasSampleWidth = measureText(metrics.sidewaysSample.text)
+  const sidewaysScale =
+    canvasSampleWidth > 0
+      ? (metrics.sidewaysSample.advance - metrics.letterSpacing * sampleLength) / canvasSampleWidth
+      : 1
+  const cache = new Map<string, number>()
+
+  return (char: string) => {
+    const cached = cache.get(char)
+    if (cached !== undefined) return cached
+
+    const advance = isUprightCharacter(char)
+      ? metrics.uprightAdvance
+      : measureText(char) * sidewaysScale + metrics.letterSpacing
+    cache.set(char, advance)
+    return advance
+  }
+}
+
+/**
+ * ブロックの表示テキストを改行できない単位に分割
+ * ルビの親文字は1単位として扱い、ルビが親文字より長い場合はその分の送りを確保する
+ */
+function buildLayoutUnits(
+  content: string,
+  rubies: InlineAnnotation[],
+  measureAdvance: (char: string) => number,
+  metrics: VerticalLayoutMetrics,
+): LayoutUnit[] {
+  const units: LayoutUnit[] = []
+  const rubyByStart = new Map(rubies.map((ruby) => [ruby.start, ruby]))
+
+  let i = 0
+  while (i < content.length) {
+    const ruby = rubyByStart.get(i)
+    if (ruby && ruby.type === 'ruby' && ruby.end <= content.length) {
+      let baseAdvance = 0
+      for (const char of content.slice(ruby.start, ruby.end)) {
+        baseAdvance += measureAdvance(char)
+      }
+      // ルビ文字は本文の半分の大きさ
+      const rubyAdvance = Array.from(ruby.text).length * (metrics.fontSize / 2)
+      units.push({ start: ruby.start, end: ruby.end, advance: Math.max(baseAdvance, rubyAdvance) })
+      i = ruby.end
+      continue
+    }
+
+    const codePoint = content.codePointAt(i) || 0
+    const length = codePoint > 0xffff ? 2 : 1
+    const char = content.slice(i, i + length)
+    units.push({ start: i, end: i + length, advance: measureAdvance(char) })
+    i += length
+  }
+
+  return units
+}
+
+/**
+ * units[index] の直前で改行できるか（禁則処理）
+ */
+function canBreakBefore(content: string, units: LayoutUnit[], index: number): boolean {
+  const next = content[units[index].start]
+  const previous = content[units[index - 1].end - 1]
+
+  if (LINE_START_PROHIBITED.has(next)) return false
+  if (LINE_END_PROHIBITED.has(previous)) return false
+  if (INSEPARABLE.has(next) && next === previous) return false
+  return true
+}
+
+/**
+ * units[start] から始まる1列に収まる単位の終端（次の列の先頭）を返す
+ */
+function fitColumn(content: string, units: LayoutUnit[], start: number, capacity: number): number {
+  let total = 0
+  let end = start
+  while (end < units.length && total + units[end].advance <= capacity + FIT_EPSILON) {
+    total += units[end].advance
+    end++
+  }
+
+  if (end >= units.length) return units.length
+  // 1単位も収まらない場合は1単位だけ置く
+  if (end === start) return start + 1
+
+  // 禁則にかかる場合は改行位置を前に送る（追い出し）
+  let breakIndex = end
+  while (breakIndex > start + 1 && !canBreakBefore(content, units, breakIndex)) {
+    breakIndex--
+  }
+  return canBreakBefore(content, units, breakIndex) ? breakIndex : end
+}
+
+type Chapter = BookData['content']['chapters'][number]
+type Block = Chapter['blocks'][number]
+
+/**
+ * 1ページ分の本文とメタデータを組み立てる
+ */
+class PageBuilder {
+  columnCount = 0
+  private pieces: string[] = []
+  private segments: PageSegment[] = []
+  private blockIds: number[] = []
+  private length = 0
+  private endBlockCharacterOffset = 0
+
+  get isEmpty(): boolean {
+    return this.pieces.length === 0 && this.columnCount === 0
+  }
+
+  addColumn(blockId: number) {
+    if (!this.blockIds.includes(blockId)) {
+      this.blockIds.push(blockId)
+    }
+    this.columnCount++
+  }
+
+  /**
+   * ブロックの表示テキスト（字下げを含む）の start〜end をページに追加
+   */
+  addPiece(
+    chapterId: number,
+    blockId: number,
+    content: string,
+    indent: number,
+    start: number,
+    end: number,
+  ) {
+    const pageStart = this.length + (this.pieces.length > 0 ? 1 : 0)
+    const blockStart = Math.max(0, start - indent)
+    const blockEnd = end - indent
+
+    if (blockEnd > blockStart) {
+      this.segments.push({
+        chapterId,
+        blockId,
+        pageStart: pageStart + blockStart + indent - start,
+        blockStart,
+        length: blockEnd - blockStart,
+      })
+    }
+    this.pieces.push(content.slice(start, end))
+    this.length = pageStart + end - start
+    this.endBlockCharacterOffset = Math.max(0, blockEnd)
+  }
+
+  /**
+   * ページの累積文字位置の範囲（本文を含まないページは undefined）
+   */
+  private getCharacterRange(
+    blockPositions: BlockPositionData[],
+  ): { start: number; end: number } | undefined {
+    const page = { metadata: { segments: this.segments } }
+    const startPosition = getPageStartPosition(page)
+    const endPosition = getPageEndPosition(page)
+    const start = startPosition && toCumulativePosition(blockPositions, startPosition)
+    const end = endPosition && toCumulativePosition(blockPositions, endPosition)
+    return typeof start === 'number' && typeof end === 'number' ? { start, end } : undefined
+  }
+
+  build(
+    id: string,
+    chapter: Chapter,
+    isChapterStart: boolean,
+    isChapterEnd: boolean,
+    blockPositions: BlockPositionData[],
+  ): Page {
+    const pageData = enrichPageWithMetadata(
+      this.pieces.join('\n'),
+      chapter.title,
+      chapter.id,
+      this.blockIds,
+      isChapterStart,
+      isChapterEnd,
+      this.endBlockCharacterOffset,
+      this.getCharacterRange(blockPositions),
+    )
+    const page: Page = {
+      id,
+      content: pageData.content,
+      chapterTitle: pageData.chapterTitle,
+      metadata: {
+        chapterId: chapter.id,
+        blockIds: this.blockIds,
+        ...pageData.metadata,
+        segments: this.segments,
+      },
+    }
+    if (isChapterStart) {
+      page.isChapterStart = true
+    }
+    if (isChapterEnd) {
+      page.isChapterEnd = true
+    }
+    return page
+  }
+}
+
+/**
+ * ブロックを列に割り付けながらページを確定していく
+ * 章の始まりでは必ず改ページし、各ブロックは新しい列から始める
+ */
+class VerticalPaginator {
+  private pageCount = 0
+  private pendingPages: Page[] = []
+  private page = new PageBuilder()
+  // 章の始まりでは必ず改ページするので、章の最後のページの次のページが章の最初のページになる
+  private isChapterStart = true
+
+  constructor(
+    private metrics: VerticalLayoutMetrics,
+    private measureAdvance: (char: string) => number,
+    private blockPositions: BlockPositionData[],
+  ) {}
+
+  get pendingPageCount(): number {
+    return this.pendingPages.length
+  }
+
+  addBlock(chapter: Chapter, block: Block) {
+    // 段落は全角スペースで字下げ
+    const indent = block.type === 'paragraph' ? 1 : 0
+    const content = indent ? `　${block.text}` : block.text
+    const rubies = (block.annotations || [])
+      .filter((annotation) => annotation.type === 'ruby')
+      .map((annotation) => ({
+        ...annotation,
+        start: annotation.start + indent,
+        end: annotation.end + indent,
+      }))
+    const units = buildLayoutUnits(content, rubies, this.measureAdvance, this.metrics)
+
+    let unitIndex = 0
+    let pieceStart = 0
+    do {
+      if (this.page.columnCount === this.metrics.columnsPerPage) {
+        this.flushPage(chapter, false)
+      }
+
+      this.page.addColumn(block.id)
+      unitIndex =
+        units.length > 0 ? fitColumn(content, units, unitIndex, this.metrics.columnCapacity) : 0
+
+      // ページの最後の列か、ブロックを書き終えた時点でページに書き出す
+      const textEnd = unitIndex < units.length ? units[unitIndex].start : content.length
+      if (this.page.columnCount === this.metrics.columnsPerPage || textEnd === content.length) {
+        this.page.addPiece(chapter.id, block.id, content, indent, pieceStart, textEnd)
+        pieceStart = textEnd
+      }
+    } while (unitIndex < units.length)
+  }
+
+  finishChapter(chapter: Chapter) {
+    if (!this.page.isEmpty) {
+      this.flushPage(chapter, true)
+    }
+  }
+
+  takePages(): Page[] {
+    const pages = this.pendingPages
+    this.pendingPages = []
+    return pages
+  }
+
+  private flushPage(chapter: Chapter, isChapterEnd: boolean) {
+    this.pendingPages.push(
+      this.page.build(
+        `page-${this.pageCount}`,
+        chapter,
+        this.isChapterStart,
+        isChapterEnd,
+        this.blockPositions,
+      ),
+    )
+    this.isChapterStart = isChapterEnd
+    this.pageCount++
+    this.page = new PageBuilder()
+  }
+}
+
+/**
+ * 書籍全体をページに分割し、一定枚数ごとにバッチとして返す
+ * 最初のページはできた時点ですぐに返す
+ */
+export function* paginateVerticalText(
+  bookData: BookData,
+  metrics: VerticalLayoutMetrics,
+  measureAdvance: (char: string) => number,
+): Generator<PaginationBatch> {
+  const total = bookData.content.chapters.reduce((sum, chapter) => sum + chapter.blocks.length, 0)
+  const paginator = new VerticalPaginator(
+    metrics,
+    measureAdvance,
+    createBlockPositions(bookData.content.chapters),
+  )
+  let current = 0
+  let batchSize = 1
+
+  for (const chapter of bookData.content.chapters) {
+    for (const block of chapter.blocks) {
+      paginator.addBlock(chapter, block)
+      current++
+
+      if (paginator.pendingPageCount >= batchSize) {
+        yield { pages: paginator.takePages(), progress: { current, total } }
+        batchSize = PAGE_BATCH_SIZE
+      }
+    }
+    paginator.finishChapter(chapter)
+  }
+
+  yield { pages: paginator.takePages(), progress: { current, total } }
+}
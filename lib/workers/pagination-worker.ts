@@ -0,0 +1,40 @@
+/**
+ * ページネーション用 Web Worker
+ * OffscreenCanvas のグリフメトリクスでページを組み立て、できた順にメインスレッドへ送る
+ */
+
+import {
+  createAdvanceMeasurer,
+  type PaginationWorkerRequest,
+  type PaginationWorkerResponse,
+  paginateVerticalText,
+} from '@/lib/utils/vertical-pagination'
+
+// tsconfig に webworker の型定義を含めていないため、使う部分だけ型を付ける
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<PaginationWorkerRequest>) => void) | null
+  postMessage: (message: PaginationWorkerResponse) => void
+}
+
+workerScope.onmessage = (event) => {
+  const { bookData, metrics } = event.data
+
+  try {
+    const context = new OffscreenCanvas(1, 1).getContext('2d')
+    if (!context) {
+      throw new Error('OffscreenCanvas の 2D コンテキストを取得できません')
+    }
+    context.font = metrics.font
+
+    const measureAdvance = createAdvanceMeasurer(metrics, (text) => context.measureText(text).width)
+    for (const batch of paginateVerticalText(bookData, metrics, measureAdvance)) {
+      workerScope.postMessage({ type: 'batch', ...batch })
+    }
+    workerScope.postMessage({ type: 'done' })
+  } catch (error) {
+    workerScope.postMessage({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'ページネーション計算エラー',
+    })
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * プレーンテキスト（青空文庫形式）を BookData JSON に変換する CLI
+ *
+ * 使い方:
+ *   npm run import-text -- <入力.txt> <出力.json> [--id <書籍ID>] [--chapter-pattern <正規表現>]
+ *
+ * 例:
+ *   npm run import-text -- original/吾輩は猫である.txt lib/mock-data/wagahai.json
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { dirname } from 'node:path'
+import { importPlainText, type PlainTextImportOptions } from '../lib/utils/plain-text-importer'
+
+function parseArgs(argv: string[]): {
+  input: string
+  output: string
+  options: PlainTextImportOptions
+} {
+  const positional: string[] = []
+  const options: PlainTextImportOptions = {}
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === '--id') {
+      options.bookId = Number(argv[++i])
+    } else if (arg === '--chapter-pattern') {
+      options.chapterHeadingPattern = new RegExp(argv[++i])
+    } else {
+      positional.push(arg)
+    }
+  }
+
+  if (positional.length !== 2 || (options.bookId !== undefined && Number.isNaN(options.bookId))) {
+    console.error(
+      'Usage: import-plain-text <input.txt> <output.json> [--id <bookId>] [--chapter-pattern <regex>]',
+    )
+    process.exit(1)
+  }
+
+  return { input: positional[0], output: positional[1], options }
+}
+
+function main() {
+  const { input, output, options } = parseArgs(process.argv.slice(2))
+
+  console.log(`Converting ${input} to JSON...`)
+  const bookData = importPlainText(readFileSync(input, 'utf-8'), options)
+
+  mkdirSync(dirname(output), { recursive: true })
+  writeFileSync(output, `${JSON.stringify(bookData, null, 2)}\n`, 'utf-8')
+
+  // 統計情報を表示
+  const blocks = bookData.content.chapters.flatMap((chapter) => chapter.blocks)
+  const conversationBlocks = blocks.filter((block) => block.type === 'conversation').length
+
+  console.log(`Successfully converted to: ${output}`)
+  console.log(`Created ${bookData.content.chapters.length} chapters`)
+  console.log(`Total blocks: ${blocks.length}`)
+  console.log(`Conversation blocks: ${conversationBlocks}`)
+  console.log(`Paragraph blocks: ${blocks.length - conversationBlocks}`)
+}
+
+main()
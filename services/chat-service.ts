@@ -1,3 +1,16 @@
+import { type ChatErrorCode, parseChatErrorBody } from '@/lib/utils/chat-errors'
+import { MAX_HISTORY_LENGTH, MAX_HISTORY_MESSAGE_LENGTH } from '@/lib/utils/chat-request-schema'
+import { readChatStream } from '@/lib/utils/chat-stream'
+
+// 質問に添える本文の引用（ブロック本文上の範囲）
+interface ChatQuote {
+  chapterId: number
+  blockId: number
+  start: number
+  end: number
+  text: string
+}
+
 interface ChatMessage {
   id: string
   role: 'user' | 'assistant'
@@ -5,118 +18,211 @@ interface ChatMessage {
   timestamp: Date
   characterId?: string
   characterName?: string
+  errorCode?: ChatErrorCode  // エラー応答の場合のみ設定
+  quote?: ChatQuote  // 引用について質問した発言と、その応答に設定
 }
 
 interface ChatRequest {
   book_id: string
   character_id: number | null
+  character_ids?: number[]  // グループ会話で招待したキャラクター
   pos: number
   question: string
+  quote?: ChatQuote
   history: {
     character_id: number
     message: string
   }[]
 }
 
+// 応答するキャラクター
+interface ChatSpeaker {
+  id: number
+  name: string
+}
+
 interface ChatResponse {
   answer: string[]
 }
 
+/**
+ * エラー応答・ストリーム中に通知された型付きエラー
+ */
+export class ChatServiceError extends Error {
+  readonly code: ChatErrorCode
+
+  constructor(code: ChatErrorCode, message: string) {
+    super(message)
+    this.name = 'ChatServiceError'
+    this.code = code
+  }
+}
+
+// エラーコードごとのキャラクター側の応答文
+const ERROR_MESSAGES: Record<ChatErrorCode, string> = {
+  invalid_request: 'うまく聞き取れませんでした。質問を短くするか、言い方を変えてもう一度お試しください。',
+  unknown_book: 'この本についてはまだお話しできません。',
+  unknown_character: 'そのキャラクターとはこの本ではお話しできません。',
+  rate_limited: '今はたくさん話しかけられていて手が回りません。少し待ってからもう一度お試しください。',
+  upstream_timeout: '考え込んでしまって、返事が間に合いませんでした。もう一度お試しください。',
+  upstream_unavailable: 'すみません、今お話しできません。少し時間をおいてからもう一度お試しください。',
+  upstream_error: 'すみません、今お話しできません。少し時間をおいてからもう一度お試しください。',
+  spoiler_blocked: 'その話はまだ先の展開に関わるから、もう少し読み進めてからにしよう。',
+  network_error: '通信できませんでした。ネットワークの接続を確認して、もう一度お試しください。',
+}
+
+// 失敗の原因のエラーコード（fetch の失敗は /api/chat に接続できなかったもの）
+function toErrorCode(error: unknown): ChatErrorCode {
+  if (error instanceof ChatServiceError) return error.code
+  return error instanceof TypeError ? 'network_error' : 'upstream_error'
+}
+
 export class ChatService {
   private static readonly API_BASE_URL = '/api'
 
   /**
-   * キャラクターとチャットする（新フォーマット）
+   * キャラクターとチャットする（ストリーミング）
+   * 応答の各 answer を受信した時点で ChatMessage として返す
    */
-  static async chatWithCharacter(request: {
-    bookId: string
-    characterId: number
-    characterName: string
-    message: string
-    position: number
-    messageHistory: ChatMessage[]
-  }): Promise<ChatMessage[]> {
-    try {
-      console.log('Sending chat request:', request)
-
-      // 新しいAPIフォーマットに変換
-      const apiRequest: ChatRequest = {
+  static streamChatWithCharacter(
+    request: {
+      bookId: string
+      characterId: number
+      characterName: string
+      message: string
+      position: number
+      quote?: ChatQuote
+      messageHistory: ChatMessage[]
+    },
+    signal?: AbortSignal
+  ): AsyncGenerator<ChatMessage, void, unknown> {
+    return ChatService.streamChat(
+      {
         book_id: request.bookId,
         character_id: request.characterId,
         pos: request.position,
         question: request.message,
-        history: request.messageHistory
-          .map(msg => ({
-            // ユーザーの発言の場合は0、キャラクターの発言の場合はそのID
-            character_id: msg.role === 'user' ? 0 : parseInt(msg.characterId || '0'),
-            message: msg.content
-          }))
-      }
+        quote: request.quote,
+        history: ChatService.toApiHistory(request.messageHistory)
+      },
+      [{ id: request.characterId, name: request.characterName }],
+      signal
+    )
+  }
 
+  /**
+   * 複数のキャラクターとチャットする（ストリーミング）
+   * 各キャラクターの応答が届いた順に、話者付きの ChatMessage として返す
+   */
+  static streamGroupChat(
+    request: {
+      bookId: string
+      characters: ChatSpeaker[]
+      message: string
+      position: number
+      quote?: ChatQuote
+      messageHistory: ChatMessage[]
+    },
+    signal?: AbortSignal
+  ): AsyncGenerator<ChatMessage, void, unknown> {
+    return ChatService.streamChat(
+      {
+        book_id: request.bookId,
+        character_id: null,
+        character_ids: request.characters.map(character => character.id),
+        pos: request.position,
+        question: request.message,
+        quote: request.quote,
+        history: ChatService.toApiHistory(request.messageHistory)
+      },
+      request.characters,
+      signal
+    )
+  }
+
+  // 会話履歴を API の形式に変換（ユーザーの発言は0、キャラクターの発言はそのID）
+  // エラー応答は除き、直近の発言だけを送る。長い発言は API の上限に収まるよう末尾を切り詰める
+  private static toApiHistory(messages: ChatMessage[]): ChatRequest['history'] {
+    return messages.filter(msg => !msg.errorCode).slice(-MAX_HISTORY_LENGTH).map(msg => ({
+      character_id: msg.role === 'user' ? 0 : parseInt(msg.characterId || '0'),
+      message: msg.content.length > MAX_HISTORY_MESSAGE_LENGTH
+        ? `${msg.content.slice(0, MAX_HISTORY_MESSAGE_LENGTH - 1)}…`
+        : msg.content
+    }))
+  }
+
+  private static async *streamChat(
+    apiRequest: ChatRequest,
+    speakers: ChatSpeaker[],
+    signal?: AbortSignal
+  ): AsyncGenerator<ChatMessage, void, unknown> {
+    const baseTimestamp = Date.now()
+    let index = 0
+    // 話者が示されない応答・エラー応答は最初のキャラクターの発言として扱う
+    const defaultSpeaker = speakers[0]
+
+    try {
       const response = await fetch(`${this.API_BASE_URL}/chat`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(apiRequest),
+        signal,
       })
 
       if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}))
-        throw new Error(errorData.error || `HTTP error! status: ${response.status}`)
+        const error = parseChatErrorBody(await response.json().catch(() => null))
+        throw new ChatServiceError(
+          error?.code ?? 'upstream_error',
+          error?.message || `HTTP error! status: ${response.status}`
+        )
       }
 
-      const data: ChatResponse = await response.json()
-      console.log('Received chat response:', data)
+      if (!response.body) {
+        throw new ChatServiceError('upstream_error', 'Empty response body')
+      }
 
-      // レスポンス配列を順次ChatMessage形式に変換
-      const chatMessages: ChatMessage[] = []
-      const baseTimestamp = Date.now()
+      // 受信した answer を順次ChatMessage形式に変換
+      for await (const event of readChatStream(response.body)) {
+        if (event.type === 'error') {
+          throw new ChatServiceError(event.code, event.error)
+        }
+        if (event.type === 'done') {
+          break
+        }
 
-      for (let i = 0; i < data.answer.length; i++) {
-        const message = data.answer[i]
-        const chatMessage: ChatMessage = {
-          id: `${baseTimestamp}_${request.characterId}_${i}`,
+        const speaker = speakers.find(s => s.id === event.characterId) || defaultSpeaker
+        yield {
+          id: `${baseTimestamp}_${speaker.id}_${index}`,
           role: 'assistant',
-          content: message,
-          timestamp: new Date(baseTimestamp + (i * 500)), // 500ms間隔でタイムスタンプを設定
-          characterId: request.characterId.toString(),
-          characterName: request.characterName,
+          content: event.text,
+          timestamp: new Date(),
+          characterId: speaker.id.toString(),
+          characterName: speaker.name,
+          quote: apiRequest.quote,
         }
-        chatMessages.push(chatMessage)
+        index++
       }
 
-      return chatMessages
-
     } catch (error) {
+      // ユーザーによる中断はエラー扱いしない
+      if (signal?.aborted) {
+        return
+      }
+
       console.error('Chat service error:', error)
 
       // エラー時のフォールバック応答
-      const fallbackMessage: ChatMessage = {
+      const errorCode = toErrorCode(error)
+      yield {
         id: `${Date.now()}_error`,
         role: 'assistant',
-        content: 'すみません、今お話しできません。少し時間をおいてからもう一度お試しください。',
+        content: ERROR_MESSAGES[errorCode],
+        errorCode,
         timestamp: new Date(),
-        characterId: request.characterId.toString(),
-        characterName: request.characterName,
-      }
-
-      return [fallbackMessage]
-    }
-  }
-
-  /**
-   * メッセージを順次表示するためのヘルパー関数
-   */
-  static async *processMessagesSequentially(
-    messages: ChatMessage[],
-    delayMs = 500
-  ): AsyncGenerator<ChatMessage, void, unknown> {
-    for (const message of messages) {
-      yield message
-      if (messages.indexOf(message) < messages.length - 1) {
-        // 最後のメッセージでなければ遅延を入れる
-        await new Promise(resolve => setTimeout(resolve, delayMs))
+        characterId: defaultSpeaker.id.toString(),
+        characterName: defaultSpeaker.name,
       }
     }
   }
@@ -150,4 +256,4 @@ export class ChatService {
 }
 
 // タイプエクスポート
-export type { ChatMessage, ChatRequest, ChatResponse }
\ No newline at end of file
+export type { ChatMessage, ChatQuote, ChatRequest, ChatResponse, ChatSpeaker }
\ No newline at end of file
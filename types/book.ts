@@ -1,3 +1,9 @@
+// ブロック本文に対するインライン注記（start/end はブロック本文内の文字オフセット）
+export type InlineAnnotation =
+  | { type: 'ruby'; start: number; end: number; text: string }
+  | { type: 'emphasis'; start: number; end: number; style: string } // style は CSS の text-emphasis-style
+  | { type: 'gaiji'; start: number; end: number; description: string }
+
 export interface BookData {
   metadata: {
     id: number
@@ -12,7 +18,24 @@ export interface BookData {
         id: number
         type: string
         text: string
+        annotations?: InlineAnnotation[]
       }>
     }>
   }
-}
\ No newline at end of file
+}
+
+// 本棚に並べる書籍（key は lib/mock-data 内のデータファイル名 `<key>.json` / `<key>.characters.json`）
+export interface BookCatalogEntry {
+  id: string
+  title: string
+  key?: string
+  author: string
+  cover: string
+  content: string
+  disabled: boolean
+  unavailableReason?: string // disabled の書籍を「近日公開」として表示する際の理由
+  characterIconMap: Array<{
+    id: number
+    fileName: string
+  }>
+}
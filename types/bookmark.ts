@@ -0,0 +1,24 @@
+import type { ContentPosition, ContentRange } from '@/lib/utils/reading-state'
+
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink'
+
+export interface Bookmark {
+  id: string
+  bookId: string
+  position: ContentPosition // ページの先頭の位置
+  chapterTitle?: string
+  excerpt: string // 位置から始まる本文の抜粋
+  createdAt: Date
+}
+
+export interface Highlight {
+  id: string
+  bookId: string
+  range: ContentRange
+  chapterTitle?: string
+  text: string
+  color: HighlightColor
+  note?: string
+  createdAt: Date
+  updatedAt: Date
+}
@@ -1,13 +1,53 @@
+/**
+ * 本文中の位置（章ID・ブロックID・ブロック内の文字オフセット）
+ * characterOffset を省略した場合はブロックの先頭を表す
+ */
+export interface CharacterTextPosition {
+  chapter: number
+  block: number
+  characterOffset?: number
+}
+
+/**
+ * 本文の進行に応じて明かされる情報
+ * revealedAt を省略した場合は登場時点で明かされているものとする
+ */
+export interface RevealedFact {
+  text: string
+  revealedAt?: CharacterTextPosition
+}
+
+export interface Relationship {
+  characterId: number
+  type: string // 例: 飼い主、友人、恋慕
+  description: string
+  revealedAt?: CharacterTextPosition
+}
+
+export interface CharacterProfile {
+  age?: number
+  gender?: string
+  occupation?: RevealedFact
+  description: string // 登場時点で分かる人物像
+  personality: RevealedFact[]
+  background: RevealedFact[]
+  relationships: Relationship[]
+}
+
+export interface DialogueStyle {
+  tone: string
+  vocabulary: string[]
+  catchphrases: RevealedFact[]
+}
+
 export interface Character {
   id: number
   name: string
-  appearance: {
-    chapter: number
-    block: number
-    characterOffset: number
-  }
+  appearance: CharacterTextPosition // 初登場の位置
+  profile?: CharacterProfile
+  dialogueStyle?: DialogueStyle
 }
 
 export interface BookCharacters {
   characters: Character[]
-}
\ No newline at end of file
+}
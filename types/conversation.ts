@@ -0,0 +1,16 @@
+import type { ChatMessage } from '@/services/chat-service'
+
+export interface Conversation {
+  id: string
+  sessionId: string // ブラウザセッション識別子
+  characterId: string
+  bookId: string
+  messages: ChatMessage[]
+  context: {
+    chapter?: number
+    scene?: string
+    mood?: string
+  }
+  createdAt: Date
+  updatedAt: Date
+}
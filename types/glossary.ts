@@ -0,0 +1,26 @@
+import type { ContentPosition } from '@/lib/utils/reading-state'
+
+export type GlossaryCategory = 'character' | 'place' | 'term'
+
+/**
+ * 本文の進行に応じて明かされる記述
+ * revealedAt を省略した場合は項目の初出時点で明かされているものとする
+ */
+export interface GlossaryFact {
+  text: string
+  revealedAt?: ContentPosition
+}
+
+export interface GlossaryEntry {
+  id: string
+  name: string
+  reading?: string
+  category: GlossaryCategory
+  revealedAt: ContentPosition // 初出の位置（これより前は項目自体を表示しない）
+  summary: string // 初出の時点で分かる説明
+  facts: GlossaryFact[]
+}
+
+export interface BookGlossary {
+  entries: GlossaryEntry[]
+}
@@ -1,3 +1,5 @@
+import type { InlineAnnotation } from './book'
+
 export interface PagePosition {
   chapterId: number
   blockId: number
@@ -48,4 +50,5 @@ export interface Block {
   id: number
   type: 'paragraph' | 'conversation'
   text: string
+  annotations?: InlineAnnotation[]
 }